@@ -0,0 +1,130 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUnits } from "@/hooks/use-units";
+import type { FanCurvePoint, FlowArrangement } from "@/lib/thermal";
+import { fromSI, toSI } from "@/lib/units";
+import NumberField from "./NumberField";
+import type { HeatsinkDesign } from "./types";
+
+interface AirflowFormProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+const AirflowForm = ({ design, onChange }: AirflowFormProps) => {
+  const units = useUnits();
+  const flowUnit = units.unit("flow");
+  const pressureUnit = units.unit("pressure");
+  const setPoint = (index: number, patch: Partial<FanCurvePoint>) =>
+    onChange({
+      ...design,
+      fanCurve: design.fanCurve.map((p, i) => (i === index ? { ...p, ...patch } : p)),
+    });
+
+  const addPoint = () => {
+    const last = design.fanCurve[design.fanCurve.length - 1];
+    onChange({
+      ...design,
+      fanCurve: [
+        ...design.fanCurve,
+        { flow: (last?.flow ?? 0) + 0.002, pressure: 0 },
+      ],
+    });
+  };
+
+  const removePoint = (index: number) =>
+    onChange({
+      ...design,
+      fanCurve: design.fanCurve.filter((_, i) => i !== index),
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Airflow</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="flow-arrangement">Flow arrangement</Label>
+            <Select
+              value={design.arrangement}
+              onValueChange={(v) =>
+                onChange({ ...design, arrangement: v as FlowArrangement })
+              }
+            >
+              <SelectTrigger id="flow-arrangement">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ducted">Ducted (shrouded)</SelectItem>
+                <SelectItem value="unducted">Unducted (bypass)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <NumberField
+            id="duct-area"
+            label="Duct area"
+            quantity="area"
+            value={design.ductArea}
+            onChange={(ductArea) => onChange({ ...design, ductArea })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>
+            Fan curve ({flowUnit.label}, {pressureUnit.label})
+          </Label>
+          {design.fanCurve.map((point, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="number"
+                aria-label={`Flow ${index + 1}`}
+                value={+fromSI(point.flow, flowUnit).toPrecision(6)}
+                onChange={(e) =>
+                  setPoint(index, {
+                    flow: toSI(parseFloat(e.target.value), flowUnit),
+                  })
+                }
+              />
+              <Input
+                type="number"
+                aria-label={`Pressure ${index + 1}`}
+                value={+fromSI(point.pressure, pressureUnit).toPrecision(6)}
+                onChange={(e) =>
+                  setPoint(index, {
+                    pressure: toSI(parseFloat(e.target.value), pressureUnit),
+                  })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove point"
+                disabled={design.fanCurve.length <= 2}
+                onClick={() => removePoint(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addPoint}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add point
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AirflowForm;
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Play, Square } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  conductionInput,
+  useConductionSolver,
+} from "@/hooks/use-conduction-solver";
+import type {
+  ConductionModel,
+  ForcedConvectionResult,
+  NaturalConvectionResult,
+} from "@/lib/thermal";
+import NumberField from "./NumberField";
+import ResultRow from "./ResultRow";
+import TemperatureFieldViewer from "./TemperatureFieldViewer";
+import type { HeatsinkDesign } from "./types";
+
+interface ConductionPanelProps {
+  /** The design as solved, the LED board in place of the devices. */
+  design: HeatsinkDesign;
+  heatsink: NaturalConvectionResult | ForcedConvectionResult;
+}
+
+const ConductionPanel = ({ design, heatsink }: ConductionPanelProps) => {
+  const [model, setModel] = useState<ConductionModel>("solid");
+  const [cellSize, setCellSize] = useState(0.002);
+  const { status, progress, result, error, solve, cancel } =
+    useConductionSolver();
+  const running = status === "running";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Conduction solver</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1.5">
+            <Label>Model</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={model}
+              onValueChange={(v) => v && setModel(v as ConductionModel)}
+            >
+              <ToggleGroupItem value="plate">Base plate</ToggleGroupItem>
+              <ToggleGroupItem value="solid">Full 3D</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <NumberField
+            id="cell-size"
+            label="Cell size"
+            quantity="length"
+            value={cellSize}
+            onChange={setCellSize}
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          {running ? (
+            <Button variant="outline" size="sm" onClick={cancel}>
+              <Square className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() =>
+                solve(conductionInput(design, heatsink, model, cellSize))
+              }
+            >
+              <Play className="mr-1 h-4 w-4" />
+              Solve
+            </Button>
+          )}
+          <Progress value={progress * 100} className="flex-1" />
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {result && (
+          <>
+            <TemperatureFieldViewer field={result.field} />
+            <div>
+              {design.devices.map((device, i) => (
+                <ResultRow
+                  key={device.id}
+                  label={`Mounting face under ${device.name}`}
+                  value={result.sourceTemperatures[i]}
+                  quantity="temperature"
+                />
+              ))}
+              <ResultRow label="Coldest metal" value={result.field.min} quantity="temperature" />
+              <ResultRow label="Hottest metal" value={result.field.max} quantity="temperature" />
+              <Separator className="my-2" />
+              <ResultRow label="Cells" value={result.cellCount} digits={0} />
+              <ResultRow label="Iterations" value={result.iterations} digits={0} />
+              <ResultRow label="Heat balance" value={result.dissipated} quantity="power" digits={2} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConductionPanel;
@@ -0,0 +1,122 @@
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  MANUFACTURING_PROCESSES,
+  checkDesignRules,
+  type CostCurvePoint,
+  type HeatsinkGeometry,
+  type ManufacturingProcessId,
+} from "@/lib/thermal";
+
+const COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+  "hsl(var(--primary))",
+  "hsl(var(--muted-foreground))",
+];
+
+const chartConfig = Object.fromEntries(
+  MANUFACTURING_PROCESSES.map((p, i) => [
+    p.id,
+    { label: p.label, color: COLORS[i % COLORS.length] },
+  ])
+) satisfies ChartConfig;
+
+interface CostChartProps {
+  curve: CostCurvePoint[];
+  geometry: HeatsinkGeometry;
+  process: ManufacturingProcessId;
+  annualVolume: number;
+}
+
+/**
+ * Unit cost against annual volume on log axes. The chosen process is drawn
+ * heavier; processes whose design rules the geometry breaks are dashed.
+ */
+const CostChart = ({
+  curve,
+  geometry,
+  process,
+  annualVolume,
+}: CostChartProps) => {
+  const data = curve.map((p) => ({ annualVolume: p.annualVolume, ...p.costs }));
+
+  return (
+    <ChartContainer config={chartConfig}>
+      <LineChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="annualVolume"
+          type="number"
+          scale="log"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(v: number) => `${+v.toPrecision(2)}`}
+          label={{
+            value: "Parts per year",
+            position: "insideBottom",
+            offset: -4,
+          }}
+        />
+        <YAxis
+          scale="log"
+          domain={["auto", "auto"]}
+          tickFormatter={(v: number) => `${+v.toPrecision(2)}`}
+          label={{
+            value: "Unit cost (USD)",
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `${Math.round(payload[0]?.payload.annualVolume)} parts/year`
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {MANUFACTURING_PROCESSES.map((p) => (
+          <Line
+            key={p.id}
+            dataKey={p.id}
+            type="monotone"
+            stroke={`var(--color-${p.id})`}
+            strokeWidth={p.id === process ? 3 : 1.5}
+            strokeDasharray={
+              checkDesignRules(geometry, p).every((check) => check.passed)
+                ? undefined
+                : "4 4"
+            }
+            dot={false}
+          />
+        ))}
+        <ReferenceLine
+          x={annualVolume}
+          stroke="hsl(var(--muted-foreground))"
+          strokeDasharray="4 4"
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default CostChart;
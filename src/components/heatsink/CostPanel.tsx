@@ -0,0 +1,112 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useCostEstimate } from "@/hooks/use-cost-estimate";
+import { getManufacturingProcess } from "@/lib/thermal";
+import CostChart from "./CostChart";
+import NumberField from "./NumberField";
+import ResultRow from "./ResultRow";
+import type { HeatsinkDesign } from "./types";
+
+interface CostPanelProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+/** Per-unit price of the design and how each process compares by volume. */
+const CostPanel = ({ design, onChange }: CostPanelProps) => {
+  const { cost } = design;
+  const { estimate, curve } = useCostEstimate(design);
+  const process = getManufacturingProcess(design.process);
+  const setCost = (next: Partial<typeof cost>) =>
+    onChange({ ...design, cost: { ...cost, ...next } });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cost: {process.label.toLowerCase()}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <NumberField
+            id="annual-volume"
+            label="Parts per year"
+            step={100}
+            value={cost.annualVolume}
+            onChange={(annualVolume) =>
+              setCost({ annualVolume: Math.max(1, Math.round(annualVolume)) })
+            }
+          />
+          <NumberField
+            id="mounting-holes"
+            label="Mounting holes"
+            step={1}
+            value={cost.mountingHoles}
+            onChange={(mountingHoles) =>
+              setCost({ mountingHoles: Math.max(0, Math.round(mountingHoles)) })
+            }
+          />
+          <div className="col-span-2 flex items-center gap-2">
+            <Switch
+              id="fly-cut-base"
+              checked={cost.flyCutBase}
+              onCheckedChange={(flyCutBase) => setCost({ flyCutBase })}
+            />
+            <Label htmlFor="fly-cut-base">Fly-cut the base flat</Label>
+          </div>
+        </div>
+        {estimate && (
+          <div>
+            <ResultRow label="Mass" value={estimate.mass} quantity="mass" />
+            <ResultRow label="Material" value={estimate.material} unit="USD" />
+            <ResultRow
+              label="Processing"
+              value={estimate.processing}
+              unit="USD"
+            />
+            <ResultRow
+              label="Tooling share"
+              value={estimate.tooling}
+              unit="USD"
+            />
+            <ResultRow
+              label="Machining"
+              value={estimate.machining}
+              unit="USD"
+            />
+            <ResultRow
+              label="Surface finish"
+              value={estimate.finish}
+              unit="USD"
+            />
+            <Separator className="my-2" />
+            <ResultRow label="Unit cost" value={estimate.total} unit="USD" />
+            <ResultRow
+              label="Per year"
+              value={estimate.total * cost.annualVolume}
+              unit="USD"
+              digits={0}
+            />
+            {!Number.isFinite(estimate.material) && (
+              <p className="pt-2 text-sm text-muted-foreground">
+                The material has no price or density; pick one from the library
+                to include the metal.
+              </p>
+            )}
+          </div>
+        )}
+        {curve && (
+          <CostChart
+            curve={curve}
+            geometry={design.geometry}
+            process={design.process}
+            annualVolume={cost.annualVolume}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CostPanel;
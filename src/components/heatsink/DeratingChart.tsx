@@ -0,0 +1,84 @@
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useUnits } from "@/hooks/use-units";
+import type { DeratingPoint } from "@/lib/thermal";
+import { fromSI } from "@/lib/units";
+
+interface DeratingChartProps {
+  curve: DeratingPoint[];
+  /** Current total device power (W). */
+  power: number;
+  /** Current site altitude (m). */
+  altitude: number;
+}
+
+const DeratingChart = ({ curve, power, altitude }: DeratingChartProps) => {
+  const units = useUnits();
+  const altitudeUnit = units.unit("altitude");
+  const powerUnit = units.unit("power");
+  const powerLabel = `Max power (${powerUnit.label})`;
+  const chartConfig = {
+    maxPower: { label: powerLabel, color: "hsl(var(--chart-1))" },
+  } satisfies ChartConfig;
+  const data = curve.map((p) => ({
+    altitude: fromSI(p.altitude, altitudeUnit),
+    maxPower: fromSI(p.maxPower, powerUnit),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Altitude derating</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig}>
+          <LineChart data={data} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="altitude"
+              type="number"
+              domain={[0, "dataMax"]}
+              label={{ value: `Altitude (${altitudeUnit.label})`, position: "insideBottom", offset: -4 }}
+            />
+            <YAxis
+              domain={[0, "auto"]}
+              label={{ value: powerLabel, angle: -90, position: "insideLeft" }}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              dataKey="maxPower"
+              type="monotone"
+              stroke="var(--color-maxPower)"
+              dot
+            />
+            <ReferenceLine
+              y={fromSI(power, powerUnit)}
+              stroke="hsl(var(--destructive))"
+              strokeDasharray="4 4"
+            />
+            <ReferenceLine
+              x={fromSI(altitude, altitudeUnit)}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeratingChart;
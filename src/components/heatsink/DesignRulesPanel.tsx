@@ -0,0 +1,77 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/hooks/use-units";
+import { checkDesignRules, getManufacturingProcess } from "@/lib/thermal";
+import { RULE_LABELS, formatRuleCheck } from "./design-rules";
+import type { HeatsinkDesign } from "./types";
+
+interface DesignRulesPanelProps {
+  design: HeatsinkDesign;
+}
+
+/** Design-rule check of the geometry against the chosen process. */
+const DesignRulesPanel = ({ design }: DesignRulesPanelProps) => {
+  const length = useUnits().unit("length");
+  const process = getManufacturingProcess(design.process);
+  const checks = checkDesignRules(design.geometry, process);
+  if (checks.length === 0) return null;
+  const failed = checks.filter((check) => !check.passed).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Design rules: {process.label.toLowerCase()}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead className="text-right">Design</TableHead>
+              <TableHead className="text-right">Limit</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {checks.map((check) => {
+              const { value, limit } = formatRuleCheck(check, length);
+              return (
+                <TableRow key={check.rule}>
+                  <TableCell className="font-medium">
+                    {RULE_LABELS[check.rule]}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {value}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {limit}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={check.passed ? "secondary" : "destructive"}>
+                      {check.passed ? "Pass" : "Fail"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <p className="text-sm text-muted-foreground">
+          {failed === 0
+            ? "The geometry can be made by this process."
+            : `${failed} of ${checks.length} rules fail; the flagged inputs need changing or another process.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DesignRulesPanel;
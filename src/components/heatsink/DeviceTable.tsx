@@ -0,0 +1,87 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/hooks/use-units";
+import type { DeviceResult } from "@/lib/thermal";
+import { formatQuantity } from "@/lib/units";
+
+interface DeviceTableProps {
+  results: DeviceResult[];
+}
+
+const DeviceTable = ({ results }: DeviceTableProps) => {
+  const units = useUnits();
+  const power = units.unit("power");
+  const rise = units.unit("temperatureDifference");
+  const temperature = units.unit("temperature");
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Devices</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead className="text-right">P ({power.label})</TableHead>
+              <TableHead className="text-right">
+                Mutual ({rise.label})
+              </TableHead>
+              <TableHead className="text-right">
+                Tcase ({temperature.label})
+              </TableHead>
+              <TableHead className="text-right">
+                Tj ({temperature.label})
+              </TableHead>
+              <TableHead className="text-right">
+                Tj max ({temperature.label})
+              </TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map(({ device, stack, pass }) => (
+              <TableRow key={device.id}>
+                <TableCell className="font-medium">{device.name}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(device.power, power)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(stack.mutualRise, rise)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(stack.caseTemperature, temperature)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(stack.junctionTemperature, temperature)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(
+                    device.maxJunctionTemperature,
+                    temperature,
+                    0
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={pass ? "secondary" : "destructive"}>
+                    {pass ? "Pass" : "Fail"}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeviceTable;
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { Package, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  applyPackage,
+  type DevicePackage,
+  type MountedDevice,
+} from "@/lib/thermal";
+import InterfaceMaterialPicker from "./InterfaceMaterialPicker";
+import NumberField from "./NumberField";
+import PackageDialog from "./PackageDialog";
+import { newDevice } from "./defaults";
+import type { HeatsinkDesign } from "./types";
+
+interface DevicesFormProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+const DevicesForm = ({ design, onChange }: DevicesFormProps) => {
+  const { devices } = design;
+  const setDevice = (id: string, patch: Partial<MountedDevice>) =>
+    onChange({
+      ...design,
+      devices: devices.map((d) => (d.id === id ? { ...d, ...patch } : d)),
+    });
+  // Device the package dialog applies to, or "new" to insert a device.
+  const [packageTarget, setPackageTarget] = useState<string>();
+  const choosePackage = (pkg: DevicePackage) => {
+    if (packageTarget === "new") {
+      const device = newDevice(devices, design.geometry);
+      onChange({
+        ...design,
+        devices: [
+          ...devices,
+          applyPackage({ ...device, name: `${device.name} ${pkg.name}` }, pkg),
+        ],
+      });
+    } else {
+      onChange({
+        ...design,
+        devices: devices.map((d) =>
+          d.id === packageTarget ? applyPackage(d, pkg) : d
+        ),
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Heat sources</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {devices.map((device) => (
+          <div key={device.id} className="space-y-3 rounded-md border p-3">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1.5">
+                <Label htmlFor={`${device.id}-name`}>Name</Label>
+                <Input
+                  id={`${device.id}-name`}
+                  value={device.name}
+                  onChange={(e) => setDevice(device.id, { name: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Apply a package to ${device.name}`}
+                onClick={() => setPackageTarget(device.id)}
+              >
+                <Package className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove ${device.name}`}
+                disabled={devices.length <= 1}
+                onClick={() =>
+                  onChange({
+                    ...design,
+                    devices: devices.filter((d) => d.id !== device.id),
+                  })
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <NumberField
+                id={`${device.id}-power`}
+                label="Power"
+                quantity="power"
+                value={device.power}
+                onChange={(power) => setDevice(device.id, { power })}
+              />
+              <NumberField
+                id={`${device.id}-width`}
+                label="Width"
+                quantity="length"
+                value={device.width}
+                onChange={(width) => setDevice(device.id, { width })}
+              />
+              <NumberField
+                id={`${device.id}-length`}
+                label="Length"
+                quantity="length"
+                value={device.length}
+                onChange={(length) => setDevice(device.id, { length })}
+              />
+              <NumberField
+                id={`${device.id}-x`}
+                label="Centre X"
+                quantity="length"
+                value={device.x}
+                onChange={(x) => setDevice(device.id, { x })}
+              />
+              <NumberField
+                id={`${device.id}-y`}
+                label="Centre Y"
+                quantity="length"
+                value={device.y}
+                onChange={(y) => setDevice(device.id, { y })}
+              />
+              <NumberField
+                id={`${device.id}-tj-max`}
+                label="Tj max"
+                quantity="temperature"
+                value={device.maxJunctionTemperature}
+                onChange={(maxJunctionTemperature) =>
+                  setDevice(device.id, { maxJunctionTemperature })
+                }
+              />
+              <NumberField
+                id={`${device.id}-rjc`}
+                label="Rth(j-c)"
+                quantity="thermalResistance"
+                value={device.junctionToCase}
+                onChange={(junctionToCase) =>
+                  setDevice(device.id, { junctionToCase })
+                }
+              />
+              <div className="flex items-end gap-1">
+                <div className="flex-1">
+                  <NumberField
+                    id={`${device.id}-rcs`}
+                    label="Rth(c-s)"
+                    quantity="thermalResistance"
+                    value={device.caseToSink}
+                    onChange={(caseToSink) =>
+                      setDevice(device.id, { caseToSink })
+                    }
+                  />
+                </div>
+                <InterfaceMaterialPicker
+                  id={`${device.id}-rcs`}
+                  area={device.width * device.length}
+                  onSelect={(caseToSink) =>
+                    setDevice(device.id, { caseToSink })
+                  }
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...design,
+                devices: [...devices, newDevice(devices, design.geometry)],
+              })
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add device
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPackageTarget("new")}
+          >
+            <Package className="mr-1 h-4 w-4" />
+            Add from package
+          </Button>
+          <div className="ml-auto flex items-center gap-2">
+            <Switch
+              id="include-spreading"
+              checked={design.includeSpreading}
+              onCheckedChange={(includeSpreading) =>
+                onChange({ ...design, includeSpreading })
+              }
+            />
+            <Label htmlFor="include-spreading">Include spreading resistance</Label>
+          </div>
+        </div>
+        <PackageDialog
+          open={packageTarget !== undefined}
+          onOpenChange={(open) => !open && setPackageTarget(undefined)}
+          onSelect={choosePackage}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DevicesForm;
@@ -0,0 +1,96 @@
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceDot,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useUnits } from "@/hooks/use-units";
+import type { ElectroThermalResult, StabilityPoint } from "@/lib/thermal";
+import { fromSI } from "@/lib/units";
+
+const chartConfig = {
+  generated: { label: "Device loss", color: "hsl(var(--chart-1))" },
+  removed: { label: "Heat removed", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+interface ElectroThermalChartProps {
+  curve: StabilityPoint[];
+  result: ElectroThermalResult;
+}
+
+/**
+ * Loss and heat removal against junction temperature. The device settles
+ * where removal first overtakes the loss; with no crossing it runs away.
+ */
+const ElectroThermalChart = ({ curve, result }: ElectroThermalChartProps) => {
+  const units = useUnits();
+  const temperature = units.unit("temperature");
+  const power = units.unit("power");
+  const data = curve.map((p) => ({
+    temperature: fromSI(p.temperature, temperature),
+    generated: fromSI(p.generated, power),
+    removed: fromSI(Math.max(0, p.removed), power),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig}>
+      <LineChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="temperature"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={(v: number) => `${+v.toPrecision(3)}`}
+          label={{
+            value: `Tj (${temperature.label})`,
+            position: "insideBottom",
+            offset: -4,
+          }}
+        />
+        <YAxis
+          domain={[0, "auto"]}
+          tickFormatter={(v: number) => `${+v.toPrecision(3)}`}
+          label={{
+            value: `Power (${power.label})`,
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line
+          dataKey="generated"
+          type="monotone"
+          stroke="var(--color-generated)"
+          dot={false}
+        />
+        <Line
+          dataKey="removed"
+          type="monotone"
+          stroke="var(--color-removed)"
+          dot={false}
+        />
+        {result.converged && (
+          <ReferenceDot
+            x={fromSI(result.temperature, temperature)}
+            y={fromSI(result.power, power)}
+            r={5}
+            fill="hsl(var(--foreground))"
+          />
+        )}
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default ElectroThermalChart;
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { ArrowUpDown, Search, Square } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useExtrusionSearch } from "@/hooks/use-extrusion-search";
+import { useUnits } from "@/hooks/use-units";
+import {
+  totalDevicePower,
+  type ExtrusionMatch,
+  type PlateFinGeometry,
+} from "@/lib/thermal";
+import { formatQuantity, fromSI } from "@/lib/units";
+import NumberField from "./NumberField";
+import type { HeatsinkDesign } from "./types";
+
+type SortKey = "mass" | "volume";
+
+interface ExtrusionCatalogProps {
+  /** The design as solved; its devices give the power until one is entered. */
+  design: HeatsinkDesign;
+  onChange: (geometry: PlateFinGeometry) => void;
+}
+
+/** Reverse lookup of catalog extrusions and cut lengths by required Rth. */
+const ExtrusionCatalog = ({ design, onChange }: ExtrusionCatalogProps) => {
+  const [required, setRequired] = useState(1);
+  const [ownPower, setPower] = useState<number>();
+  // The LED heat settles after the first render, so the power follows the
+  // devices until it is edited.
+  const power = ownPower ?? totalDevicePower(design.devices);
+  const [ambientTemperature, setAmbientTemperature] = useState(
+    design.ambientTemperature
+  );
+  const [sort, setSort] = useState<SortKey>("mass");
+  const { status, progress, matches, error, find, cancel } =
+    useExtrusionSearch();
+  const units = useUnits();
+  const length = units.unit("length");
+  const resistance = units.unit("thermalResistance");
+  const mass = units.unit("mass");
+  const volume = units.unit("volume");
+  const sorted = matches && [...matches].sort((a, b) => a[sort] - b[sort]);
+
+  const sortHead = (key: SortKey, label: string) => (
+    <TableHead className="text-right">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-mr-3"
+        aria-pressed={sort === key}
+        onClick={() => setSort(key)}
+      >
+        {label}
+        <ArrowUpDown
+          className={`ml-1 h-3 w-3 ${sort === key ? "" : "opacity-40"}`}
+        />
+      </Button>
+    </TableHead>
+  );
+  const load = ({ geometry }: ExtrusionMatch) => onChange(geometry);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Catalog extrusions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <NumberField
+            id="catalog-required"
+            label="Required Rth"
+            quantity="thermalResistance"
+            step={0.1}
+            value={required}
+            onChange={setRequired}
+          />
+          <NumberField
+            id="catalog-power"
+            label="Power"
+            quantity="power"
+            value={power}
+            onChange={setPower}
+          />
+          <NumberField
+            id="catalog-ambient"
+            label="Ambient"
+            quantity="temperature"
+            value={ambientTemperature}
+            onChange={setAmbientTemperature}
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          {status === "running" ? (
+            <Button variant="outline" size="sm" onClick={cancel}>
+              <Square className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() =>
+                find({ assembly: design, required, power, ambientTemperature })
+              }
+            >
+              <Search className="mr-1 h-4 w-4" />
+              Search
+            </Button>
+          )}
+          <Progress value={progress * 100} className="flex-1" />
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {sorted && (
+          <>
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Profile</TableHead>
+                    <TableHead className="text-right">
+                      Cut ({length.label})
+                    </TableHead>
+                    <TableHead className="text-right">
+                      R ({resistance.label})
+                    </TableHead>
+                    {sortHead("mass", `Mass (${mass.label})`)}
+                    {sortHead("volume", `Volume (${volume.label})`)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sorted.map((match) => (
+                    <TableRow
+                      key={`${match.extrusion.id}-${match.cutLength}`}
+                      className="cursor-pointer"
+                      onClick={() => load(match)}
+                    >
+                      <TableCell className="font-medium">
+                        {match.extrusion.name}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {+fromSI(match.cutLength, length).toPrecision(4)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatQuantity(match.resistance, resistance)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatQuantity(match.mass, mass)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatQuantity(match.volume, volume)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {sorted.length === 0
+                ? "No catalog profile meets this resistance; try a fan or a lower power."
+                : `${sorted.length} profile and cut length combinations meet the requirement. Click a row to load it.`}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExtrusionCatalog;
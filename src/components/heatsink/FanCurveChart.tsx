@@ -0,0 +1,80 @@
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useUnits } from "@/hooks/use-units";
+import type { ImpedanceCurvePoint, OperatingPoint } from "@/lib/thermal";
+import { fromSI } from "@/lib/units";
+
+const chartConfig = {
+  fanPressure: { label: "Fan", color: "hsl(var(--chart-1))" },
+  systemPressure: { label: "Heatsink", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+interface FanCurveChartProps {
+  curve: ImpedanceCurvePoint[];
+  operatingPoint: OperatingPoint;
+}
+
+const FanCurveChart = ({ curve, operatingPoint }: FanCurveChartProps) => {
+  const units = useUnits();
+  const flowUnit = units.unit("flow");
+  const pressureUnit = units.unit("pressure");
+  const data = curve.map((p) => ({
+    flow: fromSI(p.flow, flowUnit),
+    fanPressure: fromSI(p.fanPressure, pressureUnit),
+    systemPressure: fromSI(p.systemPressure, pressureUnit),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Operating point</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig}>
+          <LineChart data={data} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="flow"
+              type="number"
+              tickFormatter={(v: number) => `${+v.toPrecision(3)}`}
+              label={{ value: `Flow (${flowUnit.label})`, position: "insideBottom", offset: -4 }}
+            />
+            <YAxis
+              label={{ value: `Pressure (${pressureUnit.label})`, angle: -90, position: "insideLeft" }}
+            />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line
+              dataKey="fanPressure"
+              type="monotone"
+              stroke="var(--color-fanPressure)"
+              dot={false}
+            />
+            <Line
+              dataKey="systemPressure"
+              type="monotone"
+              stroke="var(--color-systemPressure)"
+              dot={false}
+            />
+            <ReferenceDot
+              x={fromSI(operatingPoint.flow, flowUnit)}
+              y={fromSI(operatingPoint.pressure, pressureUnit)}
+              r={5}
+              fill="hsl(var(--foreground))"
+            />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FanCurveChart;
@@ -0,0 +1,14 @@
+import { Separator } from "@/components/ui/separator";
+import type { FilmIteration } from "@/lib/thermal";
+import ResultRow from "./ResultRow";
+
+const FilmIterationRows = ({ result }: { result: FilmIteration }) => (
+  <>
+    <Separator className="my-2" />
+    <ResultRow label="Film temperature" value={result.filmTemperature} quantity="temperature" />
+    <ResultRow label="Iterations" value={result.iterations} digits={0} />
+    <ResultRow label="Surface temperature residual" value={result.residual * 1000} unit="mK" digits={3} />
+  </>
+);
+
+export default FilmIterationRows;
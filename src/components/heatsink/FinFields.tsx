@@ -0,0 +1,184 @@
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  finProfile,
+  type FinProfile,
+  type HeatsinkGeometry,
+  type PinLayout,
+  type PinShape,
+} from "@/lib/thermal";
+import NumberField from "./NumberField";
+import { convertFinProfile } from "./defaults";
+
+interface FinFieldsProps {
+  geometry: HeatsinkGeometry;
+  onChange: (geometry: HeatsinkGeometry) => void;
+  /** Design-rule messages keyed by geometry field. */
+  errors?: Partial<Record<string, string>>;
+}
+
+/** Inputs specific to the selected fin geometry. */
+const FinFields = ({ geometry, onChange, errors = {} }: FinFieldsProps) => {
+  if (geometry.kind === "pin-fin") {
+    return (
+      <>
+        <div className="space-y-1.5">
+          <Label>Pin shape</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            value={geometry.shape}
+            onValueChange={(shape) =>
+              shape && onChange({ ...geometry, shape: shape as PinShape })
+            }
+          >
+            <ToggleGroupItem value="round">Round</ToggleGroupItem>
+            <ToggleGroupItem value="square">Square</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Pin layout</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            value={geometry.layout}
+            onValueChange={(layout) =>
+              layout && onChange({ ...geometry, layout: layout as PinLayout })
+            }
+          >
+            <ToggleGroupItem value="inline">Inline</ToggleGroupItem>
+            <ToggleGroupItem value="staggered">Staggered</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <NumberField
+          id="pin-size"
+          label={geometry.shape === "round" ? "Pin diameter" : "Pin side"}
+          quantity="length"
+          step={0.1}
+          value={geometry.pinSize}
+          error={errors.pinSize}
+          onChange={(pinSize) => onChange({ ...geometry, pinSize })}
+        />
+        <NumberField
+          id="pin-columns"
+          label="Pins across"
+          step={1}
+          value={geometry.columns}
+          error={errors.columns}
+          onChange={(columns) =>
+            onChange({ ...geometry, columns: Math.round(columns) })
+          }
+        />
+        <NumberField
+          id="pin-rows"
+          label="Pin rows"
+          step={1}
+          value={geometry.rows}
+          error={errors.rows}
+          onChange={(rows) => onChange({ ...geometry, rows: Math.round(rows) })}
+        />
+      </>
+    );
+  }
+
+  const profile = finProfile(geometry);
+  return (
+    <>
+      <div className="col-span-2 space-y-1.5">
+        <Label>Fin profile</Label>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          className="justify-start"
+          value={profile.kind}
+          onValueChange={(kind) =>
+            kind &&
+            onChange({
+              ...geometry,
+              profile: convertFinProfile(geometry, kind as FinProfile["kind"]),
+            })
+          }
+        >
+          <ToggleGroupItem value="rectangular">Rectangular</ToggleGroupItem>
+          <ToggleGroupItem value="tapered">Tapered</ToggleGroupItem>
+          <ToggleGroupItem value="triangular">Triangular</ToggleGroupItem>
+          <ToggleGroupItem value="flared">Flared</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      <NumberField
+        id="fin-thickness"
+        label={
+          profile.kind === "rectangular" ? "Fin thickness" : "Root thickness"
+        }
+        quantity="length"
+        step={0.1}
+        value={geometry.finThickness}
+        error={errors.finThickness}
+        onChange={(finThickness) => onChange({ ...geometry, finThickness })}
+      />
+      {profile.kind === "tapered" && (
+        <NumberField
+          id="tip-thickness"
+          label="Tip thickness"
+          quantity="length"
+          step={0.1}
+          value={profile.tipThickness}
+          error={errors.tipThickness}
+          onChange={(tipThickness) =>
+            onChange({ ...geometry, profile: { ...profile, tipThickness } })
+          }
+        />
+      )}
+      {profile.kind === "flared" && (
+        <NumberField
+          id="flare-angle"
+          label="Flare between fins"
+          unit="°"
+          step={0.5}
+          value={profile.flareAngle}
+          onChange={(flareAngle) =>
+            onChange({ ...geometry, profile: { ...profile, flareAngle } })
+          }
+        />
+      )}
+      <NumberField
+        id="fin-count"
+        label="Fin count"
+        step={1}
+        value={geometry.finCount}
+        error={errors.finCount}
+        onChange={(finCount) =>
+          onChange({ ...geometry, finCount: Math.round(finCount) })
+        }
+      />
+      {geometry.kind === "cross-cut" && (
+        <>
+          <NumberField
+            id="cut-count"
+            label="Cross cuts"
+            step={1}
+            value={geometry.cutCount}
+            onChange={(cutCount) =>
+              onChange({ ...geometry, cutCount: Math.round(cutCount) })
+            }
+          />
+          <NumberField
+            id="cut-width"
+            label="Cut width"
+            quantity="length"
+            step={0.1}
+            value={geometry.cutWidth}
+            onChange={(cutWidth) => onChange({ ...geometry, cutWidth })}
+          />
+        </>
+      )}
+    </>
+  );
+};
+
+export default FinFields;
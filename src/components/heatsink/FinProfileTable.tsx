@@ -0,0 +1,97 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  finProfile,
+  type FinProfile,
+  type PlateArrayGeometry,
+} from "@/lib/thermal";
+import type { FinProfileComparison } from "@/hooks/use-heatsink-analysis";
+import { useUnits } from "@/hooks/use-units";
+import { formatQuantity } from "@/lib/units";
+
+const PROFILE_NAMES: Record<FinProfile["kind"], string> = {
+  rectangular: "Rectangular",
+  tapered: "Tapered",
+  triangular: "Triangular",
+  flared: "Flared",
+};
+
+interface FinProfileTableProps {
+  comparisons: FinProfileComparison[];
+  geometry: PlateArrayGeometry;
+  onChange: (geometry: PlateArrayGeometry) => void;
+}
+
+/** Mass and resistance of the heatsink with each fin profile. */
+const FinProfileTable = ({
+  comparisons,
+  geometry,
+  onChange,
+}: FinProfileTableProps) => {
+  const units = useUnits();
+  const massUnit = units.unit("mass");
+  const resistanceUnit = units.unit("thermalResistance");
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fin profiles</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Profile</TableHead>
+              <TableHead className="text-right">
+                Mass ({massUnit.label})
+              </TableHead>
+              <TableHead className="text-right">η fin (%)</TableHead>
+              <TableHead className="text-right">
+                R ({resistanceUnit.label})
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {comparisons.map(({ profile, mass, finEfficiency, resistance }) => (
+              <TableRow
+                key={profile.kind}
+                className="cursor-pointer"
+                data-state={
+                  profile.kind === finProfile(geometry).kind
+                    ? "selected"
+                    : undefined
+                }
+                onClick={() => onChange({ ...geometry, profile })}
+              >
+                <TableCell className="font-medium">
+                  {PROFILE_NAMES[profile.kind]}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(mass, massUnit)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {(finEfficiency * 100).toFixed(1)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(resistance, resistanceUnit)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Same root thickness and fin count throughout; click a row to use that
+          profile.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FinProfileTable;
@@ -0,0 +1,52 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import type { ForcedConvectionResult, HeatsinkGeometry } from "@/lib/thermal";
+import FilmIterationRows from "./FilmIterationRows";
+import ResultRow from "./ResultRow";
+
+interface ForcedResultsPanelProps {
+  geometry: HeatsinkGeometry;
+  result: ForcedConvectionResult;
+}
+
+const ForcedResultsPanel = ({ geometry, result }: ForcedResultsPanelProps) => {
+  const pins = geometry.kind === "pin-fin";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Results</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResultRow label="Base temperature" value={result.baseTemperature} quantity="temperature" />
+        <ResultRow label="Temperature rise" value={result.temperatureRise} quantity="temperatureDifference" />
+        <ResultRow label="Total resistance" value={result.totalResistance} quantity="thermalResistance" />
+        <ResultRow label="Surface resistance" value={result.convectiveResistance} quantity="thermalResistance" />
+        <ResultRow label="Base resistance" value={result.baseResistance} quantity="thermalResistance" digits={4} />
+        <Separator className="my-2" />
+        <ResultRow label="Fan flow" value={result.operatingPoint.flow} quantity="flow" />
+        <ResultRow label="Flow through fins" value={result.heatsinkFlow} quantity="flow" />
+        <ResultRow label="Pressure drop" value={result.operatingPoint.pressure} quantity="pressure" />
+        <ResultRow
+          label={pins ? "Max velocity between pins" : "Channel velocity"}
+          value={result.channelVelocity}
+          quantity="velocity"
+        />
+        <ResultRow label="Air temperature rise" value={result.airTemperatureRise} quantity="temperatureDifference" />
+        <Separator className="my-2" />
+        <ResultRow
+          label={pins ? "Reynolds (pin)" : "Reynolds (Dh)"}
+          value={result.reynolds}
+          digits={0}
+        />
+        <ResultRow label="Nusselt" value={result.nusselt} digits={3} />
+        <ResultRow label="Convection h" value={result.heatTransferCoefficient} quantity="heatTransferCoefficient" />
+        <ResultRow label="Radiation h" value={result.radiationCoefficient} quantity="heatTransferCoefficient" />
+        <ResultRow label="Fin efficiency" value={result.finEfficiency * 100} unit="%" digits={1} />
+        <FilmIterationRows result={result} />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ForcedResultsPanel;
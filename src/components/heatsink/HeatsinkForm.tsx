@@ -0,0 +1,148 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useUnits } from "@/hooks/use-units";
+import {
+  checkDesignRules,
+  getManufacturingProcess,
+  type HeatsinkGeometry,
+} from "@/lib/thermal";
+import FinFields from "./FinFields";
+import MaterialSelect from "./MaterialSelect";
+import NumberField from "./NumberField";
+import OrientationFields from "./OrientationFields";
+import ProcessSelect from "./ProcessSelect";
+import SurfaceFinishSelect from "./SurfaceFinishSelect";
+import { convertGeometry } from "./defaults";
+import { ruleErrors } from "./design-rules";
+import type { HeatsinkDesign } from "./types";
+
+interface HeatsinkFormProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+const HeatsinkForm = ({ design, onChange }: HeatsinkFormProps) => {
+  const { geometry } = design;
+  const units = useUnits();
+  const setGeometry = (next: HeatsinkGeometry) =>
+    onChange({ ...design, geometry: next });
+  const errors = ruleErrors(
+    checkDesignRules(geometry, getManufacturingProcess(design.process)),
+    units.unit("length")
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Heatsink</CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-4">
+        <div className="col-span-2 space-y-1.5">
+          <Label>Geometry</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            className="justify-start"
+            value={geometry.kind}
+            onValueChange={(kind) => {
+              if (kind) {
+                setGeometry(
+                  convertGeometry(geometry, kind as HeatsinkGeometry["kind"])
+                );
+              }
+            }}
+          >
+            <ToggleGroupItem value="plate-fin">Plate fin</ToggleGroupItem>
+            <ToggleGroupItem value="cross-cut">Cross-cut</ToggleGroupItem>
+            <ToggleGroupItem value="pin-fin">Pin fin</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <NumberField
+          id="base-width"
+          label="Base width"
+          quantity="length"
+          value={geometry.baseWidth}
+          error={errors.baseWidth}
+          onChange={(baseWidth) => setGeometry({ ...geometry, baseWidth })}
+        />
+        <NumberField
+          id="base-length"
+          label="Base length"
+          quantity="length"
+          value={geometry.baseLength}
+          onChange={(baseLength) => setGeometry({ ...geometry, baseLength })}
+        />
+        <NumberField
+          id="base-thickness"
+          label="Base thickness"
+          quantity="length"
+          value={geometry.baseThickness}
+          onChange={(baseThickness) =>
+            setGeometry({ ...geometry, baseThickness })
+          }
+        />
+        <NumberField
+          id="fin-height"
+          label="Fin height"
+          quantity="length"
+          value={geometry.finHeight}
+          error={errors.finHeight}
+          onChange={(finHeight) => setGeometry({ ...geometry, finHeight })}
+        />
+        <FinFields geometry={geometry} onChange={setGeometry} errors={errors} />
+        <MaterialSelect
+          value={design.material}
+          onChange={(material) => onChange({ ...design, material })}
+        />
+        <NumberField
+          id="conductivity"
+          label="Conductivity"
+          quantity="conductivity"
+          value={design.material.conductivity}
+          onChange={(conductivity) =>
+            onChange({
+              ...design,
+              material: {
+                ...design.material,
+                conductivity,
+                conductivityTable: undefined,
+              },
+            })
+          }
+        />
+        <ProcessSelect
+          value={design.process}
+          onChange={(process) => onChange({ ...design, process })}
+        />
+        <SurfaceFinishSelect
+          value={design.finish}
+          material={design.material}
+          onChange={(finish) => onChange({ ...design, finish })}
+        />
+        <NumberField
+          id="ambient-temperature"
+          label="Ambient"
+          quantity="temperature"
+          value={design.ambientTemperature}
+          onChange={(ambientTemperature) =>
+            onChange({ ...design, ambientTemperature })
+          }
+        />
+        <NumberField
+          id="altitude"
+          label="Altitude"
+          quantity="altitude"
+          step={100}
+          value={design.altitude}
+          onChange={(altitude) => onChange({ ...design, altitude })}
+        />
+        {design.mode === "natural" && (
+          <OrientationFields design={design} onChange={onChange} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HeatsinkForm;
@@ -0,0 +1,187 @@
+import { Canvas } from "@react-three/fiber";
+import { OrbitControls } from "@react-three/drei";
+import { Shape } from "three";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  channelSpacing,
+  finProfile,
+  longitudinalPitch,
+  segmentCount,
+  segmentLength,
+  tipThickness,
+  transversePitch,
+  type HeatSource,
+  type HeatsinkGeometry,
+  type PinFinGeometry,
+  type PlateArrayGeometry,
+} from "@/lib/thermal";
+
+/** Scene units per metre; the scene is laid out in millimetres. */
+const SCALE = 1000;
+const METAL = "#9ca3af";
+
+/**
+ * Cross-section of one plate fin in the x-y plane, root centred on the
+ * origin, leaning sideways by `lean` radians.
+ */
+function finShape(geometry: PlateArrayGeometry, lean: number): Shape {
+  const root = (geometry.finThickness * SCALE) / 2;
+  const tip = (tipThickness(geometry) * SCALE) / 2;
+  const height = geometry.finHeight * SCALE;
+  const offset = height * Math.tan(lean);
+  const shape = new Shape();
+  shape.moveTo(-root, 0);
+  shape.lineTo(root, 0);
+  shape.lineTo(offset + tip, height);
+  shape.lineTo(offset - tip, height);
+  shape.closePath();
+  return shape;
+}
+
+const PlateFins = ({ geometry }: { geometry: PlateArrayGeometry }) => {
+  const profile = finProfile(geometry);
+  const { baseWidth, baseLength, baseThickness, finThickness, finCount } =
+    geometry;
+  const pitch = finThickness + channelSpacing(geometry);
+  const segment = segmentLength(geometry);
+  const cut = geometry.kind === "cross-cut" ? geometry.cutWidth : 0;
+  const fins = Array.from({ length: finCount }, (_, i) => {
+    // Flared fins fan out symmetrically about the middle of the array.
+    const lean =
+      profile.kind === "flared"
+        ? ((i - (finCount - 1) / 2) * profile.flareAngle * Math.PI) / 180
+        : 0;
+    return {
+      x: i * pitch + finThickness / 2 - baseWidth / 2,
+      shape: finShape(geometry, lean),
+    };
+  });
+
+  return (
+    <>
+      {fins.map((fin, i) =>
+        Array.from({ length: segmentCount(geometry) }, (_, j) => (
+          <mesh
+            key={`${i}-${j}`}
+            position={[
+              fin.x * SCALE,
+              baseThickness * SCALE,
+              (j * (segment + cut) - baseLength / 2) * SCALE,
+            ]}
+          >
+            <extrudeGeometry
+              args={[
+                fin.shape,
+                { depth: segment * SCALE, bevelEnabled: false },
+              ]}
+            />
+            <meshStandardMaterial color={METAL} />
+          </mesh>
+        ))
+      )}
+    </>
+  );
+};
+
+const Pins = ({ geometry }: { geometry: PinFinGeometry }) => {
+  const { baseWidth, baseLength, baseThickness, finHeight, pinSize } = geometry;
+  const pt = transversePitch(geometry);
+  const pl = longitudinalPitch(geometry);
+  const stagger = geometry.layout === "staggered" ? pt / 2 : 0;
+  const size = pinSize * SCALE;
+  const height = finHeight * SCALE;
+
+  return (
+    <>
+      {Array.from({ length: geometry.rows }, (_, r) =>
+        Array.from({ length: geometry.columns }, (_, c) => {
+          // Shifted pins that would overhang the base are dropped.
+          const x = (c + 0.5) * pt + (r % 2) * stagger;
+          if (x > baseWidth) return null;
+          return (
+            <mesh
+              key={`${r}-${c}`}
+              position={[
+                (x - baseWidth / 2) * SCALE,
+                baseThickness * SCALE + height / 2,
+                ((r + 0.5) * pl - baseLength / 2) * SCALE,
+              ]}
+            >
+              {geometry.shape === "round" ? (
+                <cylinderGeometry args={[size / 2, size / 2, height, 16]} />
+              ) : (
+                <boxGeometry args={[size, height, size]} />
+              )}
+              <meshStandardMaterial color={METAL} />
+            </mesh>
+          );
+        })
+      )}
+    </>
+  );
+};
+
+interface HeatsinkPreviewProps {
+  geometry: HeatsinkGeometry;
+  devices: HeatSource[];
+}
+
+/** The heatsink as modelled, with the device footprints under the base. */
+const HeatsinkPreview = ({ geometry, devices }: HeatsinkPreviewProps) => {
+  const { baseWidth, baseLength, baseThickness, finHeight } = geometry;
+  const extent = Math.max(baseWidth, baseLength, finHeight) * SCALE;
+  const deviceHeight = 2;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preview</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-72 w-full overflow-hidden rounded-md border">
+          <Canvas camera={{ position: [extent, extent, extent], near: 0.1 }}>
+            <ambientLight intensity={0.6} />
+            <directionalLight position={[extent, 2 * extent, extent]} />
+            <mesh position={[0, (baseThickness * SCALE) / 2, 0]}>
+              <boxGeometry
+                args={[
+                  baseWidth * SCALE,
+                  baseThickness * SCALE,
+                  baseLength * SCALE,
+                ]}
+              />
+              <meshStandardMaterial color={METAL} />
+            </mesh>
+            {geometry.kind === "pin-fin" ? (
+              <Pins geometry={geometry} />
+            ) : (
+              <PlateFins geometry={geometry} />
+            )}
+            {devices.map((device, i) => (
+              <mesh
+                key={i}
+                position={[
+                  (device.x - baseWidth / 2) * SCALE,
+                  -deviceHeight / 2,
+                  (device.y - baseLength / 2) * SCALE,
+                ]}
+              >
+                <boxGeometry
+                  args={[
+                    device.width * SCALE,
+                    deviceHeight,
+                    device.length * SCALE,
+                  ]}
+                />
+                <meshStandardMaterial color="#1f2937" />
+              </mesh>
+            ))}
+            <OrbitControls makeDefault />
+          </Canvas>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HeatsinkPreview;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useUnits } from "@/hooks/use-units";
+import { layerResistance, type HeatsinkMaterial } from "@/lib/thermal";
+import { formatQuantity } from "@/lib/units";
+import MaterialSelect from "./MaterialSelect";
+import NumberField from "./NumberField";
+
+/** Bond line of a typical grease or thin pad (m). */
+const BOND_LINE = 1e-4;
+
+/** Contact area offered where the caller has none, a TO-220 tab (m²). */
+const CONTACT_AREA = 1.5e-4;
+
+interface InterfaceMaterialPickerProps {
+  id: string;
+  /** Contact area (m²); asked for in the picker when not given. */
+  area?: number;
+  disabled?: boolean;
+  onSelect: (resistance: number) => void;
+}
+
+/**
+ * Fills in a resistance from an interface material in the library, its bond
+ * line and the contact area.
+ */
+const InterfaceMaterialPicker = ({
+  id,
+  area,
+  disabled,
+  onSelect,
+}: InterfaceMaterialPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [material, setMaterial] = useState<HeatsinkMaterial>();
+  const [thickness, setThickness] = useState(BOND_LINE);
+  const [ownArea, setOwnArea] = useState(CONTACT_AREA);
+  const resistanceUnit = useUnits().unit("thermalResistance");
+  const contact = area ?? ownArea;
+  const resistance =
+    material && thickness > 0 && contact > 0
+      ? layerResistance(material, thickness, contact)
+      : undefined;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Resistance from an interface material"
+          disabled={disabled}
+        >
+          <Layers className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <MaterialSelect
+          id={`${id}-tim`}
+          label="Interface material"
+          uses={["interface"]}
+          value={material}
+          onChange={setMaterial}
+        />
+        <NumberField
+          id={`${id}-bond-line`}
+          label="Bond line"
+          quantity="length"
+          value={thickness}
+          onChange={setThickness}
+        />
+        {area === undefined && (
+          <NumberField
+            id={`${id}-contact-area`}
+            label="Contact area"
+            quantity="area"
+            value={ownArea}
+            onChange={setOwnArea}
+          />
+        )}
+        <div className="flex items-center justify-between">
+          <span className="font-mono text-sm">
+            {resistance === undefined
+              ? "—"
+              : `${formatQuantity(resistance, resistanceUnit)} ${resistanceUnit.label}`}
+          </span>
+          <Button
+            size="sm"
+            disabled={resistance === undefined}
+            onClick={() => {
+              if (resistance === undefined) return;
+              onSelect(resistance);
+              setOpen(false);
+            }}
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default InterfaceMaterialPicker;
@@ -0,0 +1,48 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import type { DeviceResult } from "@/lib/thermal";
+import ResultRow from "./ResultRow";
+
+interface JunctionPanelProps {
+  result: DeviceResult;
+  /** The device's own spreading resistance, shown even when excluded. */
+  spreading: number;
+  includeSpreading: boolean;
+}
+
+const JunctionPanel = ({
+  result,
+  spreading,
+  includeSpreading,
+}: JunctionPanelProps) => {
+  const { device, stack } = result;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Junction to ambient — {device.name}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ResultRow label="Junction temperature" value={stack.junctionTemperature} quantity="temperature" />
+        <ResultRow label="Case temperature" value={stack.caseTemperature} quantity="temperature" />
+        <ResultRow label="Heatsink under device" value={stack.sinkTemperature} quantity="temperature" />
+        <Separator className="my-2" />
+        <ResultRow label="Junction to case" value={stack.junctionToCase} quantity="thermalResistance" />
+        <ResultRow label="Case to sink" value={stack.caseToSink} quantity="thermalResistance" />
+        <ResultRow
+          label={includeSpreading ? "Spreading" : "Spreading (excluded)"}
+          value={spreading}
+          quantity="thermalResistance"
+        />
+        <ResultRow label="Baseplate" value={stack.base} quantity="thermalResistance" digits={4} />
+        <ResultRow label="Sink to ambient" value={stack.convection} quantity="thermalResistance" />
+        <ResultRow label="Total" value={stack.total} quantity="thermalResistance" />
+        <Separator className="my-2" />
+        <ResultRow label="Rise due to spreading" value={device.power * spreading} quantity="temperatureDifference" />
+        <ResultRow label="Rise from other devices" value={stack.mutualRise} quantity="temperatureDifference" />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JunctionPanel;
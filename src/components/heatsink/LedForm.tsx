@@ -0,0 +1,298 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useUnits } from "@/hooks/use-units";
+import { validateLedArray } from "@/lib/thermal";
+import { fromSI, toSI } from "@/lib/units";
+import NumberField from "./NumberField";
+import type { HeatsinkDesign, LedDesign } from "./types";
+
+interface LedFormProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+/** LED mode switch and the luminaire board that replaces the devices. */
+const LedForm = ({ design, onChange }: LedFormProps) => {
+  const { led } = design;
+  const temperature = useUnits().unit("temperature");
+  const setLed = (patch: Partial<LedDesign>) =>
+    onChange({ ...design, led: { ...led, ...patch } });
+  let error: string | undefined;
+  try {
+    validateLedArray(led);
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between space-y-0">
+        <CardTitle>LED luminaire</CardTitle>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="led-mode"
+            checked={led.enabled}
+            onCheckedChange={(enabled) => setLed({ enabled })}
+          />
+          <Label htmlFor="led-mode">LED mode</Label>
+        </div>
+      </CardHeader>
+      {led.enabled && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <NumberField
+              id="led-count"
+              label="LEDs"
+              step={1}
+              value={led.count}
+              onChange={(count) => setLed({ count: Math.round(count) })}
+            />
+            <NumberField
+              id="led-forward-voltage"
+              label="Vf"
+              unit="V"
+              step={0.1}
+              value={led.forwardVoltage}
+              onChange={(forwardVoltage) => setLed({ forwardVoltage })}
+            />
+            <NumberField
+              id="led-current"
+              label="Current"
+              unit="mA"
+              scale={1e3}
+              step={10}
+              value={led.current}
+              onChange={(current) => setLed({ current })}
+            />
+            <NumberField
+              id="led-efficiency"
+              label="Wall-plug efficiency"
+              unit="%"
+              scale={100}
+              value={led.wallPlugEfficiency}
+              onChange={(wallPlugEfficiency) => setLed({ wallPlugEfficiency })}
+            />
+            <NumberField
+              id="led-vf-coefficient"
+              label="Vf tempco"
+              unit="mV/K"
+              scale={1e3}
+              step={0.5}
+              value={led.forwardVoltageCoefficient ?? 0}
+              onChange={(forwardVoltageCoefficient) =>
+                setLed({ forwardVoltageCoefficient })
+              }
+            />
+            <NumberField
+              id="led-rj-sp"
+              label="Rth(j-sp) per LED"
+              quantity="thermalResistance"
+              value={led.junctionToSolderPoint}
+              onChange={(junctionToSolderPoint) =>
+                setLed({ junctionToSolderPoint })
+              }
+            />
+            <NumberField
+              id="led-tj-max"
+              label="Tj max"
+              quantity="temperature"
+              value={led.maxJunctionTemperature}
+              onChange={(maxJunctionTemperature) =>
+                setLed({ maxJunctionTemperature })
+              }
+            />
+            <NumberField
+              id="led-board-width"
+              label="Board width"
+              quantity="length"
+              value={led.boardWidth}
+              onChange={(boardWidth) => setLed({ boardWidth })}
+            />
+            <NumberField
+              id="led-board-length"
+              label="Board length"
+              quantity="length"
+              value={led.boardLength}
+              onChange={(boardLength) => setLed({ boardLength })}
+            />
+            <NumberField
+              id="led-board-to-sink"
+              label="Board to sink"
+              quantity="thermalResistance"
+              value={led.boardToSink}
+              onChange={(boardToSink) => setLed({ boardToSink })}
+            />
+          </div>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Relative flux (Tj {temperature.label}, %)</Label>
+              {led.flux.map((point, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    aria-label={`Flux temperature ${index + 1}`}
+                    value={
+                      +fromSI(point.temperature, temperature).toPrecision(6)
+                    }
+                    onChange={(e) =>
+                      setLed({
+                        flux: led.flux.map((p, i) =>
+                          i === index
+                            ? {
+                                ...p,
+                                temperature: toSI(
+                                  parseFloat(e.target.value),
+                                  temperature
+                                ),
+                              }
+                            : p
+                        ),
+                      })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    aria-label={`Relative flux ${index + 1}`}
+                    value={+(point.relativeFlux * 100).toPrecision(6)}
+                    onChange={(e) =>
+                      setLed({
+                        flux: led.flux.map((p, i) =>
+                          i === index
+                            ? {
+                                ...p,
+                                relativeFlux: parseFloat(e.target.value) / 100,
+                              }
+                            : p
+                        ),
+                      })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove point"
+                    disabled={led.flux.length <= 1}
+                    onClick={() =>
+                      setLed({ flux: led.flux.filter((_, i) => i !== index) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const last = led.flux[led.flux.length - 1];
+                  setLed({
+                    flux: [
+                      ...led.flux,
+                      {
+                        temperature: (last?.temperature ?? 25) + 20,
+                        relativeFlux: last?.relativeFlux ?? 1,
+                      },
+                    ],
+                  });
+                }}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add point
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>L70 lifetime (Tj {temperature.label}, h)</Label>
+              {led.lifetime.map((point, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    aria-label={`Lifetime temperature ${index + 1}`}
+                    value={
+                      +fromSI(point.temperature, temperature).toPrecision(6)
+                    }
+                    onChange={(e) =>
+                      setLed({
+                        lifetime: led.lifetime.map((p, i) =>
+                          i === index
+                            ? {
+                                ...p,
+                                temperature: toSI(
+                                  parseFloat(e.target.value),
+                                  temperature
+                                ),
+                              }
+                            : p
+                        ),
+                      })
+                    }
+                  />
+                  <Input
+                    type="number"
+                    aria-label={`L70 hours ${index + 1}`}
+                    value={point.hours}
+                    onChange={(e) =>
+                      setLed({
+                        lifetime: led.lifetime.map((p, i) =>
+                          i === index
+                            ? { ...p, hours: parseFloat(e.target.value) }
+                            : p
+                        ),
+                      })
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove point"
+                    disabled={led.lifetime.length <= 1}
+                    onClick={() =>
+                      setLed({
+                        lifetime: led.lifetime.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const last = led.lifetime[led.lifetime.length - 1];
+                  setLed({
+                    lifetime: [
+                      ...led.lifetime,
+                      {
+                        temperature: (last?.temperature ?? 25) + 20,
+                        hours: (last?.hours ?? 50000) / 2,
+                      },
+                    ],
+                  });
+                }}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add point
+              </Button>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            In LED mode the board, centred on the base, is the only heat source.
+          </p>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default LedForm;
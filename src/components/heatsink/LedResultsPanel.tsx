@@ -0,0 +1,89 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { ledPerformance, ledPower, type DeviceResult } from "@/lib/thermal";
+import ResultRow from "./ResultRow";
+import type { LedDesign } from "./types";
+
+interface LedResultsPanelProps {
+  led: LedDesign;
+  /** The LED board as solved on the heatsink. */
+  result: DeviceResult;
+}
+
+/**
+ * Heat load at the operating junction temperature, temperatures and the flux
+ * and lifetime they lead to.
+ */
+const LedResultsPanel = ({ led, result }: LedResultsPanelProps) => {
+  const { junctionTemperature, caseTemperature } = result.stack;
+  const power = ledPower(led, junctionTemperature);
+  const performance = ledPerformance(
+    led.flux,
+    led.lifetime,
+    junctionTemperature
+  );
+  const pass = junctionTemperature <= led.maxJunctionTemperature;
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between space-y-0">
+        <CardTitle>LED luminaire</CardTitle>
+        <Badge variant={pass ? "secondary" : "destructive"}>
+          {pass ? "Pass" : "Fail"}
+        </Badge>
+      </CardHeader>
+      <CardContent>
+        <ResultRow
+          label="Forward voltage at Tj"
+          value={power.forwardVoltage}
+          unit="V"
+          digits={2}
+        />
+        <ResultRow
+          label="Electrical power"
+          value={power.electrical}
+          quantity="power"
+        />
+        <ResultRow
+          label="Optical power"
+          value={power.optical}
+          quantity="power"
+        />
+        <ResultRow label="Heat load" value={power.heat} quantity="power" />
+        <Separator className="my-2" />
+        <ResultRow
+          label="Solder point"
+          value={caseTemperature}
+          quantity="temperature"
+        />
+        <ResultRow
+          label="Junction"
+          value={junctionTemperature}
+          quantity="temperature"
+        />
+        <Separator className="my-2" />
+        <ResultRow
+          label="Relative flux"
+          value={100 * performance.relativeFlux}
+          unit="%"
+          digits={1}
+        />
+        <ResultRow
+          label="L70 lifetime"
+          value={performance.l70}
+          unit="h"
+          digits={0}
+        />
+        {performance.outsideCurves && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            The junction is outside the flux or lifetime curve; its end value is
+            used.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LedResultsPanel;
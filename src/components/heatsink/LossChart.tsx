@@ -0,0 +1,64 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { FrequencyLoss } from "@/hooks/use-power-loss";
+import { useUnits } from "@/hooks/use-units";
+import { fromSI } from "@/lib/units";
+
+const chartConfig = {
+  conduction: { label: "Conduction", color: "hsl(var(--chart-1))" },
+  switching: { label: "Switching", color: "hsl(var(--chart-2))" },
+  reverseRecovery: { label: "Reverse recovery", color: "hsl(var(--chart-3))" },
+  gateDrive: { label: "Gate drive", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+interface LossChartProps {
+  sweep: FrequencyLoss[];
+}
+
+/** Loss breakdown stacked by source, at several switching frequencies. */
+const LossChart = ({ sweep }: LossChartProps) => {
+  const powerUnit = useUnits().unit("power");
+  const data = sweep.map((loss) => ({
+    name: `${+(loss.frequency / 1e3).toPrecision(3)} kHz`,
+    conduction: fromSI(loss.conduction, powerUnit),
+    switching: fromSI(loss.switching, powerUnit),
+    reverseRecovery: fromSI(loss.reverseRecovery, powerUnit),
+    gateDrive: fromSI(loss.gateDrive, powerUnit),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig}>
+      <BarChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="name" />
+        <YAxis
+          tickFormatter={(v: number) => `${+v.toPrecision(3)}`}
+          label={{
+            value: `Loss (${powerUnit.label})`,
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {Object.keys(chartConfig).map((key) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            stackId="loss"
+            fill={`var(--color-${key})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default LossChart;
@@ -0,0 +1,97 @@
+import { Link } from "react-router-dom";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMaterials } from "@/hooks/use-materials";
+import type { HeatsinkMaterial, MaterialUse } from "@/lib/thermal";
+
+interface MaterialSelectProps {
+  id?: string;
+  label?: string;
+  /** Uses a material must have one of to be offered. */
+  uses?: MaterialUse[];
+  /** None until a material is picked. */
+  value?: HeatsinkMaterial;
+  onChange: (value: HeatsinkMaterial) => void;
+}
+
+/**
+ * Library materials for the given uses, heatsinks and spreaders unless told
+ * otherwise, including custom ones.
+ */
+const MaterialSelect = ({
+  id = "material",
+  label = "Material",
+  uses = ["heatsink", "spreader"],
+  value,
+  onChange,
+}: MaterialSelectProps) => {
+  const materials = useMaterials().filter((m) =>
+    m.uses.some((use) => uses.includes(use))
+  );
+  // Editing the conductivity by hand leaves the library grade behind.
+  const selected =
+    value &&
+    materials.find(
+      (m) => m.name === value.name && m.conductivity === value.conductivity
+    );
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-baseline justify-between">
+        <Label htmlFor={id}>{label}</Label>
+        <Link
+          to="/materials"
+          className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+        >
+          Library
+        </Link>
+      </div>
+      <Select
+        value={selected?.id ?? ""}
+        onValueChange={(id) => {
+          const grade = materials.find((m) => m.id === id);
+          if (!grade) return;
+          const {
+            name,
+            conductivity,
+            conductivityTable,
+            density,
+            specificHeat,
+            costPerKg,
+            emissivity,
+          } = grade;
+          onChange({
+            name,
+            conductivity,
+            conductivityTable,
+            density,
+            specificHeat,
+            costPerKg,
+            emissivity,
+          });
+        }}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue
+            placeholder={value ? `${value.name} (edited)` : "Pick a material"}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {materials.map((m) => (
+            <SelectItem key={m.id} value={m.id}>
+              {m.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default MaterialSelect;
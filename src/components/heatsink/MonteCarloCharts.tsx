@@ -0,0 +1,108 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useUnits } from "@/hooks/use-units";
+import type { MonteCarloResult } from "@/lib/thermal";
+import { fromSI } from "@/lib/units";
+
+const chartConfig = {
+  count: { label: "Samples", color: "hsl(var(--chart-1))" },
+  probability: { label: "Cumulative share", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+interface MonteCarloChartsProps {
+  result: MonteCarloResult;
+  /** Lowest maximum junction temperature among the devices (°C). */
+  limit: number;
+}
+
+/** Histogram and cumulative distribution of the hottest junction. */
+const MonteCarloCharts = ({ result, limit }: MonteCarloChartsProps) => {
+  const temperature = useUnits().unit("temperature");
+  const axisLabel = `Junction temperature (${temperature.label})`;
+  const bins = result.histogram.map((bin) => ({
+    temperature: fromSI((bin.from + bin.to) / 2, temperature),
+    count: bin.count,
+  }));
+  const cumulative = result.cumulative.map((point) => ({
+    junctionTemperature: fromSI(point.junctionTemperature, temperature),
+    probability: point.probability,
+  }));
+  const limitLine = (
+    <ReferenceLine
+      x={fromSI(limit, temperature)}
+      stroke="hsl(var(--destructive))"
+      strokeDasharray="4 4"
+      label={{ value: "Tj max", position: "top" }}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig}>
+        <BarChart data={bins} margin={{ left: 12, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="temperature"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(v: number) => v.toFixed(0)}
+            label={{ value: axisLabel, position: "insideBottom", offset: -4 }}
+          />
+          <YAxis
+            label={{ value: "Samples", angle: -90, position: "insideLeft" }}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" />
+          {limitLine}
+          <ReferenceLine
+            x={fromSI(result.p95, temperature)}
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="4 4"
+            label={{ value: "P95", position: "top" }}
+          />
+        </BarChart>
+      </ChartContainer>
+      <ChartContainer config={chartConfig}>
+        <LineChart data={cumulative} margin={{ left: 12, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="junctionTemperature"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(v: number) => v.toFixed(0)}
+            label={{ value: axisLabel, position: "insideBottom", offset: -4 }}
+          />
+          <YAxis
+            domain={[0, 1]}
+            tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`}
+            label={{ value: "Cumulative", angle: -90, position: "insideLeft" }}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line
+            dataKey="probability"
+            type="monotone"
+            stroke="var(--color-probability)"
+            dot={false}
+          />
+          {limitLine}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default MonteCarloCharts;
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Play, Square } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useMonteCarlo } from "@/hooks/use-monte-carlo";
+import { useUnits } from "@/hooks/use-units";
+import {
+  CORRELATION_INPUT,
+  sensitivityParameters,
+  type DistributionKind,
+  type SensitivityParameter,
+  type UncertainInput,
+} from "@/lib/thermal";
+import { fromSI, toSI, type Unit } from "@/lib/units";
+import MonteCarloCharts from "./MonteCarloCharts";
+import NumberField from "./NumberField";
+import ResultRow from "./ResultRow";
+import { DEFAULT_UNCERTAINTIES } from "./defaults";
+import type { HeatsinkDesign } from "./types";
+
+const DISTRIBUTIONS: { kind: DistributionKind; label: string }[] = [
+  { kind: "normal", label: "Normal (σ)" },
+  { kind: "uniform", label: "Uniform (±)" },
+  { kind: "triangular", label: "Triangular (±)" },
+];
+
+interface MonteCarloPanelProps {
+  /** The design with the devices the engine sees, from `useLedHeat`. */
+  design: HeatsinkDesign;
+}
+
+const PERCENT: Unit = { id: "%", label: "%", factor: 0.01, digits: 0 };
+
+const MonteCarloPanel = ({ design }: MonteCarloPanelProps) => {
+  const [inputs, setInputs] = useState(DEFAULT_UNCERTAINTIES);
+  const [samples, setSamples] = useState(5000);
+  const { status, progress, result, error, run, cancel } = useMonteCarlo();
+  const units = useUnits();
+  const running = status === "running";
+
+  const parameters = new Map(
+    sensitivityParameters(design).map((p) => [p.id, p])
+  );
+  const names = new Map([...parameters].map(([id, p]) => [id, p.name]));
+  names.set(CORRELATION_INPUT, "Convection coefficient");
+  // Inputs with a fixed step take an absolute spread; a temperature spread
+  // is a difference, not a point on the scale.
+  const spreadUnit = (parameter?: SensitivityParameter<HeatsinkDesign>) =>
+    parameter?.step === undefined || !parameter.quantity
+      ? PERCENT
+      : units.unit(
+          parameter.quantity === "temperature"
+            ? "temperatureDifference"
+            : parameter.quantity
+        );
+  const setInput = (id: string, patch: Partial<UncertainInput>) =>
+    setInputs(inputs.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+  const limit = Math.min(
+    ...design.devices.map((d) => d.maxJunctionTemperature)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Monte Carlo</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {inputs
+            .filter((input) => names.has(input.id))
+            .map((input) => {
+              const unit = spreadUnit(parameters.get(input.id));
+              return (
+                <div key={input.id} className="flex items-center gap-2">
+                  <Switch
+                    aria-label={`Vary ${names.get(input.id)}`}
+                    checked={input.enabled}
+                    onCheckedChange={(enabled) =>
+                      setInput(input.id, { enabled })
+                    }
+                  />
+                  <Label className="flex-1">{names.get(input.id)}</Label>
+                  <Select
+                    value={input.kind}
+                    disabled={!input.enabled}
+                    onValueChange={(kind) =>
+                      setInput(input.id, { kind: kind as DistributionKind })
+                    }
+                  >
+                    <SelectTrigger
+                      className="w-36"
+                      aria-label={`${names.get(input.id)} distribution`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DISTRIBUTIONS.map(({ kind, label }) => (
+                        <SelectItem key={kind} value={kind}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label={`${names.get(input.id)} spread (${unit.label})`}
+                    className="w-20"
+                    type="number"
+                    step={1}
+                    disabled={!input.enabled}
+                    value={+fromSI(input.tolerance, unit).toPrecision(6)}
+                    onChange={(e) => {
+                      const spread = parseFloat(e.target.value);
+                      if (Number.isFinite(spread)) {
+                        setInput(input.id, { tolerance: toSI(spread, unit) });
+                      }
+                    }}
+                  />
+                  <span className="w-8 text-sm text-muted-foreground">
+                    {unit.label}
+                  </span>
+                </div>
+              );
+            })}
+        </div>
+        <NumberField
+          id="monte-carlo-samples"
+          label="Samples"
+          step={1000}
+          value={samples}
+          onChange={(value) => setSamples(Math.max(1, Math.round(value)))}
+        />
+        <div className="flex items-center gap-3">
+          {running ? (
+            <Button variant="outline" size="sm" onClick={cancel}>
+              <Square className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() => run({ design, inputs, options: { samples } })}
+            >
+              <Play className="mr-1 h-4 w-4" />
+              Run
+            </Button>
+          )}
+          <Progress value={progress * 100} className="flex-1" />
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {result && (
+          <>
+            <div>
+              <ResultRow label="Mean Tj" value={result.mean} quantity="temperature" />
+              <ResultRow label="Standard deviation" value={result.standardDeviation} quantity="temperatureDifference" digits={2} />
+              <ResultRow label="P95 Tj" value={result.p95} quantity="temperature" />
+              <ResultRow label="P99 Tj" value={result.p99} quantity="temperature" />
+              <ResultRow label="P(Tj > Tj max)" value={result.exceedance * 100} unit="%" digits={2} />
+              {result.failures > 0 && (
+                <ResultRow label="Samples not solved" value={result.failures} digits={0} />
+              )}
+            </div>
+            <Separator />
+            <MonteCarloCharts result={result} limit={limit} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MonteCarloPanel;
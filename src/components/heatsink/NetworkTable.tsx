@@ -0,0 +1,96 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/hooks/use-units";
+import type { NetworkSolution, ThermalNetwork } from "@/lib/thermal";
+import { formatQuantity } from "@/lib/units";
+
+interface NetworkTableProps {
+  network: ThermalNetwork;
+  solution: NetworkSolution;
+}
+
+const NetworkTable = ({ network, solution }: NetworkTableProps) => {
+  const nodeName = (id: string) =>
+    network.nodes.find((n) => n.id === id)?.name ?? id;
+  const units = useUnits();
+  const temperature = units.unit("temperature");
+  const resistance = units.unit("thermalResistance");
+  const power = units.unit("power");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Thermal stack results</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!solution.converged && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              The network solve stopped short of its tolerance (residual{" "}
+              {solution.residual.toExponential(1)}); treat these values as
+              rough.
+            </AlertDescription>
+          </Alert>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Node</TableHead>
+              <TableHead className="text-right">
+                T ({temperature.label})
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {network.nodes.map((node) => (
+              <TableRow key={node.id}>
+                <TableCell className="font-medium">{node.name}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(solution.temperatures[node.id], temperature)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Branch</TableHead>
+              <TableHead>From → to</TableHead>
+              <TableHead className="text-right">
+                R ({resistance.label})
+              </TableHead>
+              <TableHead className="text-right">Q ({power.label})</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {network.resistors.map((resistor) => (
+              <TableRow key={resistor.id}>
+                <TableCell className="font-medium">{resistor.name}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {nodeName(resistor.from)} → {nodeName(resistor.to)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(resistor.resistance, resistance)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatQuantity(solution.heatFlows[resistor.id], power, 2)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NetworkTable;
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { setFieldUnit, useUnits } from "@/hooks/use-units";
+import { UNITS, fromSI, toSI, type Quantity } from "@/lib/units";
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  /**
+   * Physical quantity of the value, which then shows in the chosen unit
+   * system with a dropdown to pick this field's own unit.
+   */
+  quantity?: Quantity;
+  /** Unit id used in the SI system instead of the system's own. */
+  metricUnit?: string;
+  /** Label of a dimensionless unit such as % or °, without a quantity. */
+  unit?: string;
+  /** Value in SI units. */
+  value: number;
+  /** Factor from SI to the displayed unit, e.g. 100 for percent. */
+  scale?: number;
+  step?: number;
+  /** Shown under the input, which is then marked invalid. */
+  error?: string;
+  onChange: (value: number) => void;
+}
+
+const NumberField = ({
+  id,
+  label,
+  quantity,
+  metricUnit,
+  unit,
+  value,
+  scale = 1,
+  step,
+  error,
+  onChange,
+}: NumberFieldProps) => {
+  const units = useUnits();
+  const shown = quantity && units.unit(quantity, id, metricUnit);
+  // Switching units only changes what is displayed, never the stored value,
+  // so a value survives any number of switches unchanged.
+  const display = (v: number) => (shown ? fromSI(v, shown) : v * scale);
+  const store = (v: number) => (shown ? toSI(v, shown) : v / scale);
+  // Text being typed, kept as is so the field can be cleared or hold a
+  // partial number; each valid parse is committed, and leaving the field
+  // shows the committed value again.
+  const [draft, setDraft] = useState<string>();
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id}>
+        {label}
+        {unit && !shown && (
+          <span className="ml-1 text-muted-foreground">({unit})</span>
+        )}
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          type="number"
+          step={step}
+          aria-invalid={!!error}
+          aria-describedby={error ? `${id}-error` : undefined}
+          className={error ? "border-destructive" : undefined}
+          value={
+            draft ??
+            (Number.isFinite(value) ? +display(value).toPrecision(6) : "")
+          }
+          onChange={(e) => {
+            setDraft(e.target.value);
+            const parsed = parseFloat(e.target.value);
+            if (Number.isFinite(parsed)) onChange(store(parsed));
+          }}
+          onBlur={() => setDraft(undefined)}
+        />
+        {quantity && shown && (
+          <Select
+            value={shown.id}
+            onValueChange={(next) => setFieldUnit(id, next)}
+          >
+            <SelectTrigger
+              className="w-28 shrink-0"
+              aria-label={`${label} unit`}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNITS[quantity].map((u) => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {error && (
+        <p id={`${id}-error`} className="text-xs text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NumberField;
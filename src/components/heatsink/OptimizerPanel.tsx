@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Play, Square } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useOptimizer } from "@/hooks/use-optimizer";
+import {
+  convectionInput,
+  pressureAtAltitude,
+  type OptimizerBounds,
+  type OptimizerVariable,
+  type PlateArrayGeometry,
+} from "@/lib/thermal";
+import type { Quantity } from "@/lib/units";
+import NumberField from "./NumberField";
+import ParetoChart from "./ParetoChart";
+import {
+  DEFAULT_OPTIMIZER_BOUNDS,
+  DEFAULT_OPTIMIZER_CONSTRAINTS,
+} from "./defaults";
+import type { HeatsinkDesign } from "./types";
+
+/** Label and quantity of each optimizer variable; fin count has none. */
+const VARIABLES: [OptimizerVariable, string, Quantity | undefined][] = [
+  ["finCount", "fin count", undefined],
+  ["finHeight", "fin height", "length"],
+  ["finThickness", "fin thickness", "length"],
+  ["baseThickness", "base thickness", "length"],
+];
+
+interface OptimizerPanelProps {
+  /** The design as solved, the LED board at its settled heat. */
+  design: HeatsinkDesign;
+  geometry: PlateArrayGeometry;
+  /** Resistance, mass and envelope volume of the design as it stands. */
+  current?: { mass: number; resistance: number; volume: number };
+  onChange: (geometry: PlateArrayGeometry) => void;
+}
+
+const OptimizerPanel = ({
+  design,
+  geometry,
+  current,
+  onChange,
+}: OptimizerPanelProps) => {
+  const [bounds, setBounds] = useState(DEFAULT_OPTIMIZER_BOUNDS);
+  const [constraints, setConstraints] = useState(DEFAULT_OPTIMIZER_CONSTRAINTS);
+  const { status, progress, result, error, optimize, cancel } = useOptimizer();
+  const running = status === "running";
+  const setBound = (variable: OptimizerVariable, end: 0 | 1, value: number) => {
+    const range: OptimizerBounds[OptimizerVariable] = [...bounds[variable]];
+    range[end] = value;
+    setBounds({ ...bounds, [variable]: range });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Optimizer</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {VARIABLES.map(([variable, label, quantity]) =>
+            ([0, 1] as const).map((end) => (
+              <NumberField
+                key={`${variable}-${end}`}
+                id={`optimizer-${variable}-${end}`}
+                label={`${end === 0 ? "Min" : "Max"} ${label}`}
+                quantity={quantity}
+                step={quantity ? 0.1 : 1}
+                value={bounds[variable][end]}
+                onChange={(value) => setBound(variable, end, value)}
+              />
+            ))
+          )}
+          <NumberField
+            id="optimizer-max-height"
+            label="Max overall height"
+            quantity="length"
+            value={constraints.maxHeight}
+            onChange={(maxHeight) =>
+              setConstraints({ ...constraints, maxHeight })
+            }
+          />
+          <NumberField
+            id="optimizer-min-gap"
+            label="Min fin gap"
+            quantity="length"
+            step={0.1}
+            value={constraints.minChannelSpacing}
+            onChange={(minChannelSpacing) =>
+              setConstraints({ ...constraints, minChannelSpacing })
+            }
+          />
+          <NumberField
+            id="optimizer-aspect-ratio"
+            label="Max fin aspect ratio"
+            value={constraints.maxAspectRatio}
+            onChange={(maxAspectRatio) =>
+              setConstraints({ ...constraints, maxAspectRatio })
+            }
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          {running ? (
+            <Button variant="outline" size="sm" onClick={cancel}>
+              <Square className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={() =>
+                optimize({
+                  input: {
+                    ...convectionInput(
+                      design,
+                      pressureAtAltitude(design.altitude)
+                    ),
+                    geometry,
+                  },
+                  forced: design.mode === "forced",
+                  density: design.material.density ?? NaN,
+                  bounds,
+                  constraints,
+                })
+              }
+            >
+              <Play className="mr-1 h-4 w-4" />
+              Optimize
+            </Button>
+          )}
+          <Progress value={progress * 100} className="flex-1" />
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {result && (
+          <>
+            <ParetoChart
+              front={result.front}
+              current={current}
+              onSelect={onChange}
+            />
+            <p className="text-sm text-muted-foreground">
+              {result.front.length} non-dominated designs from{" "}
+              {result.evaluations} evaluations. Click a point to load it.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OptimizerPanel;
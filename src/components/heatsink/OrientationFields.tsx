@@ -0,0 +1,64 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { HeatsinkOrientation } from "@/lib/thermal";
+import NumberField from "./NumberField";
+import type { HeatsinkDesign } from "./types";
+
+interface OrientationFieldsProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+const OrientationFields = ({ design, onChange }: OrientationFieldsProps) => (
+  <>
+    <div className="space-y-1.5">
+      <Label htmlFor="orientation">Orientation</Label>
+      <Select
+        value={design.orientation}
+        onValueChange={(v) =>
+          onChange({ ...design, orientation: v as HeatsinkOrientation })
+        }
+      >
+        <SelectTrigger id="orientation">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="vertical">Vertical fins</SelectItem>
+          <SelectItem value="horizontal-up">Horizontal, fins up</SelectItem>
+          <SelectItem value="horizontal-down">Horizontal, fins down</SelectItem>
+          <SelectItem value="tilted">Tilted</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+    {design.orientation === "tilted" ? (
+      <NumberField
+        id="tilt-angle"
+        label="Tilt from vertical"
+        unit="°"
+        step={5}
+        value={design.tiltAngle}
+        onChange={(tiltAngle) => onChange({ ...design, tiltAngle })}
+      />
+    ) : (
+      <div />
+    )}
+    <NumberField
+      id="orientation-warning"
+      label="Warn above loss"
+      unit="%"
+      scale={100}
+      value={design.orientationWarning}
+      onChange={(orientationWarning) =>
+        onChange({ ...design, orientationWarning })
+      }
+    />
+  </>
+);
+
+export default OrientationFields;
@@ -0,0 +1,69 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useUnits } from "@/hooks/use-units";
+import { PACKAGES, type DevicePackage } from "@/lib/thermal";
+import { formatQuantity } from "@/lib/units";
+
+interface PackageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (pkg: DevicePackage) => void;
+}
+
+/** Searchable package library, by name or any alias. */
+const PackageDialog = ({
+  open,
+  onOpenChange,
+  onSelect,
+}: PackageDialogProps) => {
+  const units = useUnits();
+  const length = units.unit("length");
+  const resistance = units.unit("thermalResistance");
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search packages, e.g. D2PAK" />
+      <CommandList>
+        <CommandEmpty>No package found.</CommandEmpty>
+        <CommandGroup heading="Packages">
+          {PACKAGES.map((pkg) => (
+            <CommandItem
+              key={pkg.id}
+              value={pkg.name}
+              keywords={pkg.aliases}
+              onSelect={() => {
+                onSelect(pkg);
+                onOpenChange(false);
+              }}
+            >
+              <div className="flex-1">
+                <div className="font-medium">{pkg.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {pkg.aliases.join(", ")}
+                </div>
+              </div>
+              <div className="text-right font-mono text-xs text-muted-foreground">
+                <div>
+                  {formatQuantity(pkg.width, length)} ×{" "}
+                  {formatQuantity(pkg.length, length)} {length.label}
+                </div>
+                <div>
+                  Rjc {formatQuantity(pkg.junctionToCase, resistance)}{" "}
+                  {resistance.label}
+                </div>
+              </div>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default PackageDialog;
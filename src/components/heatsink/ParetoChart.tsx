@@ -0,0 +1,127 @@
+import {
+  CartesianGrid,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+  ZAxis,
+} from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useUnits } from "@/hooks/use-units";
+import type { ParetoDesign, PlateArrayGeometry } from "@/lib/thermal";
+import { fromSI, type Unit } from "@/lib/units";
+
+const chartConfig = {
+  front: { label: "Pareto designs", color: "hsl(var(--chart-1))" },
+  current: { label: "Current design", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+/** Objectives of a design, in SI or in the units on screen. */
+interface ParetoPoint {
+  mass: number;
+  resistance: number;
+  volume: number;
+  geometry?: PlateArrayGeometry;
+}
+
+interface ParetoUnits {
+  mass: Unit;
+  resistance: Unit;
+  volume: Unit;
+}
+
+const toPoint = (
+  { geometry, mass, resistance, volume }: ParetoPoint,
+  units: ParetoUnits
+): ParetoPoint => ({
+  geometry,
+  mass: fromSI(mass, units.mass),
+  resistance: fromSI(resistance, units.resistance),
+  volume: fromSI(volume, units.volume),
+});
+
+interface ParetoChartProps {
+  front: ParetoDesign[];
+  current?: { mass: number; resistance: number; volume: number };
+  onSelect: (geometry: PlateArrayGeometry) => void;
+}
+
+/**
+ * Resistance against mass for every non-dominated design, sized by envelope
+ * volume. Clicking a point loads that design.
+ */
+const ParetoChart = ({ front, current, onSelect }: ParetoChartProps) => {
+  const { unit } = useUnits();
+  const units: ParetoUnits = {
+    mass: unit("mass"),
+    resistance: unit("thermalResistance"),
+    volume: unit("volume"),
+  };
+
+  return (
+    <ChartContainer config={chartConfig}>
+      <ScatterChart margin={{ left: 12, right: 12 }}>
+        <CartesianGrid />
+        <XAxis
+          dataKey="mass"
+          type="number"
+          name="Mass"
+          unit={` ${units.mass.label}`}
+          domain={["auto", "auto"]}
+          label={{
+            value: `Mass (${units.mass.label})`,
+            position: "insideBottom",
+            offset: -4,
+          }}
+        />
+        <YAxis
+          dataKey="resistance"
+          type="number"
+          name="Resistance"
+          unit={` ${units.resistance.label}`}
+          domain={["auto", "auto"]}
+          label={{
+            value: `R (${units.resistance.label})`,
+            angle: -90,
+            position: "insideLeft",
+          }}
+        />
+        <ZAxis
+          dataKey="volume"
+          type="number"
+          name="Volume"
+          unit={` ${units.volume.label}`}
+          range={[30, 200]}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Scatter
+          name="front"
+          data={front.map((design) => toPoint(design, units))}
+          fill="var(--color-front)"
+          className="cursor-pointer"
+          onClick={(point: { payload?: ParetoPoint }) =>
+            point.payload?.geometry && onSelect(point.payload.geometry)
+          }
+        />
+        {current && (
+          <Scatter
+            name="current"
+            data={[toPoint(current, units)]}
+            fill="var(--color-current)"
+            shape="diamond"
+          />
+        )}
+      </ScatterChart>
+    </ChartContainer>
+  );
+};
+
+export default ParetoChart;
@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { AlertTriangle, ArrowRight } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useElectroThermal } from "@/hooks/use-electro-thermal";
+import { usePowerLoss } from "@/hooks/use-power-loss";
+import type { ConverterTopology, LossInput, SwitchKind } from "@/lib/thermal";
+import ElectroThermalChart from "./ElectroThermalChart";
+import LossChart from "./LossChart";
+import NumberField from "./NumberField";
+import ResultRow from "./ResultRow";
+import { DEFAULT_LOSS_INPUT } from "./defaults";
+import type { HeatsinkDesign } from "./types";
+
+interface PowerLossPanelProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+/**
+ * Device losses from converter operating point and datasheet values, solved
+ * with the heatsink for the chosen heat source and then set as its power.
+ */
+const PowerLossPanel = ({ design, onChange }: PowerLossPanelProps) => {
+  const [input, setInput] = useState(DEFAULT_LOSS_INPUT);
+  const [target, setTarget] = useState(design.devices[0]?.id);
+  const { loss, sweep, error } = usePowerLoss(input);
+  const set = (patch: Partial<LossInput>) => setInput({ ...input, ...patch });
+  const device = design.devices.find((d) => d.id === target);
+  const coupled = useElectroThermal(design, input, device?.id);
+  const isSwitch = input.kind !== "diode";
+  // Once coupled, the loss at the settled junction temperature is the one
+  // to use; it is higher than at 25 °C for a MOSFET.
+  const heat = coupled.result?.converged ? coupled.result.power : loss?.total;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Power loss</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            aria-label="Device"
+            value={input.kind}
+            onValueChange={(kind) => kind && set({ kind: kind as SwitchKind })}
+          >
+            <ToggleGroupItem value="mosfet">MOSFET</ToggleGroupItem>
+            <ToggleGroupItem value="igbt">IGBT</ToggleGroupItem>
+            <ToggleGroupItem value="diode">Diode</ToggleGroupItem>
+          </ToggleGroup>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            aria-label="Topology"
+            value={input.topology}
+            onValueChange={(topology) =>
+              topology && set({ topology: topology as ConverterTopology })
+            }
+          >
+            <ToggleGroupItem value="buck">Buck</ToggleGroupItem>
+            <ToggleGroupItem value="boost">Boost</ToggleGroupItem>
+            <ToggleGroupItem value="half-bridge">Half-bridge</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField
+            id="loss-vin"
+            label={input.topology === "half-bridge" ? "Bus voltage" : "Vin"}
+            unit="V"
+            value={input.inputVoltage}
+            onChange={(inputVoltage) => set({ inputVoltage })}
+          />
+          {input.topology !== "half-bridge" && (
+            <NumberField
+              id="loss-vout"
+              label="Vout"
+              unit="V"
+              value={input.outputVoltage}
+              onChange={(outputVoltage) => set({ outputVoltage })}
+            />
+          )}
+          <NumberField
+            id="loss-current"
+            label="Current"
+            unit="A"
+            value={input.current}
+            onChange={(current) => set({ current })}
+          />
+          <NumberField
+            id="loss-frequency"
+            label="Frequency"
+            unit="kHz"
+            scale={1e-3}
+            step={10}
+            value={input.frequency}
+            onChange={(frequency) => set({ frequency })}
+          />
+          {input.kind === "mosfet" ? (
+            <>
+              <NumberField
+                id="loss-rds-on"
+                label="Rds(on) at 25 °C"
+                unit="mΩ"
+                scale={1e3}
+                value={input.onResistance}
+                onChange={(onResistance) => set({ onResistance })}
+              />
+              <NumberField
+                id="loss-rds-on-coefficient"
+                label="Rds(on) tempco"
+                unit="%/K"
+                scale={100}
+                step={0.1}
+                value={input.onResistanceCoefficient}
+                onChange={(onResistanceCoefficient) =>
+                  set({ onResistanceCoefficient })
+                }
+              />
+            </>
+          ) : (
+            <>
+              <NumberField
+                id="loss-forward-voltage"
+                label={`${input.kind === "igbt" ? "Vce(sat)" : "Vf"} at 25 °C`}
+                unit="V"
+                step={0.1}
+                value={input.forwardVoltage}
+                onChange={(forwardVoltage) => set({ forwardVoltage })}
+              />
+              <NumberField
+                id="loss-forward-voltage-coefficient"
+                label={`${input.kind === "igbt" ? "Vce(sat)" : "Vf"} tempco`}
+                unit="mV/K"
+                scale={1e3}
+                step={0.5}
+                value={input.forwardVoltageCoefficient}
+                onChange={(forwardVoltageCoefficient) =>
+                  set({ forwardVoltageCoefficient })
+                }
+              />
+            </>
+          )}
+          {isSwitch && (
+            <>
+              <NumberField
+                id="loss-rise-time"
+                label="Rise time"
+                unit="ns"
+                scale={1e9}
+                value={input.riseTime}
+                onChange={(riseTime) => set({ riseTime })}
+              />
+              <NumberField
+                id="loss-fall-time"
+                label="Fall time"
+                unit="ns"
+                scale={1e9}
+                value={input.fallTime}
+                onChange={(fallTime) => set({ fallTime })}
+              />
+              <NumberField
+                id="loss-gate-charge"
+                label="Qg"
+                unit="nC"
+                scale={1e9}
+                value={input.gateCharge}
+                onChange={(gateCharge) => set({ gateCharge })}
+              />
+              <NumberField
+                id="loss-gate-voltage"
+                label="Gate drive"
+                unit="V"
+                value={input.gateVoltage}
+                onChange={(gateVoltage) => set({ gateVoltage })}
+              />
+            </>
+          )}
+          <NumberField
+            id="loss-recovery-charge"
+            label={isSwitch ? "Diode Qrr" : "Qrr"}
+            unit="nC"
+            scale={1e9}
+            value={input.recoveryCharge}
+            onChange={(recoveryCharge) => set({ recoveryCharge })}
+          />
+        </div>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {loss && sweep && (
+          <>
+            <div>
+              <ResultRow
+                label="Duty cycle"
+                value={loss.dutyCycle * 100}
+                unit="%"
+                digits={1}
+              />
+              <ResultRow
+                label="Conduction"
+                value={loss.conduction}
+                quantity="power"
+              />
+              <ResultRow
+                label="Switching"
+                value={loss.switching}
+                quantity="power"
+              />
+              <ResultRow
+                label="Reverse recovery"
+                value={loss.reverseRecovery}
+                quantity="power"
+              />
+              <ResultRow
+                label="Gate drive"
+                value={loss.gateDrive}
+                quantity="power"
+              />
+              <Separator className="my-2" />
+              <ResultRow
+                label="Total at 25 °C"
+                value={loss.total}
+                quantity="power"
+              />
+            </div>
+            <LossChart sweep={sweep} />
+            <Separator />
+            <h3 className="text-sm font-medium">Coupled with the heatsink</h3>
+            {coupled.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{coupled.error}</AlertDescription>
+              </Alert>
+            )}
+            {coupled.result?.runaway && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Thermal runaway</AlertTitle>
+                <AlertDescription>
+                  The loss grows faster with temperature than the heatsink can
+                  remove it, so there is no stable operating point. Lower the
+                  current or the resistance to ambient.
+                </AlertDescription>
+              </Alert>
+            )}
+            {coupled.result &&
+              !coupled.result.converged &&
+              !coupled.result.runaway && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    The junction temperature had not settled after{" "}
+                    {coupled.result.iterations} evaluations.
+                  </AlertDescription>
+                </Alert>
+              )}
+            {coupled.result?.converged && (
+              <div>
+                <ResultRow
+                  label="Junction temperature"
+                  value={coupled.result.temperature}
+                  quantity="temperature"
+                />
+                <ResultRow
+                  label="Loss at Tj"
+                  value={coupled.result.power}
+                  quantity="power"
+                />
+                <ResultRow
+                  label="Stability margin"
+                  value={coupled.result.stabilityMargin * 100}
+                  unit="%"
+                  digits={0}
+                />
+                <ResultRow
+                  label="Iterations"
+                  value={coupled.result.iterations}
+                  digits={0}
+                />
+              </div>
+            )}
+            {coupled.result && coupled.curve && (
+              <ElectroThermalChart
+                curve={coupled.curve}
+                result={coupled.result}
+              />
+            )}
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-1.5">
+                <Label htmlFor="loss-target">Heat source</Label>
+                <Select value={device?.id ?? ""} onValueChange={setTarget}>
+                  <SelectTrigger id="loss-target">
+                    <SelectValue placeholder="Pick a device" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {design.devices.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>
+                        {d.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                disabled={!device}
+                onClick={() =>
+                  onChange({
+                    ...design,
+                    devices: design.devices.map((d) =>
+                      d.id === device?.id ? { ...d, power: heat ?? d.power } : d
+                    ),
+                  })
+                }
+              >
+                <ArrowRight className="mr-1 h-4 w-4" />
+                Set as its power
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PowerLossPanel;
@@ -0,0 +1,40 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MANUFACTURING_PROCESSES,
+  type ManufacturingProcessId,
+} from "@/lib/thermal";
+
+interface ProcessSelectProps {
+  value: ManufacturingProcessId;
+  onChange: (value: ManufacturingProcessId) => void;
+}
+
+const ProcessSelect = ({ value, onChange }: ProcessSelectProps) => (
+  <div className="space-y-1.5">
+    <Label htmlFor="process">Process</Label>
+    <Select
+      value={value}
+      onValueChange={(v) => onChange(v as ManufacturingProcessId)}
+    >
+      <SelectTrigger id="process">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MANUFACTURING_PROCESSES.map((process) => (
+          <SelectItem key={process.id} value={process.id}>
+            {process.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default ProcessSelect;
@@ -0,0 +1,40 @@
+import { useUnits } from "@/hooks/use-units";
+import { formatQuantity, type Quantity } from "@/lib/units";
+
+interface ResultRowProps {
+  label: string;
+  /** Value in SI units when `quantity` is given. */
+  value: number;
+  /** Shows the value in the chosen unit system instead of `unit`. */
+  quantity?: Quantity;
+  unit?: string;
+  digits?: number;
+}
+
+const ResultRow = ({
+  label,
+  value,
+  quantity,
+  unit,
+  digits,
+}: ResultRowProps) => {
+  const units = useUnits();
+  const shown = quantity && units.unit(quantity);
+  const text = shown
+    ? formatQuantity(value, shown, digits)
+    : Number.isFinite(value)
+      ? value.toFixed(digits ?? 2)
+      : "—";
+  const suffix = shown?.label ?? unit;
+  return (
+    <div className="flex justify-between gap-4 py-1 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">
+        {text}
+        {suffix && ` ${suffix}`}
+      </span>
+    </div>
+  );
+};
+
+export default ResultRow;
@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import type { HeatsinkGeometry, NaturalConvectionResult } from "@/lib/thermal";
+import FilmIterationRows from "./FilmIterationRows";
+import ResultRow from "./ResultRow";
+
+interface ResultsPanelProps {
+  geometry: HeatsinkGeometry;
+  result: NaturalConvectionResult;
+}
+
+const ResultsPanel = ({ geometry, result }: ResultsPanelProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Results</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <ResultRow label="Base temperature" value={result.baseTemperature} quantity="temperature" />
+      <ResultRow label="Temperature rise" value={result.temperatureRise} quantity="temperatureDifference" />
+      <ResultRow label="Total resistance" value={result.totalResistance} quantity="thermalResistance" />
+      <ResultRow label="Surface resistance" value={result.convectiveResistance} quantity="thermalResistance" />
+      <ResultRow label="Base resistance" value={result.baseResistance} quantity="thermalResistance" digits={4} />
+      <Separator className="my-2" />
+      <ResultRow label="Convection h" value={result.heatTransferCoefficient} quantity="heatTransferCoefficient" />
+      <ResultRow label="Radiation h" value={result.radiationCoefficient} quantity="heatTransferCoefficient" />
+      <ResultRow label="Radiated share" value={result.radiationFraction * 100} unit="%" digits={1} />
+      <ResultRow label="Fin efficiency" value={result.finEfficiency * 100} unit="%" digits={1} />
+      <ResultRow label="Channel Rayleigh" value={result.channelRayleigh} digits={1} />
+      <ResultRow label="Nusselt" value={result.nusselt} digits={3} />
+      <Separator className="my-2" />
+      <ResultRow
+        label={geometry.kind === "pin-fin" ? "Gap between pins" : "Fin spacing"}
+        value={result.channelSpacing}
+        quantity="length"
+      />
+      {result.optimumSpacing !== undefined && (
+        <>
+          <ResultRow label="Optimum spacing" value={result.optimumSpacing} quantity="length" />
+          <ResultRow label="Optimum fin count" value={result.optimumFinCount} digits={0} />
+        </>
+      )}
+      {result.viewFactors && (
+        <>
+          <Separator className="my-2" />
+          <ResultRow label="Fin-to-fin view factor" value={result.viewFactors.finToFin} digits={3} />
+          <ResultRow label="Fin-to-ambient view factor" value={result.viewFactors.finToAmbient} digits={3} />
+        </>
+      )}
+      <FilmIterationRows result={result} />
+    </CardContent>
+  </Card>
+);
+
+export default ResultsPanel;
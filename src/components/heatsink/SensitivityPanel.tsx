@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useSensitivity } from "@/hooks/use-sensitivity";
+import { useUnits } from "@/hooks/use-units";
+import { downloadText, toCsv } from "@/lib/export";
+import {
+  sensitivitySwing,
+  type SensitivityEntry,
+  type SensitivityOutputs,
+  type SensitivityResult,
+} from "@/lib/thermal";
+import { fromSI, formatQuantity, type Quantity, type Unit } from "@/lib/units";
+import NumberField from "./NumberField";
+import TornadoChart from "./TornadoChart";
+import type { HeatsinkDesign } from "./types";
+
+/** Quantity of each output, and of a change in it. */
+const OUTPUTS: Record<
+  keyof SensitivityOutputs,
+  { label: string; quantity: Quantity; change: Quantity }
+> = {
+  junctionTemperature: {
+    label: "Junction temperature",
+    quantity: "temperature",
+    change: "temperatureDifference",
+  },
+  resistance: {
+    label: "Thermal resistance",
+    quantity: "thermalResistance",
+    change: "thermalResistance",
+  },
+};
+
+/** Exported rows in the units on screen, at full precision. */
+function csvRows(
+  result: SensitivityResult,
+  unit: (quantity: Quantity) => Unit
+): (string | number)[][] {
+  const temperature = unit("temperature");
+  const resistance = unit("thermalResistance");
+  const input = (e: SensitivityEntry, value: number) =>
+    e.quantity ? fromSI(value, unit(e.quantity)) : value;
+  return [
+    [
+      "Parameter",
+      "Unit",
+      "Low value",
+      "Base value",
+      "High value",
+      `Tj low (${temperature.label})`,
+      `Tj high (${temperature.label})`,
+      `R low (${resistance.label})`,
+      `R high (${resistance.label})`,
+    ],
+    ...result.entries.map((e) => [
+      e.name,
+      e.quantity ? unit(e.quantity).label : "",
+      input(e, e.lowValue),
+      input(e, e.baseValue),
+      input(e, e.highValue),
+      fromSI(e.low.junctionTemperature, temperature),
+      fromSI(e.high.junctionTemperature, temperature),
+      fromSI(e.low.resistance, resistance),
+      fromSI(e.high.resistance, resistance),
+    ]),
+  ];
+}
+
+interface SensitivityPanelProps {
+  /** The design as solved, from `useLedHeat`. */
+  design: HeatsinkDesign;
+}
+
+const SensitivityPanel = ({ design }: SensitivityPanelProps) => {
+  const [fraction, setFraction] = useState(0.1);
+  const [output, setOutput] = useState<keyof SensitivityOutputs>(
+    "junctionTemperature"
+  );
+  const result = useSensitivity(design, fraction);
+  const units = useUnits();
+  const { label, quantity, change: changeQuantity } = OUTPUTS[output];
+  const unit = units.unit(quantity);
+  const changeUnit = units.unit(changeQuantity);
+  const entries = result
+    ? [...result.entries].sort(
+        (a, b) =>
+          sensitivitySwing(b, result.base, output) -
+          sensitivitySwing(a, result.base, output)
+      )
+    : [];
+  const change = (value: number) =>
+    result ? fromSI(value - result.base[output], changeUnit) : NaN;
+  // Inputs with a fixed step say so, since the perturbation does not move them.
+  const name = (e: SensitivityEntry) => {
+    if (e.step === undefined || !e.quantity) return e.name;
+    const stepUnit = units.unit(
+      e.quantity === "temperature" ? "temperatureDifference" : e.quantity
+    );
+    return `${e.name} (fixed ±${formatQuantity(e.step, stepUnit, 0)} ${stepUnit.label})`;
+  };
+  const baseValue = (e: SensitivityEntry) => {
+    if (!e.quantity) return `${+e.baseValue.toPrecision(4)}`;
+    const inputUnit = units.unit(e.quantity);
+    return `${+fromSI(e.baseValue, inputUnit).toPrecision(4)} ${inputUnit.label}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sensitivity</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <NumberField
+            id="sensitivity-fraction"
+            label="Perturbation ±"
+            unit="%"
+            scale={100}
+            step={1}
+            value={fraction}
+            onChange={setFraction}
+          />
+          <div className="space-y-1.5">
+            <Label>Rank by</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={output}
+              onValueChange={(v) =>
+                v && setOutput(v as keyof SensitivityOutputs)
+              }
+            >
+              <ToggleGroupItem value="junctionTemperature">Tj</ToggleGroupItem>
+              <ToggleGroupItem value="resistance">R</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        </div>
+        {result ? (
+          <>
+            <TornadoChart
+              label={`Change in ${label.toLowerCase()} (${changeUnit.label})`}
+              bars={entries.map((e) => ({
+                name: name(e),
+                low: change(e.low[output]),
+                high: change(e.high[output]),
+              }))}
+            />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead className="text-right">Base</TableHead>
+                  <TableHead className="text-right">
+                    Low ({unit.label})
+                  </TableHead>
+                  <TableHead className="text-right">
+                    High ({unit.label})
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((e) => (
+                  <TableRow key={e.id}>
+                    <TableCell className="font-medium">{name(e)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {baseValue(e)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatQuantity(e.low[output], unit)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatQuantity(e.high[output], unit)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                downloadText(
+                  "sensitivity.csv",
+                  toCsv(csvRows(result, units.unit))
+                )
+              }
+            >
+              <Download className="mr-1 h-4 w-4" />
+              Export CSV
+            </Button>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Sensitivity needs a valid design.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,165 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useUnits } from "@/hooks/use-units";
+import { fromSI, toSI } from "@/lib/units";
+import InterfaceMaterialPicker from "./InterfaceMaterialPicker";
+import NumberField from "./NumberField";
+import { newStackLayer } from "./defaults";
+import type { HeatsinkDesign, StackDesign, StackLayerDesign } from "./types";
+
+interface StackEditorProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+  /** Base plus sink-to-ambient resistance from the heatsink calculation. */
+  heatsinkResistance?: number;
+}
+
+const StackEditor = ({
+  design,
+  onChange,
+  heatsinkResistance,
+}: StackEditorProps) => {
+  const { stack } = design;
+  const resistanceUnit = useUnits().unit("thermalResistance");
+  const setStack = (patch: Partial<StackDesign>) =>
+    onChange({ ...design, stack: { ...stack, ...patch } });
+  const setLayer = (id: string, patch: Partial<StackLayerDesign>) =>
+    setStack({
+      layers: stack.layers.map((l) => (l.id === id ? { ...l, ...patch } : l)),
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Thermal stack</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <NumberField
+          id="stack-power"
+          label="Power at junction"
+          quantity="power"
+          value={stack.power}
+          onChange={(power) => setStack({ power })}
+        />
+        <div className="space-y-2">
+          <Label>Layers, junction to ambient</Label>
+          {stack.layers.map((layer) => (
+            <div key={layer.id} className="flex items-center gap-2">
+              <Input
+                aria-label="Layer name"
+                className="flex-1"
+                value={layer.name}
+                onChange={(e) => setLayer(layer.id, { name: e.target.value })}
+              />
+              <Input
+                aria-label={`${layer.name} resistance (${resistanceUnit.label})`}
+                className="w-24"
+                type="number"
+                step={0.1}
+                disabled={layer.linkHeatsink}
+                value={
+                  layer.linkHeatsink
+                    ? heatsinkResistance !== undefined
+                      ? +fromSI(heatsinkResistance, resistanceUnit).toPrecision(
+                          4
+                        )
+                      : ""
+                    : +fromSI(layer.resistance, resistanceUnit).toPrecision(6)
+                }
+                onChange={(e) => {
+                  const resistance = parseFloat(e.target.value);
+                  if (Number.isFinite(resistance)) {
+                    setLayer(layer.id, {
+                      resistance: toSI(resistance, resistanceUnit),
+                    });
+                  }
+                }}
+              />
+              <span className="text-sm text-muted-foreground">
+                {resistanceUnit.label}
+              </span>
+              <InterfaceMaterialPicker
+                id={layer.id}
+                disabled={layer.linkHeatsink}
+                onSelect={(resistance) => setLayer(layer.id, { resistance })}
+              />
+              <Switch
+                aria-label={`Use calculated heatsink for ${layer.name}`}
+                checked={layer.linkHeatsink}
+                onCheckedChange={(linkHeatsink) =>
+                  setLayer(layer.id, { linkHeatsink })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove ${layer.name}`}
+                disabled={stack.layers.length <= 1}
+                onClick={() =>
+                  setStack({
+                    layers: stack.layers.filter((l) => l.id !== layer.id),
+                  })
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            The switch takes a layer's resistance from the heatsink above.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setStack({
+              layers: [
+                ...stack.layers.slice(0, -1),
+                newStackLayer(stack.layers),
+                ...stack.layers.slice(-1),
+              ],
+            })
+          }
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add layer
+        </Button>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="stack-board"
+            checked={stack.includeBoard}
+            onCheckedChange={(includeBoard) => setStack({ includeBoard })}
+          />
+          <Label htmlFor="stack-board">
+            Parallel path from the case through the PCB
+          </Label>
+        </div>
+        {stack.includeBoard && (
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField
+              id="stack-rcb"
+              label="Rth(c-b)"
+              quantity="thermalResistance"
+              value={stack.caseToBoard}
+              onChange={(caseToBoard) => setStack({ caseToBoard })}
+            />
+            <NumberField
+              id="stack-rba"
+              label="Rth(b-a)"
+              quantity="thermalResistance"
+              value={stack.boardToAmbient}
+              onChange={(boardToAmbient) => setStack({ boardToAmbient })}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StackEditor;
@@ -0,0 +1,46 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SURFACE_FINISHES,
+  surfaceEmissivity,
+  type HeatsinkMaterial,
+  type SurfaceFinishId,
+} from "@/lib/thermal";
+
+interface SurfaceFinishSelectProps {
+  value: SurfaceFinishId;
+  /** Heatsink material, whose own emissivity a bare finish shows. */
+  material: HeatsinkMaterial;
+  onChange: (value: SurfaceFinishId) => void;
+}
+
+const SurfaceFinishSelect = ({
+  value,
+  material,
+  onChange,
+}: SurfaceFinishSelectProps) => (
+  <div className="space-y-1.5">
+    <Label htmlFor="surface-finish">Surface finish</Label>
+    <Select value={value} onValueChange={(v) => onChange(v as SurfaceFinishId)}>
+      <SelectTrigger id="surface-finish">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SURFACE_FINISHES.map((finish) => (
+          <SelectItem key={finish.id} value={finish.id}>
+            {finish.label} (ε ={" "}
+            {surfaceEmissivity(finish.id, material).toFixed(2)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default SurfaceFinishSelect;
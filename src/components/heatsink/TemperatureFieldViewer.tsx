@@ -0,0 +1,107 @@
+import { useLayoutEffect, useMemo, useRef } from "react";
+import { Canvas } from "@react-three/fiber";
+import { OrbitControls } from "@react-three/drei";
+import { Color, Object3D, type InstancedMesh } from "three";
+import type { TemperatureField } from "@/lib/thermal";
+
+/** Scene units per metre; the scene is laid out in millimetres. */
+const SCALE = 1000;
+
+interface Cell {
+  position: [number, number, number];
+  size: [number, number, number];
+  temperature: number;
+}
+
+function metalCells(field: TemperatureField): Cell[] {
+  const { nx, ny, nz, x, y, z, temperatures } = field;
+  const cells: Cell[] = [];
+  for (let l = 0; l < nz; l++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const temperature = temperatures[i + nx * (j + ny * l)];
+        if (Number.isNaN(temperature)) continue;
+        // Three.js is y-up: base width on x, height on y, length on z.
+        cells.push({
+          position: [
+            ((x[i] + x[i + 1]) / 2 - x[nx] / 2) * SCALE,
+            ((z[l] + z[l + 1]) / 2) * SCALE,
+            ((y[j] + y[j + 1]) / 2 - y[ny] / 2) * SCALE,
+          ],
+          size: [
+            (x[i + 1] - x[i]) * SCALE,
+            (z[l + 1] - z[l]) * SCALE,
+            (y[j + 1] - y[j]) * SCALE,
+          ],
+          temperature,
+        });
+      }
+    }
+  }
+  return cells;
+}
+
+/** Blue at the field minimum through to red at the maximum. */
+function temperatureColor(
+  temperature: number,
+  min: number,
+  max: number
+): Color {
+  const t = max > min ? (temperature - min) / (max - min) : 0;
+  return new Color().setHSL((1 - t) * (2 / 3), 1, 0.5);
+}
+
+const FieldCells = ({ field }: { field: TemperatureField }) => {
+  const mesh = useRef<InstancedMesh>(null);
+  const cells = useMemo(() => metalCells(field), [field]);
+
+  useLayoutEffect(() => {
+    if (!mesh.current) return;
+    const dummy = new Object3D();
+    cells.forEach((cell, index) => {
+      dummy.position.set(...cell.position);
+      dummy.scale.set(...cell.size);
+      dummy.updateMatrix();
+      mesh.current.setMatrixAt(index, dummy.matrix);
+      mesh.current.setColorAt(
+        index,
+        temperatureColor(cell.temperature, field.min, field.max)
+      );
+    });
+    mesh.current.instanceMatrix.needsUpdate = true;
+    if (mesh.current.instanceColor) mesh.current.instanceColor.needsUpdate = true;
+  }, [cells, field]);
+
+  return (
+    <instancedMesh
+      key={cells.length}
+      ref={mesh}
+      args={[undefined, undefined, cells.length]}
+    >
+      <boxGeometry />
+      <meshStandardMaterial />
+    </instancedMesh>
+  );
+};
+
+interface TemperatureFieldViewerProps {
+  field: TemperatureField;
+}
+
+const TemperatureFieldViewer = ({ field }: TemperatureFieldViewerProps) => {
+  const extent =
+    Math.max(field.x[field.nx], field.y[field.ny], field.z[field.nz]) * SCALE;
+
+  return (
+    <div className="h-80 w-full overflow-hidden rounded-md border">
+      <Canvas camera={{ position: [extent, extent, extent], near: 0.1 }}>
+        <ambientLight intensity={0.6} />
+        <directionalLight position={[extent, 2 * extent, extent]} />
+        <FieldCells field={field} />
+        <OrbitControls makeDefault />
+      </Canvas>
+    </div>
+  );
+};
+
+export default TemperatureFieldViewer;
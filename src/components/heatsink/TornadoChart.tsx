@@ -0,0 +1,57 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+const chartConfig = {
+  low: { label: "Input lowered", color: "hsl(var(--chart-1))" },
+  high: { label: "Input raised", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+export interface TornadoBar {
+  name: string;
+  /** Change in the output with the input lowered. */
+  low: number;
+  /** Change in the output with the input raised. */
+  high: number;
+}
+
+interface TornadoChartProps {
+  bars: TornadoBar[];
+  /** Axis label for the output change, with its unit. */
+  label: string;
+}
+
+/** Output change for each input, largest swing at the top. */
+const TornadoChart = ({ bars, label }: TornadoChartProps) => (
+  <ChartContainer
+    config={chartConfig}
+    className="aspect-auto w-full"
+    style={{ height: 40 + 28 * bars.length }}
+  >
+    <BarChart
+      data={bars}
+      layout="vertical"
+      stackOffset="sign"
+      margin={{ left: 12, right: 12, bottom: 12 }}
+    >
+      <CartesianGrid horizontal={false} />
+      <XAxis
+        type="number"
+        label={{ value: label, position: "insideBottom", offset: -8 }}
+      />
+      <YAxis type="category" dataKey="name" width={110} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <ChartLegend content={<ChartLegendContent />} verticalAlign="top" />
+      <Bar dataKey="low" stackId="swing" fill="var(--color-low)" />
+      <Bar dataKey="high" stackId="swing" fill="var(--color-high)" />
+    </BarChart>
+  </ChartContainer>
+);
+
+export default TornadoChart;
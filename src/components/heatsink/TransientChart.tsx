@@ -0,0 +1,97 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useUnits } from "@/hooks/use-units";
+import type { TransientResult } from "@/lib/thermal";
+import { fromSI } from "@/lib/units";
+import ResultRow from "./ResultRow";
+
+interface TransientChartProps {
+  result: TransientResult;
+  maxJunctionTemperature: number;
+}
+
+const TransientChart = ({
+  result,
+  maxJunctionTemperature,
+}: TransientChartProps) => {
+  const units = useUnits();
+  const timeUnit = units.unit("time");
+  const temperatureUnit = units.unit("temperature");
+  const powerUnit = units.unit("power");
+  const temperatureLabel = `Tj (${temperatureUnit.label})`;
+  const chartConfig = {
+    temperature: { label: temperatureLabel, color: "hsl(var(--chart-1))" },
+    power: {
+      label: `Power (${powerUnit.label})`,
+      color: "hsl(var(--chart-2))",
+    },
+  } satisfies ChartConfig;
+  const data = result.points.map((p) => ({
+    time: fromSI(p.time, timeUnit),
+    temperature: fromSI(p.temperature, temperatureUnit),
+    power: fromSI(p.power, powerUnit),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Junction temperature over time</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig}>
+          <LineChart data={data} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(v: number) => v.toPrecision(2)}
+              label={{ value: `Time (${timeUnit.label})`, position: "insideBottom", offset: -4 }}
+            />
+            <YAxis
+              yAxisId="temperature"
+              label={{ value: temperatureLabel, angle: -90, position: "insideLeft" }}
+            />
+            <YAxis yAxisId="power" orientation="right" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line
+              yAxisId="temperature"
+              dataKey="temperature"
+              type="linear"
+              stroke="var(--color-temperature)"
+              dot={false}
+            />
+            <Line
+              yAxisId="power"
+              dataKey="power"
+              type="stepAfter"
+              stroke="var(--color-power)"
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+        <ResultRow label="Peak junction temperature" value={result.peakTemperature} quantity="temperature" />
+        <ResultRow label="Time of peak" value={result.peakTime} quantity="time" />
+        <ResultRow label="Margin to Tj max" value={maxJunctionTemperature - result.peakTemperature} quantity="temperatureDifference" />
+        <ResultRow label="Settled mean rise" value={result.steadyStateRise} quantity="temperatureDifference" />
+        {result.truncated && (
+          <p className="mt-2 text-sm text-muted-foreground">
+            The pulse train has too many edges to follow each pulse; later
+            pulses are averaged, so the peak there is underestimated.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransientChart;
@@ -0,0 +1,327 @@
+import { ArrowLeftRight, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useUnits } from "@/hooks/use-units";
+import {
+  cauerToFoster,
+  fosterToCauer,
+  type PowerBreakpoint,
+  type PowerProfile,
+  type RcStage,
+} from "@/lib/thermal";
+import { fromSI, toSI } from "@/lib/units";
+import NumberField from "./NumberField";
+import { convertProfile } from "./defaults";
+import type { HeatsinkDesign, TransientDesign } from "./types";
+
+interface TransientFormProps {
+  design: HeatsinkDesign;
+  onChange: (design: HeatsinkDesign) => void;
+}
+
+const TransientForm = ({ design, onChange }: TransientFormProps) => {
+  const { transient } = design;
+  const { profile } = transient;
+  const units = useUnits();
+  const resistanceUnit = units.unit("thermalResistance");
+  const capacityUnit = units.unit("heatCapacity");
+  const timeUnit = units.unit("time");
+  const powerUnit = units.unit("power");
+  const setTransient = (patch: Partial<TransientDesign>) =>
+    onChange({ ...design, transient: { ...transient, ...patch } });
+  const setStage = (index: number, patch: Partial<RcStage>) =>
+    setTransient({
+      stages: transient.stages.map((s, i) =>
+        i === index ? { ...s, ...patch } : s
+      ),
+    });
+  const setProfile = (next: PowerProfile) => setTransient({ profile: next });
+  const setBreakpoint = (index: number, patch: Partial<PowerBreakpoint>) =>
+    profile.kind === "piecewise" &&
+    setProfile({
+      ...profile,
+      points: profile.points.map((p, i) =>
+        i === index ? { ...p, ...patch } : p
+      ),
+    });
+
+  // Conversion keeps the junction impedance, so the results do not change.
+  const convert = () => {
+    try {
+      setTransient(
+        transient.networkKind === "foster"
+          ? { networkKind: "cauer", stages: fosterToCauer(transient.stages) }
+          : { networkKind: "foster", stages: cauerToFoster(transient.stages) }
+      );
+    } catch {
+      // Invalid stages are already reported by the analysis.
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transient</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end justify-between gap-2">
+          <div className="space-y-1.5">
+            <Label>Device Zth(j-c) network</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={transient.networkKind}
+              onValueChange={(kind) =>
+                kind && kind !== transient.networkKind && convert()
+              }
+            >
+              <ToggleGroupItem value="foster">Foster</ToggleGroupItem>
+              <ToggleGroupItem value="cauer">Cauer</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <Button variant="outline" size="sm" onClick={convert}>
+            <ArrowLeftRight className="mr-1 h-4 w-4" />
+            Convert
+          </Button>
+        </div>
+        <div className="space-y-2">
+          <Label>
+            Stages ({resistanceUnit.label}, {capacityUnit.label})
+          </Label>
+          {transient.stages.map((stage, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="number"
+                aria-label={`R${index + 1}`}
+                value={+fromSI(stage.resistance, resistanceUnit).toPrecision(6)}
+                onChange={(e) =>
+                  setStage(index, {
+                    resistance: toSI(parseFloat(e.target.value), resistanceUnit),
+                  })
+                }
+              />
+              <Input
+                type="number"
+                aria-label={`C${index + 1}`}
+                value={+fromSI(stage.capacitance, capacityUnit).toPrecision(6)}
+                onChange={(e) =>
+                  setStage(index, {
+                    capacitance: toSI(parseFloat(e.target.value), capacityUnit),
+                  })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove stage"
+                disabled={transient.stages.length <= 1}
+                onClick={() =>
+                  setTransient({
+                    stages: transient.stages.filter((_, i) => i !== index),
+                  })
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setTransient({
+                stages: [
+                  ...transient.stages,
+                  { resistance: 0.1, capacitance: 1 },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add stage
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 flex items-center gap-2">
+            <Switch
+              id="transient-heatsink"
+              checked={transient.includeHeatsink}
+              onCheckedChange={(includeHeatsink) =>
+                setTransient({ includeHeatsink })
+              }
+            />
+            <Label htmlFor="transient-heatsink">
+              Include heatsink thermal mass
+            </Label>
+          </div>
+          {transient.includeHeatsink && (
+            <>
+              <NumberField
+                id="transient-rcs"
+                label="Rth(c-s)"
+                quantity="thermalResistance"
+                value={transient.caseToSink}
+                onChange={(caseToSink) => setTransient({ caseToSink })}
+              />
+              <NumberField
+                id="specific-heat"
+                label="Specific heat"
+                quantity="specificHeat"
+                value={design.material.specificHeat ?? NaN}
+                onChange={(specificHeat) =>
+                  onChange({
+                    ...design,
+                    material: { ...design.material, specificHeat },
+                  })
+                }
+              />
+              <NumberField
+                id="density"
+                label="Density"
+                quantity="density"
+                value={design.material.density ?? NaN}
+                onChange={(density) =>
+                  onChange({
+                    ...design,
+                    material: { ...design.material, density },
+                  })
+                }
+              />
+            </>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="power-profile">Power profile</Label>
+            <Select
+              value={profile.kind}
+              onValueChange={(kind) =>
+                setProfile(convertProfile(profile, kind as PowerProfile["kind"]))
+              }
+            >
+              <SelectTrigger id="power-profile">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="step">Step</SelectItem>
+                <SelectItem value="pulse">Single pulse</SelectItem>
+                <SelectItem value="pulse-train">Pulse train</SelectItem>
+                <SelectItem value="piecewise">Piecewise</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <NumberField
+            id="transient-duration"
+            label="Duration"
+            quantity="time"
+            value={transient.duration}
+            onChange={(duration) => setTransient({ duration })}
+          />
+          {profile.kind !== "piecewise" && (
+            <NumberField
+              id="pulse-power"
+              label="Power"
+              quantity="power"
+              value={profile.power}
+              onChange={(power) => setProfile({ ...profile, power })}
+            />
+          )}
+          {(profile.kind === "pulse" || profile.kind === "pulse-train") && (
+            <NumberField
+              id="pulse-width"
+              label="Pulse width"
+              quantity="time"
+              metricUnit="ms"
+              value={profile.width}
+              onChange={(width) => setProfile({ ...profile, width })}
+            />
+          )}
+          {profile.kind === "pulse-train" && (
+            <NumberField
+              id="pulse-period"
+              label="Period"
+              quantity="time"
+              metricUnit="ms"
+              value={profile.period}
+              onChange={(period) => setProfile({ ...profile, period })}
+            />
+          )}
+        </div>
+        {profile.kind === "piecewise" && (
+          <div className="space-y-2">
+            <Label>
+              Profile ({timeUnit.label}, {powerUnit.label})
+            </Label>
+            {profile.points.map((point, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  aria-label={`Time ${index + 1}`}
+                  value={+fromSI(point.time, timeUnit).toPrecision(6)}
+                  onChange={(e) =>
+                    setBreakpoint(index, {
+                      time: toSI(parseFloat(e.target.value), timeUnit),
+                    })
+                  }
+                />
+                <Input
+                  type="number"
+                  aria-label={`Power ${index + 1}`}
+                  value={+fromSI(point.power, powerUnit).toPrecision(6)}
+                  onChange={(e) =>
+                    setBreakpoint(index, {
+                      power: toSI(parseFloat(e.target.value), powerUnit),
+                    })
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove point"
+                  disabled={profile.points.length <= 1}
+                  onClick={() =>
+                    setProfile({
+                      ...profile,
+                      points: profile.points.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const last = profile.points[profile.points.length - 1];
+                setProfile({
+                  ...profile,
+                  points: [
+                    ...profile.points,
+                    { time: (last?.time ?? 0) + 0.1, power: 0 },
+                  ],
+                });
+              }}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add point
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransientForm;
@@ -0,0 +1,354 @@
+import {
+  CORRELATION_INPUT,
+  ledPower,
+  type FinProfile,
+  type HeatsinkGeometry,
+  type LossInput,
+  type MountedDevice,
+  type OptimizerBounds,
+  type OptimizerConstraints,
+  type PlateArrayGeometry,
+  type PowerProfile,
+  type UncertainInput,
+} from "@/lib/thermal";
+import type { HeatsinkDesign, LedDesign, StackLayerDesign } from "./types";
+
+export const DEFAULT_DESIGN: HeatsinkDesign = {
+  mode: "natural",
+  geometry: {
+    kind: "plate-fin",
+    baseWidth: 0.1,
+    baseLength: 0.1,
+    baseThickness: 0.005,
+    finHeight: 0.03,
+    finThickness: 0.0015,
+    finCount: 10,
+  },
+  material: {
+    name: "Aluminium 6063-T5",
+    conductivity: 209,
+    density: 2700,
+    specificHeat: 900,
+    costPerKg: 3.2,
+    emissivity: 0.09,
+  },
+  process: "extruded",
+  cost: { annualVolume: 1000, mountingHoles: 2, flyCutBase: false },
+  finish: "black-anodized",
+  orientation: "vertical",
+  tiltAngle: 30,
+  orientationWarning: 0.1,
+  ambientTemperature: 25,
+  altitude: 0,
+  arrangement: "ducted",
+  ductArea: 0.006,
+  // A typical 80 mm, 12 V axial fan.
+  fanCurve: [
+    { flow: 0, pressure: 45 },
+    { flow: 0.005, pressure: 35 },
+    { flow: 0.01, pressure: 24 },
+    { flow: 0.015, pressure: 10 },
+    { flow: 0.019, pressure: 0 },
+  ],
+  // A TO-220 tab in the middle of the base.
+  devices: [
+    {
+      id: "device-1",
+      name: "Q1",
+      power: 20,
+      width: 0.01,
+      length: 0.015,
+      x: 0.05,
+      y: 0.05,
+      junctionToCase: 1.0,
+      caseToSink: 0.5,
+      maxJunctionTemperature: 150,
+    },
+  ],
+  // Mid-power LEDs on an aluminium board; flux and lifetime as typical
+  // LM-80 reports give them.
+  led: {
+    enabled: false,
+    count: 24,
+    forwardVoltage: 2.9,
+    forwardVoltageCoefficient: -0.002,
+    current: 0.35,
+    wallPlugEfficiency: 0.4,
+    junctionToSolderPoint: 2.5,
+    boardWidth: 0.08,
+    boardLength: 0.08,
+    boardToSink: 0.15,
+    maxJunctionTemperature: 125,
+    flux: [
+      { temperature: 25, relativeFlux: 1 },
+      { temperature: 55, relativeFlux: 0.96 },
+      { temperature: 85, relativeFlux: 0.91 },
+      { temperature: 105, relativeFlux: 0.87 },
+      { temperature: 125, relativeFlux: 0.83 },
+    ],
+    lifetime: [
+      { temperature: 55, hours: 100000 },
+      { temperature: 85, hours: 60000 },
+      { temperature: 105, hours: 36000 },
+      { temperature: 125, hours: 20000 },
+    ],
+  },
+  includeSpreading: true,
+  stack: {
+    power: 20,
+    layers: [
+      {
+        id: "layer-1",
+        name: "Junction to case",
+        resistance: 1.0,
+        linkHeatsink: false,
+      },
+      {
+        id: "layer-2",
+        name: "Thermal pad",
+        resistance: 0.5,
+        linkHeatsink: false,
+      },
+      {
+        id: "layer-3",
+        name: "Heatsink",
+        resistance: 1.5,
+        linkHeatsink: true,
+      },
+    ],
+    includeBoard: false,
+    caseToBoard: 10,
+    boardToAmbient: 20,
+  },
+  // Datasheet-style Foster fit of a TO-220 MOSFET hit by a 200 ms inrush.
+  transient: {
+    networkKind: "foster",
+    stages: [
+      { resistance: 0.05, capacitance: 0.001 },
+      { resistance: 0.2, capacitance: 0.01 },
+      { resistance: 0.45, capacitance: 0.1 },
+      { resistance: 0.3, capacitance: 0.6 },
+    ],
+    caseToSink: 0.5,
+    includeHeatsink: true,
+    profile: { kind: "pulse", power: 100, width: 0.2 },
+    duration: 2,
+  },
+};
+
+export const DEFAULT_OPTIMIZER_BOUNDS: OptimizerBounds = {
+  finCount: [4, 30],
+  finHeight: [0.01, 0.06],
+  finThickness: [0.0008, 0.004],
+  baseThickness: [0.002, 0.01],
+};
+
+// Typical limits for a commodity aluminium extrusion.
+export const DEFAULT_OPTIMIZER_CONSTRAINTS: OptimizerConstraints = {
+  maxHeight: 0.05,
+  minChannelSpacing: 0.003,
+  maxAspectRatio: 20,
+};
+
+// A 100 V trench MOSFET as the high-side switch of a 48 V to 12 V buck.
+export const DEFAULT_LOSS_INPUT: LossInput = {
+  kind: "mosfet",
+  topology: "buck",
+  inputVoltage: 48,
+  outputVoltage: 12,
+  current: 10,
+  frequency: 100e3,
+  onResistance: 0.01,
+  onResistanceCoefficient: 0.006,
+  forwardVoltage: 0.8,
+  forwardVoltageCoefficient: -0.002,
+  riseTime: 20e-9,
+  fallTime: 15e-9,
+  gateCharge: 50e-9,
+  gateVoltage: 10,
+  recoveryCharge: 50e-9,
+};
+
+// Correlations are good to about ±20% (2σ); interface material thickness
+// and the ambient vary within their own limits.
+export const DEFAULT_UNCERTAINTIES: UncertainInput[] = [
+  { id: CORRELATION_INPUT, kind: "normal", tolerance: 0.1, enabled: true },
+  { id: "caseToSink", kind: "uniform", tolerance: 0.2, enabled: true },
+  {
+    id: "ambientTemperature",
+    kind: "triangular",
+    tolerance: 5,
+    enabled: true,
+  },
+  { id: "power", kind: "normal", tolerance: 0.05, enabled: false },
+  { id: "junctionToCase", kind: "normal", tolerance: 0.1, enabled: false },
+  { id: "conductivity", kind: "uniform", tolerance: 0.05, enabled: false },
+  { id: "finThickness", kind: "uniform", tolerance: 0.05, enabled: false },
+  { id: "finHeight", kind: "uniform", tolerance: 0.02, enabled: false },
+  { id: "baseThickness", kind: "uniform", tolerance: 0.05, enabled: false },
+];
+
+/**
+ * Switches a geometry to another kind, keeping the baseplate and fin height
+ * and filling the new kind's own dimensions with typical values.
+ */
+export function convertGeometry(
+  geometry: HeatsinkGeometry,
+  kind: HeatsinkGeometry["kind"]
+): HeatsinkGeometry {
+  const { baseWidth, baseLength, baseThickness, finHeight } = geometry;
+  const base = { baseWidth, baseLength, baseThickness, finHeight };
+  const plate =
+    geometry.kind === "pin-fin"
+      ? { finThickness: 0.0015, finCount: Math.max(2, geometry.columns) }
+      : {
+          finThickness: geometry.finThickness,
+          finCount: geometry.finCount,
+          profile: geometry.profile,
+        };
+
+  switch (kind) {
+    case "plate-fin":
+      return { kind, ...base, ...plate };
+    case "cross-cut":
+      return { kind, ...base, ...plate, cutCount: 3, cutWidth: 0.002 };
+    case "pin-fin":
+      return {
+        kind,
+        ...base,
+        shape: "round",
+        layout: "inline",
+        pinSize: 0.003,
+        rows: 10,
+        columns: geometry.kind === "pin-fin" ? geometry.columns : plate.finCount,
+      };
+  }
+}
+
+/** Each profile kind with typical values for its own dimensions. */
+export function finProfiles(geometry: PlateArrayGeometry): FinProfile[] {
+  return (["rectangular", "tapered", "triangular", "flared"] as const).map(
+    (kind) => convertFinProfile(geometry, kind)
+  );
+}
+
+/** Switches the fin profile kind, keeping its settings if it already is one. */
+export function convertFinProfile(
+  geometry: PlateArrayGeometry,
+  kind: FinProfile["kind"]
+): FinProfile {
+  if (geometry.profile?.kind === kind) return geometry.profile;
+  switch (kind) {
+    case "rectangular":
+    case "triangular":
+      return { kind };
+    case "tapered":
+      return { kind, tipThickness: geometry.finThickness / 2 };
+    case "flared":
+      return { kind, flareAngle: 2 };
+  }
+}
+
+/** A TO-220 placed at the base centre, named after its position in the list. */
+export function newDevice(
+  devices: MountedDevice[],
+  geometry: HeatsinkGeometry
+): MountedDevice {
+  const next =
+    Math.max(0, ...devices.map((d) => Number(d.id.replace("device-", "")) || 0)) +
+    1;
+  return {
+    id: `device-${next}`,
+    name: `Q${devices.length + 1}`,
+    power: 10,
+    width: 0.01,
+    length: 0.015,
+    x: geometry.baseWidth / 2,
+    y: geometry.baseLength / 2,
+    junctionToCase: 1.0,
+    caseToSink: 0.5,
+    maxJunctionTemperature: 150,
+  };
+}
+
+/** Id of the device that stands for the LED board in LED mode. */
+export const LED_DEVICE_ID = "led-array";
+
+/**
+ * The LED board as a heat source centred on the base. The solder point is
+ * its case, and the LEDs' Rth(j-sp) act in parallel. Its power is the heat at
+ * 25 °C, until `useLedHeat` settles it with the junction temperature.
+ */
+export function ledDevice(
+  led: LedDesign,
+  geometry: HeatsinkGeometry
+): MountedDevice {
+  return {
+    id: LED_DEVICE_ID,
+    name: `${led.count} LEDs`,
+    power: ledPower(led).heat,
+    width: led.boardWidth,
+    length: led.boardLength,
+    x: geometry.baseWidth / 2,
+    y: geometry.baseLength / 2,
+    junctionToCase: led.junctionToSolderPoint / led.count,
+    caseToSink: led.boardToSink,
+    maxJunctionTemperature: led.maxJunctionTemperature,
+  };
+}
+
+/**
+ * The design as the thermal engine sees it. In LED mode the LED board, built
+ * afresh from the LED entry, takes the place of the devices, which stay in
+ * the design for when LED mode is switched off. An invalid LED entry leaves
+ * no source until it is fixed.
+ */
+export function withLedDevice(design: HeatsinkDesign): HeatsinkDesign {
+  if (!design.led.enabled) return design;
+  try {
+    return { ...design, devices: [ledDevice(design.led, design.geometry)] };
+  } catch {
+    return { ...design, devices: [] };
+  }
+}
+
+/** A new stack layer inserted before the last one, which usually ends at ambient. */
+export function newStackLayer(layers: StackLayerDesign[]): StackLayerDesign {
+  const next =
+    Math.max(0, ...layers.map((l) => Number(l.id.replace("layer-", "")) || 0)) +
+    1;
+  return {
+    id: `layer-${next}`,
+    name: `Layer ${next}`,
+    resistance: 0.1,
+    linkHeatsink: false,
+  };
+}
+
+/** Switches the power profile kind, carrying over the power level. */
+export function convertProfile(
+  profile: PowerProfile,
+  kind: PowerProfile["kind"]
+): PowerProfile {
+  const power =
+    profile.kind === "piecewise"
+      ? Math.max(0, ...profile.points.map((p) => p.power))
+      : profile.power;
+  switch (kind) {
+    case "step":
+      return { kind, power };
+    case "pulse":
+      return { kind, power, width: 0.2 };
+    case "pulse-train":
+      return { kind, power, width: 0.01, period: 0.05 };
+    case "piecewise":
+      return {
+        kind,
+        points: [
+          { time: 0, power },
+          { time: 0.1, power: power / 2 },
+          { time: 0.5, power: 0 },
+        ],
+      };
+  }
+}
@@ -0,0 +1,40 @@
+import type { DesignRule, DesignRuleCheck } from "@/lib/thermal";
+import { formatQuantity, type Unit } from "@/lib/units";
+
+export const RULE_LABELS: Record<DesignRule, string> = {
+  "aspect-ratio": "Fin height to gap",
+  "fin-thickness": "Thinnest fin",
+  gap: "Narrowest gap",
+  "base-width": "Base width",
+};
+
+/** Value and limit of a check as display text, lengths in `length`. */
+export function formatRuleCheck(
+  check: DesignRuleCheck,
+  length: Unit
+): { value: string; limit: string } {
+  const format = (v: number) =>
+    check.rule === "aspect-ratio"
+      ? `${v.toFixed(1)}:1`
+      : `${formatQuantity(v, length)} ${length.label}`;
+  return { value: format(check.value), limit: format(check.limit) };
+}
+
+/** Inline messages for the failed checks, keyed by geometry field. */
+export function ruleErrors(
+  checks: DesignRuleCheck[],
+  length: Unit
+): Partial<Record<string, string>> {
+  const errors: Partial<Record<string, string>> = {};
+  for (const check of checks) {
+    if (check.passed) continue;
+    const { value, limit } = formatRuleCheck(check, length);
+    const bound =
+      check.rule === "aspect-ratio" || check.rule === "base-width"
+        ? "max"
+        : "min";
+    errors[check.field] =
+      `${RULE_LABELS[check.rule]} ${value}; ${bound} ${limit}`;
+  }
+  return errors;
+}
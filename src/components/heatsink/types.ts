@@ -0,0 +1,78 @@
+import type {
+  CoolingMode,
+  CostOptions,
+  FluxPoint,
+  HeatsinkAssembly,
+  LedArray,
+  LifetimePoint,
+  ManufacturingProcessId,
+  PowerProfile,
+  RcNetworkKind,
+  RcStage,
+  StackLayer,
+} from "@/lib/thermal";
+
+export type { CoolingMode };
+
+export interface StackLayerDesign extends StackLayer {
+  /** Take the resistance from the heatsink calculation instead. */
+  linkHeatsink: boolean;
+}
+
+/** A free-form junction-to-ambient stack solved as a resistor network. */
+export interface StackDesign {
+  power: number;
+  layers: StackLayerDesign[];
+  /**
+   * Add a case-board-ambient path in parallel with the rest of the stack,
+   * branching at the cold side of the first layer.
+   */
+  includeBoard: boolean;
+  caseToBoard: number;
+  boardToAmbient: number;
+}
+
+/** Device Zth and power profile for the transient analysis. */
+export interface TransientDesign {
+  networkKind: RcNetworkKind;
+  /** Junction-to-case stages, usually the datasheet Foster fit. */
+  stages: RcStage[];
+  caseToSink: number;
+  /** Add the heatsink's thermal mass and resistance after the case. */
+  includeHeatsink: boolean;
+  profile: PowerProfile;
+  duration: number;
+}
+
+/**
+ * An LED luminaire board, which in LED mode is the only heat source. Its
+ * heat is the electrical power less the light.
+ */
+export interface LedDesign extends LedArray {
+  enabled: boolean;
+  /** Board footprint on the base, centred on it (m). */
+  boardWidth: number;
+  boardLength: number;
+  /** Solder point to heatsink through the board and interface (K/W). */
+  boardToSink: number;
+  /** °C. */
+  maxJunctionTemperature: number;
+  flux: FluxPoint[];
+  lifetime: LifetimePoint[];
+}
+
+/**
+ * Everything the calculator form edits, stored in SI units: the assembly
+ * the thermal engine solves plus the form's own settings.
+ */
+export interface HeatsinkDesign extends HeatsinkAssembly {
+  /** Process whose design rules the geometry is checked against. */
+  process: ManufacturingProcessId;
+  /** Volume and secondary operations for the cost estimate. */
+  cost: CostOptions;
+  /** Loss against vertical above which the orientation is flagged (0–1). */
+  orientationWarning: number;
+  led: LedDesign;
+  stack: StackDesign;
+  transient: TransientDesign;
+}
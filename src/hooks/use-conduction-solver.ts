@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+import {
+  materialConductivity,
+  uniformSinkCoefficient,
+  type ConductionInput,
+  type ConductionModel,
+  type ConductionResult,
+  type ForcedConvectionResult,
+  type NaturalConvectionResult,
+} from "@/lib/thermal";
+import type {
+  ConductionMessage,
+  ConductionRequest,
+} from "@/workers/conduction.worker";
+
+export type ConductionStatus = "idle" | "running" | "done" | "error";
+
+export interface ConductionRun {
+  status: ConductionStatus;
+  /** 0 to 1, from the solver residual. */
+  progress: number;
+  result?: ConductionResult;
+  error?: string;
+}
+
+/**
+ * Solver input for the current design, with film coefficients taken from the
+ * correlation result. In forced flow the fins see the mean air temperature
+ * in the channels rather than the inlet.
+ */
+export function conductionInput(
+  design: HeatsinkDesign,
+  heatsink: NaturalConvectionResult | ForcedConvectionResult,
+  model: ConductionModel,
+  cellSize: number
+): ConductionInput {
+  const common = {
+    model,
+    geometry: design.geometry,
+    conductivity: materialConductivity(
+      design.material,
+      heatsink.baseTemperature
+    ),
+    sources: design.devices,
+    cellSize,
+  };
+  if (model === "plate") {
+    return {
+      ...common,
+      sinkCoefficient: uniformSinkCoefficient(
+        design.geometry,
+        heatsink.convectiveResistance
+      ),
+      fluidTemperature: design.ambientTemperature,
+    };
+  }
+  const airRise =
+    "airTemperatureRise" in heatsink ? heatsink.airTemperatureRise : 0;
+  return {
+    ...common,
+    sinkCoefficient: heatsink.effectiveHeatTransferCoefficient,
+    fluidTemperature: design.ambientTemperature + airRise / 2,
+  };
+}
+
+/** Runs the conduction solver in a Web Worker, one solve at a time. */
+export function useConductionSolver() {
+  const worker = useRef<Worker>();
+  const [run, setRun] = useState<ConductionRun>({
+    status: "idle",
+    progress: 0,
+  });
+
+  const cancel = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = undefined;
+    setRun((current) =>
+      current.status === "running" ? { status: "idle", progress: 0 } : current
+    );
+  }, []);
+
+  const solve = useCallback((input: ConductionInput) => {
+    worker.current?.terminate();
+    const next = new Worker(
+      new URL("../workers/conduction.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.current = next;
+    setRun({ status: "running", progress: 0 });
+
+    next.onmessage = ({ data }: MessageEvent<ConductionMessage>) => {
+      if (data.type === "progress") {
+        setRun({ status: "running", progress: data.fraction });
+        return;
+      }
+      setRun(
+        data.type === "done"
+          ? { status: "done", progress: 1, result: data.result }
+          : { status: "error", progress: 0, error: data.message }
+      );
+      next.terminate();
+      if (worker.current === next) worker.current = undefined;
+    };
+    next.onerror = (event) => {
+      setRun({ status: "error", progress: 0, error: event.message });
+      next.terminate();
+    };
+    next.postMessage({ input } satisfies ConductionRequest);
+  }, []);
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  return { ...run, solve, cancel };
+}
@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+import {
+  costCurve,
+  estimateCost,
+  getProcessCost,
+  validateGeometry,
+  type CostCurvePoint,
+  type CostEstimate,
+} from "@/lib/thermal";
+
+export interface CostAnalysis {
+  estimate?: CostEstimate;
+  /** Unit cost of every process against annual volume. */
+  curve?: CostCurvePoint[];
+  error?: string;
+}
+
+/** Unit cost with the chosen process, and of every process by volume. */
+export function useCostEstimate(design: HeatsinkDesign): CostAnalysis {
+  const { geometry, material, process, finish, cost } = design;
+  return useMemo(() => {
+    try {
+      validateGeometry(geometry);
+      return {
+        estimate: estimateCost(
+          geometry,
+          material,
+          getProcessCost(process),
+          finish,
+          cost
+        ),
+        curve: costCurve(geometry, material, finish, cost),
+      };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [geometry, material, process, finish, cost]);
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+import type { DeratingPoint } from "@/lib/thermal";
+import type {
+  DeratingMessage,
+  DeratingRequest,
+} from "@/workers/derating.worker";
+
+/** Quiet time after the last edit before the curve is recomputed (ms). */
+const DEBOUNCE_MS = 300;
+
+/**
+ * Altitude derating of the design, computed in a Web Worker once edits
+ * settle. It takes the design as the engine sees it, from `useLedHeat`. The
+ * previous curve stays up while a new one is computed; a design the model
+ * rejects gives none.
+ */
+export function useDeratingCurve(
+  design: HeatsinkDesign
+): DeratingPoint[] | undefined {
+  const [curve, setCurve] = useState<DeratingPoint[]>();
+
+  useEffect(() => {
+    let worker: Worker | undefined;
+    const timer = setTimeout(() => {
+      const next = new Worker(
+        new URL("../workers/derating.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      worker = next;
+      next.onmessage = ({ data }: MessageEvent<DeratingMessage>) => {
+        setCurve(data.type === "done" ? data.curve : undefined);
+        next.terminate();
+      };
+      next.onerror = () => {
+        setCurve(undefined);
+        next.terminate();
+      };
+      next.postMessage({ assembly: design } satisfies DeratingRequest);
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [design]);
+
+  return curve;
+}
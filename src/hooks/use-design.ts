@@ -0,0 +1,121 @@
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_DESIGN,
+  convertGeometry,
+  convertProfile,
+} from "@/components/heatsink/defaults";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+
+const STORAGE_KEY = "heatsink-calculator.design";
+
+type Section = keyof HeatsinkDesign;
+
+const SECTIONS = Object.keys(DEFAULT_DESIGN) as Section[];
+
+/**
+ * Shapes a saved section may take. Most have only the default's; unions
+ * list one of each kind, and fields left undefined are optional.
+ */
+const SHAPES: { [K in Section]?: HeatsinkDesign[K][] } = {
+  geometry: (["plate-fin", "cross-cut", "pin-fin"] as const).map((kind) =>
+    convertGeometry(DEFAULT_DESIGN.geometry, kind)
+  ),
+  material: [{ name: "", conductivity: 0 }],
+  led: [{ ...DEFAULT_DESIGN.led, forwardVoltageCoefficient: undefined }],
+  transient: (["step", "pulse", "pulse-train", "piecewise"] as const).map(
+    (kind) => ({
+      ...DEFAULT_DESIGN.transient,
+      profile: convertProfile(DEFAULT_DESIGN.transient.profile, kind),
+    })
+  ),
+};
+
+/**
+ * Whether `value` has the shape of `template`: the same types throughout,
+ * the same `kind` where the template has one, and array items shaped like
+ * the template's first.
+ */
+function fits<T>(template: T, value: unknown): value is T {
+  if (template === undefined) return true;
+  if (Array.isArray(template)) {
+    return (
+      Array.isArray(value) &&
+      (template.length === 0 || value.every((item) => fits(template[0], item)))
+    );
+  }
+  if (typeof template === "object" && template !== null) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return false;
+    }
+    return Object.entries(template).every(([key, field]) =>
+      key === "kind"
+        ? Reflect.get(value, key) === field
+        : fits(field, Reflect.get(value, key))
+    );
+  }
+  return typeof value === typeof template;
+}
+
+/** The saved section if it has a shape the form can edit, else the default. */
+function section<K extends Section>(saved: object, key: K): HeatsinkDesign[K] {
+  const value: unknown = Reflect.get(saved, key);
+  for (const shape of SHAPES[key] ?? [DEFAULT_DESIGN[key]]) {
+    if (fits(shape, value)) return value;
+  }
+  return DEFAULT_DESIGN[key];
+}
+
+// The design lives outside the page, like the material library, so it
+// survives a visit to the materials page and a reload.
+const listeners = new Set<() => void>();
+let design = load();
+
+/**
+ * The saved design section by section over the defaults, so a design saved
+ * before a section was added still gets one and a malformed section does
+ * not take the rest with it.
+ */
+function load(): HeatsinkDesign {
+  try {
+    const saved: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "{}"
+    );
+    if (typeof saved !== "object" || saved === null || Array.isArray(saved)) {
+      return DEFAULT_DESIGN;
+    }
+    const loaded = { ...DEFAULT_DESIGN };
+    const restore = <K extends Section>(key: K) => {
+      loaded[key] = section(saved, key);
+    };
+    SECTIONS.forEach(restore);
+    return loaded;
+  } catch {
+    return DEFAULT_DESIGN;
+  }
+}
+
+export function updateDesign(next: HeatsinkDesign) {
+  design = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Private browsing or a full quota: keep it for this session only.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Starts again from the default design. */
+export function resetDesign() {
+  updateDesign(DEFAULT_DESIGN);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useDesign(): HeatsinkDesign {
+  return useSyncExternalStore(subscribe, () => design);
+}
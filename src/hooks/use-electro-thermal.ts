@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+import type {
+  ElectroThermalResult,
+  LossInput,
+  StabilityPoint,
+} from "@/lib/thermal";
+import type {
+  ElectroThermalMessage,
+  ElectroThermalRequest,
+} from "@/workers/electro-thermal.worker";
+
+export interface ElectroThermalAnalysis {
+  result?: ElectroThermalResult;
+  curve?: StabilityPoint[];
+  error?: string;
+}
+
+/** Quiet time after the last edit before the loop is solved again (ms). */
+const DEBOUNCE_MS = 300;
+
+/**
+ * The loss model solved together with the heatsink for one device, the
+ * others keeping their powers, in a Web Worker once edits settle. The last
+ * solution stays up while the next is worked out.
+ */
+export function useElectroThermal(
+  design: HeatsinkDesign,
+  input: LossInput,
+  deviceId: string | undefined
+): ElectroThermalAnalysis {
+  const [analysis, setAnalysis] = useState<ElectroThermalAnalysis>({});
+  const deviceIndex = design.devices.findIndex((d) => d.id === deviceId);
+
+  useEffect(() => {
+    if (deviceIndex < 0) {
+      setAnalysis({});
+      return;
+    }
+    let worker: Worker | undefined;
+    const timer = setTimeout(() => {
+      const next = new Worker(
+        new URL("../workers/electro-thermal.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      worker = next;
+      next.onmessage = ({ data }: MessageEvent<ElectroThermalMessage>) => {
+        setAnalysis(
+          data.type === "done"
+            ? { result: data.result, curve: data.curve }
+            : { error: data.message }
+        );
+        next.terminate();
+      };
+      next.onerror = (event) => {
+        setAnalysis({ error: event.message });
+        next.terminate();
+      };
+      next.postMessage({
+        assembly: design,
+        deviceIndex,
+        heat: { kind: "loss", input },
+      } satisfies ElectroThermalRequest);
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [design, input, deviceIndex]);
+
+  return analysis;
+}
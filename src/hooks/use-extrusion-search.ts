@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ExtrusionMatch } from "@/lib/thermal";
+import type {
+  ExtrusionMessage,
+  ExtrusionRequest,
+} from "@/workers/extrusion.worker";
+
+export type ExtrusionSearchStatus = "idle" | "running" | "done" | "error";
+
+export interface ExtrusionSearch {
+  status: ExtrusionSearchStatus;
+  /** 0 to 1, by profile. */
+  progress: number;
+  matches?: ExtrusionMatch[];
+  error?: string;
+}
+
+/**
+ * Searches the extrusion catalog in a Web Worker, one search at a time. The
+ * request holds its own copy of the design, so a search runs when one is
+ * asked for rather than on every edit.
+ */
+export function useExtrusionSearch() {
+  const worker = useRef<Worker>();
+  const [search, setSearch] = useState<ExtrusionSearch>({
+    status: "idle",
+    progress: 0,
+  });
+
+  const cancel = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = undefined;
+    setSearch((current) =>
+      current.status === "running" ? { status: "idle", progress: 0 } : current
+    );
+  }, []);
+
+  const find = useCallback((request: ExtrusionRequest) => {
+    worker.current?.terminate();
+    const next = new Worker(
+      new URL("../workers/extrusion.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.current = next;
+    setSearch({ status: "running", progress: 0 });
+
+    next.onmessage = ({ data }: MessageEvent<ExtrusionMessage>) => {
+      if (data.type === "progress") {
+        setSearch({ status: "running", progress: data.fraction });
+        return;
+      }
+      setSearch(
+        data.type === "done"
+          ? { status: "done", progress: 1, matches: data.matches }
+          : { status: "error", progress: 0, error: data.message }
+      );
+      next.terminate();
+      if (worker.current === next) worker.current = undefined;
+    };
+    next.onerror = (event) => {
+      setSearch({ status: "error", progress: 0, error: event.message });
+      next.terminate();
+    };
+    next.postMessage(request);
+  }, []);
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  return { ...search, find, cancel };
+}
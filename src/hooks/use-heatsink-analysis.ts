@@ -0,0 +1,192 @@
+import { useMemo } from "react";
+import { finProfiles } from "@/components/heatsink/defaults";
+import type { HeatsinkDesign, StackDesign } from "@/components/heatsink/types";
+import {
+  appendHeatsink,
+  buildStackNetwork,
+  convectionInput,
+  deviceResults,
+  impedanceCurve,
+  JUNCTION_NODE,
+  orientationLoss,
+  pressureAtAltitude,
+  simulateTransient,
+  solidVolume,
+  solveForcedConvection,
+  solveHeatsink,
+  solveNaturalConvection,
+  solveNetwork,
+  stackLayerNode,
+  thermalCapacitance,
+  type FinProfile,
+  type ForcedConvectionResult,
+  type ImpedanceCurvePoint,
+  type MultiSourceResult,
+  type NaturalConvectionResult,
+  type NetworkSolution,
+  type RcNetwork,
+  type ThermalNetwork,
+  type TransientResult,
+} from "@/lib/thermal";
+
+export interface HeatsinkAnalysis {
+  natural?: NaturalConvectionResult;
+  /** Conductance lost against hanging the heatsink vertically (0–1). */
+  orientationLoss?: number;
+  forced?: ForcedConvectionResult;
+  impedance?: ImpedanceCurvePoint[];
+  sources?: MultiSourceResult;
+  stack?: { network: ThermalNetwork; solution: NetworkSolution };
+  transient?: TransientResult;
+  error?: string;
+}
+
+/** One fin profile applied to the design, for comparison with the others. */
+export interface FinProfileComparison {
+  profile: FinProfile;
+  /** Base plus fins (kg); NaN without a material density. */
+  mass: number;
+  finEfficiency: number;
+  /** Base and surface resistance of the heatsink (K/W). */
+  resistance: number;
+}
+
+function transientNetwork(
+  design: HeatsinkDesign,
+  heatsinkResistance: number
+): RcNetwork {
+  const { transient } = design;
+  const device = { kind: transient.networkKind, stages: transient.stages };
+  if (!transient.includeHeatsink) return device;
+  const { density, specificHeat } = design.material;
+  if (density === undefined || specificHeat === undefined) {
+    throw new Error("The heatsink material needs a density and specific heat");
+  }
+  return appendHeatsink(device, transient.caseToSink, {
+    resistance: heatsinkResistance,
+    capacitance: thermalCapacitance(
+      solidVolume(design.geometry),
+      density,
+      specificHeat
+    ),
+  });
+}
+
+function stackNetwork(
+  stack: StackDesign,
+  ambientTemperature: number,
+  heatsinkResistance: number
+): ThermalNetwork {
+  return buildStackNetwork({
+    power: stack.power,
+    ambientTemperature,
+    layers: stack.layers.map(({ id, name, resistance, linkHeatsink }) => ({
+      id,
+      name,
+      resistance: linkHeatsink ? heatsinkResistance : resistance,
+    })),
+    parallelPaths: stack.includeBoard
+      ? [
+          {
+            id: "board",
+            name: "PCB",
+            // A bottom-side board draws heat from the case, past Rth(j-c).
+            from:
+              stack.layers.length > 1
+                ? stackLayerNode(stack.layers[0])
+                : JUNCTION_NODE,
+            layers: [
+              {
+                id: "case-board",
+                name: "Case to board",
+                resistance: stack.caseToBoard,
+              },
+              {
+                id: "board-ambient",
+                name: "Board to ambient",
+                resistance: stack.boardToAmbient,
+              },
+            ],
+          },
+        ]
+      : [],
+  });
+}
+
+/**
+ * The design solved on its heatsink. It takes the devices as the thermal
+ * engine sees them, the LED board settled by `useLedHeat` in LED mode.
+ */
+export function useHeatsinkAnalysis(design: HeatsinkDesign): HeatsinkAnalysis {
+  return useMemo(() => {
+    try {
+      const input = convectionInput(
+        design,
+        pressureAtAltitude(design.altitude)
+      );
+      const analysis: HeatsinkAnalysis =
+        design.mode === "forced"
+          ? {
+              forced: solveForcedConvection(input),
+              impedance: impedanceCurve(input),
+            }
+          : {
+              natural: solveNaturalConvection(input),
+              orientationLoss: orientationLoss(input),
+            };
+      const heatsink = analysis.forced ?? analysis.natural;
+
+      const heatsinkResistance =
+        heatsink.baseResistance + heatsink.convectiveResistance;
+      const network = stackNetwork(
+        design.stack,
+        design.ambientTemperature,
+        heatsinkResistance
+      );
+      return {
+        ...analysis,
+        sources: deviceResults(design, heatsink),
+        stack: { network, solution: solveNetwork(network) },
+        transient: simulateTransient({
+          network: transientNetwork(design, heatsinkResistance),
+          profile: design.transient.profile,
+          ambientTemperature: design.ambientTemperature,
+          duration: design.transient.duration,
+        }),
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [design]);
+}
+
+/**
+ * The design solved with each fin profile in turn, keeping the root
+ * thickness and everything else. Profiles that do not fit are left out;
+ * pin-fin heatsinks have no profiles to compare.
+ */
+export function useFinProfileComparison(
+  design: HeatsinkDesign
+): FinProfileComparison[] | undefined {
+  return useMemo(() => {
+    const { geometry } = design;
+    if (geometry.kind === "pin-fin") return undefined;
+    const pressure = pressureAtAltitude(design.altitude);
+    return finProfiles(geometry).flatMap((profile) => {
+      const at = { ...design, geometry: { ...geometry, profile } };
+      try {
+        const heatsink = solveHeatsink(at, convectionInput(at, pressure));
+        return [
+          {
+            profile,
+            mass: solidVolume(at.geometry) * (design.material.density ?? NaN),
+            finEfficiency: heatsink.finEfficiency,
+            resistance: heatsink.baseResistance + heatsink.convectiveResistance,
+          },
+        ];
+      } catch {
+        return [];
+      }
+    });
+  }, [design]);
+}
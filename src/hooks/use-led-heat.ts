@@ -0,0 +1,85 @@
+import { useEffect, useMemo, useState } from "react";
+import { LED_DEVICE_ID, withLedDevice } from "@/components/heatsink/defaults";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+import type { ElectroThermalResult } from "@/lib/thermal";
+import type {
+  ElectroThermalMessage,
+  ElectroThermalRequest,
+} from "@/workers/electro-thermal.worker";
+
+export interface LedHeat {
+  /**
+   * The design as the thermal engine sees it. In LED mode the board gives off
+   * the heat its junctions settle at, or its heat at 25 °C until that is
+   * solved or when it does not settle.
+   */
+  design: HeatsinkDesign;
+  /** The board's heat solved with the heatsink; none outside LED mode. */
+  result?: ElectroThermalResult;
+  error?: string;
+}
+
+/** Quiet time after the last edit before the loop is solved again (ms). */
+const DEBOUNCE_MS = 300;
+
+/**
+ * The LED board's heat solved with its junction temperature, as the forward
+ * voltage follows the junctions, in a Web Worker once edits settle. The last
+ * settled heat stays in use while the next is worked out.
+ */
+export function useLedHeat(design: HeatsinkDesign): LedHeat {
+  const assembly = useMemo(() => withLedDevice(design), [design]);
+  const [solved, setSolved] = useState<Omit<LedHeat, "design">>({});
+  const deviceIndex = assembly.devices.findIndex((d) => d.id === LED_DEVICE_ID);
+
+  useEffect(() => {
+    if (deviceIndex < 0) {
+      setSolved({});
+      return;
+    }
+    let worker: Worker | undefined;
+    const timer = setTimeout(() => {
+      const next = new Worker(
+        new URL("../workers/electro-thermal.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      worker = next;
+      next.onmessage = ({ data }: MessageEvent<ElectroThermalMessage>) => {
+        setSolved(
+          data.type === "done"
+            ? { result: data.result }
+            : { error: data.message }
+        );
+        next.terminate();
+      };
+      next.onerror = (event) => {
+        setSolved({ error: event.message });
+        next.terminate();
+      };
+      next.postMessage({
+        assembly,
+        deviceIndex,
+        heat: { kind: "led", led: assembly.led },
+      } satisfies ElectroThermalRequest);
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [assembly, deviceIndex]);
+
+  return useMemo(() => {
+    if (deviceIndex < 0) return { design: assembly };
+    const { result } = solved;
+    if (!result?.converged) return { design: assembly, ...solved };
+    return {
+      design: {
+        ...assembly,
+        devices: assembly.devices.map((d, i) =>
+          i === deviceIndex ? { ...d, power: result.power } : d
+        ),
+      },
+      ...solved,
+    };
+  }, [assembly, deviceIndex, solved]);
+}
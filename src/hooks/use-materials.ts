@@ -0,0 +1,71 @@
+import { useSyncExternalStore } from "react";
+import { MATERIALS, validateMaterial, type MaterialGrade } from "@/lib/thermal";
+
+const STORAGE_KEY = "heatsink-calculator.materials";
+
+// Custom materials live in local storage and are shared like the unit
+// settings, so the library page and the forms stay in step.
+const listeners = new Set<() => void>();
+let custom = load();
+let all = [...MATERIALS, ...custom];
+
+function load(): MaterialGrade[] {
+  try {
+    const saved: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? "[]"
+    );
+    if (!Array.isArray(saved)) return [];
+    return saved.filter((m: MaterialGrade) => {
+      try {
+        validateMaterial(m);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function update(next: MaterialGrade[]) {
+  custom = next;
+  all = [...MATERIALS, ...custom];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(custom));
+  } catch {
+    // Private browsing or a full quota: keep them for this session only.
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Whether a material was added by the user rather than shipped. */
+export function isCustomMaterial(id: string): boolean {
+  return custom.some((m) => m.id === id);
+}
+
+/** Saves a custom material under a fresh id; throws if it is invalid. */
+export function addCustomMaterial(
+  material: Omit<MaterialGrade, "id">
+): MaterialGrade {
+  const next = { ...material, id: `custom-${Date.now().toString(36)}` };
+  validateMaterial(next);
+  update([...custom, next]);
+  return next;
+}
+
+export function removeCustomMaterial(id: string) {
+  update(custom.filter((m) => m.id !== id));
+}
+
+/** Library materials followed by the user's own. */
+export function useMaterials(): MaterialGrade[] {
+  return useSyncExternalStore(subscribe, () => all);
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { MonteCarloResult } from "@/lib/thermal";
+import type {
+  MonteCarloMessage,
+  MonteCarloRequest,
+} from "@/workers/monte-carlo.worker";
+
+export type MonteCarloStatus = "idle" | "running" | "done" | "error";
+
+export interface MonteCarloRun {
+  status: MonteCarloStatus;
+  /** 0 to 1, by sample. */
+  progress: number;
+  result?: MonteCarloResult;
+  error?: string;
+}
+
+/** Runs the Monte Carlo study in a Web Worker, one study at a time. */
+export function useMonteCarlo() {
+  const worker = useRef<Worker>();
+  const [study, setStudy] = useState<MonteCarloRun>({
+    status: "idle",
+    progress: 0,
+  });
+
+  const cancel = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = undefined;
+    setStudy((current) =>
+      current.status === "running" ? { status: "idle", progress: 0 } : current
+    );
+  }, []);
+
+  const run = useCallback((request: MonteCarloRequest) => {
+    worker.current?.terminate();
+    const next = new Worker(
+      new URL("../workers/monte-carlo.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.current = next;
+    setStudy({ status: "running", progress: 0 });
+
+    next.onmessage = ({ data }: MessageEvent<MonteCarloMessage>) => {
+      if (data.type === "progress") {
+        setStudy({ status: "running", progress: data.fraction });
+        return;
+      }
+      setStudy(
+        data.type === "done"
+          ? { status: "done", progress: 1, result: data.result }
+          : { status: "error", progress: 0, error: data.message }
+      );
+      next.terminate();
+      if (worker.current === next) worker.current = undefined;
+    };
+    next.onerror = (event) => {
+      setStudy({ status: "error", progress: 0, error: event.message });
+      next.terminate();
+    };
+    next.postMessage(request);
+  }, []);
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  return { ...study, run, cancel };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OptimizerResult } from "@/lib/thermal";
+import type {
+  OptimizerMessage,
+  OptimizerRequest,
+} from "@/workers/optimizer.worker";
+
+export type OptimizerStatus = "idle" | "running" | "done" | "error";
+
+export interface OptimizerRun {
+  status: OptimizerStatus;
+  /** 0 to 1, by generation. */
+  progress: number;
+  result?: OptimizerResult;
+  error?: string;
+}
+
+/** Runs the heatsink optimizer in a Web Worker, one run at a time. */
+export function useOptimizer() {
+  const worker = useRef<Worker>();
+  const [run, setRun] = useState<OptimizerRun>({
+    status: "idle",
+    progress: 0,
+  });
+
+  const cancel = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = undefined;
+    setRun((current) =>
+      current.status === "running" ? { status: "idle", progress: 0 } : current
+    );
+  }, []);
+
+  const optimize = useCallback((request: OptimizerRequest) => {
+    worker.current?.terminate();
+    const next = new Worker(
+      new URL("../workers/optimizer.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.current = next;
+    setRun({ status: "running", progress: 0 });
+
+    next.onmessage = ({ data }: MessageEvent<OptimizerMessage>) => {
+      if (data.type === "progress") {
+        setRun({ status: "running", progress: data.fraction });
+        return;
+      }
+      setRun(
+        data.type === "done"
+          ? { status: "done", progress: 1, result: data.result }
+          : { status: "error", progress: 0, error: data.message }
+      );
+      next.terminate();
+      if (worker.current === next) worker.current = undefined;
+    };
+    next.onerror = (event) => {
+      setRun({ status: "error", progress: 0, error: event.message });
+      next.terminate();
+    };
+    next.postMessage(request);
+  }, []);
+
+  useEffect(() => () => worker.current?.terminate(), []);
+
+  return { ...run, optimize, cancel };
+}
@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { powerLoss, type LossInput, type PowerLoss } from "@/lib/thermal";
+
+/** Losses at a multiple of the switching frequency. */
+export interface FrequencyLoss extends PowerLoss {
+  frequency: number;
+}
+
+export interface PowerLossAnalysis {
+  loss?: PowerLoss;
+  /** The same device from a quarter to four times the frequency. */
+  sweep?: FrequencyLoss[];
+  error?: string;
+}
+
+const FREQUENCY_FACTORS = [0.25, 0.5, 1, 2, 4];
+
+export function usePowerLoss(input: LossInput): PowerLossAnalysis {
+  return useMemo(() => {
+    try {
+      return {
+        loss: powerLoss(input),
+        sweep: FREQUENCY_FACTORS.map((factor) => {
+          const frequency = input.frequency * factor;
+          return { ...powerLoss({ ...input, frequency }), frequency };
+        }),
+      };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [input]);
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import type { HeatsinkDesign } from "@/components/heatsink/types";
+import type { SensitivityResult } from "@/lib/thermal";
+import type {
+  SensitivityMessage,
+  SensitivityRequest,
+} from "@/workers/sensitivity.worker";
+
+/** Quiet time after the last edit before the study is rerun (ms). */
+const DEBOUNCE_MS = 300;
+
+/**
+ * One-at-a-time sensitivity of the hottest junction and the heatsink
+ * resistance to every input, each moved by ±`fraction` (ambient and altitude
+ * by their fixed steps), computed in a Web Worker once edits settle. The
+ * devices are those the engine sees, the LED board at its settled heat. The
+ * previous result stays up while a new one is computed; a design the model
+ * rejects gives none.
+ */
+export function useSensitivity(
+  design: HeatsinkDesign,
+  fraction: number
+): SensitivityResult | undefined {
+  const [result, setResult] = useState<SensitivityResult>();
+
+  useEffect(() => {
+    let worker: Worker | undefined;
+    const timer = setTimeout(() => {
+      const next = new Worker(
+        new URL("../workers/sensitivity.worker.ts", import.meta.url),
+        { type: "module" }
+      );
+      worker = next;
+      next.onmessage = ({ data }: MessageEvent<SensitivityMessage>) => {
+        setResult(data.type === "done" ? data.result : undefined);
+        next.terminate();
+      };
+      next.onerror = () => {
+        setResult(undefined);
+        next.terminate();
+      };
+      next.postMessage({
+        assembly: design,
+        fraction,
+      } satisfies SensitivityRequest);
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [design, fraction]);
+
+  return result;
+}
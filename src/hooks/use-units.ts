@@ -0,0 +1,62 @@
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  SYSTEM_UNITS,
+  findUnit,
+  type Quantity,
+  type Unit,
+  type UnitSystem,
+} from "@/lib/units";
+
+export interface UnitSettings {
+  system: UnitSystem;
+  /** Unit id chosen for a single field, by field id. */
+  overrides: Record<string, string>;
+}
+
+// Shared by every component, like the toast queue, so no provider is needed.
+const listeners = new Set<() => void>();
+let settings: UnitSettings = { system: "si", overrides: {} };
+
+function update(next: UnitSettings) {
+  settings = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setUnitSystem(system: UnitSystem) {
+  update({ ...settings, system });
+}
+
+/** Pins one field to a unit, or back to the system unit with `undefined`. */
+export function setFieldUnit(field: string, unit: string | undefined) {
+  const overrides = { ...settings.overrides };
+  if (unit === undefined) delete overrides[field];
+  else overrides[field] = unit;
+  update({ ...settings, overrides });
+}
+
+export function useUnits() {
+  const current = useSyncExternalStore(subscribe, () => settings);
+  /**
+   * Unit for a quantity, honouring the field's override if it has one.
+   * `metric` replaces the SI system's unit for fields that read better in
+   * another one, such as pulse widths in milliseconds.
+   */
+  const unit = useCallback(
+    (quantity: Quantity, field?: string, metric?: string): Unit =>
+      findUnit(
+        quantity,
+        (field && current.overrides[field]) ||
+          (current.system === "si" && metric) ||
+          SYSTEM_UNITS[current.system][quantity]
+      ),
+    [current]
+  );
+  return { ...current, unit };
+}
@@ -0,0 +1,22 @@
+/** Joins rows into CSV, quoting any cell that holds a comma, quote or newline. */
+export function toCsv(rows: (string | number)[][]): string {
+  const cell = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(cell).join(",")).join("\n");
+}
+
+/** Saves text as a file through a temporary download link. */
+export function downloadText(
+  filename: string,
+  text: string,
+  type = "text/csv"
+): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
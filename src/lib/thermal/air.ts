@@ -0,0 +1,126 @@
+import { KELVIN_OFFSET, STANDARD_PRESSURE } from "./constants";
+import { lookupProperties, type PropertyTable } from "./tables";
+import type { AmbientConditions } from "./types";
+
+export interface AirProperties {
+  /** Density (kg/m³). */
+  density: number;
+  /** Kinematic viscosity (m²/s). */
+  kinematicViscosity: number;
+  /** Thermal conductivity (W/(m·K)). */
+  conductivity: number;
+  /** Thermal diffusivity (m²/s). */
+  diffusivity: number;
+  /** Specific heat at constant pressure (J/(kg·K)). */
+  specificHeat: number;
+  prandtl: number;
+  /** Volumetric expansion coefficient (1/K). */
+  expansion: number;
+}
+
+/** Dry air at one standard atmosphere (Çengel, Table A-15). */
+export const DRY_AIR: PropertyTable<Exclude<keyof AirProperties, "expansion">> =
+  {
+    temperatures: [
+      -50, -20, 0, 10, 20, 25, 30, 40, 50, 60, 70, 80, 90, 100, 120, 140, 160,
+      180, 200,
+    ],
+    columns: {
+      density: [
+        1.582, 1.394, 1.292, 1.246, 1.204, 1.184, 1.164, 1.127, 1.092, 1.059,
+        1.028, 0.9994, 0.9718, 0.9458, 0.8977, 0.8542, 0.8148, 0.7788, 0.7459,
+      ],
+      specificHeat: [
+        999, 1005, 1006, 1006, 1007, 1007, 1007, 1007, 1007, 1007, 1007, 1008,
+        1008, 1009, 1011, 1013, 1016, 1019, 1023,
+      ],
+      conductivity: [
+        0.01979, 0.02211, 0.02364, 0.02439, 0.02514, 0.02551, 0.02588,
+        0.02662, 0.02735, 0.02808, 0.02881, 0.02953, 0.03024, 0.03095,
+        0.03235, 0.03374, 0.03511, 0.03646, 0.03779,
+      ],
+      diffusivity: [
+        1.252e-5, 1.578e-5, 1.818e-5, 1.944e-5, 2.074e-5, 2.141e-5, 2.208e-5,
+        2.346e-5, 2.487e-5, 2.632e-5, 2.78e-5, 2.931e-5, 3.086e-5, 3.243e-5,
+        3.565e-5, 3.898e-5, 4.241e-5, 4.593e-5, 4.954e-5,
+      ],
+      kinematicViscosity: [
+        9.319e-6, 1.169e-5, 1.338e-5, 1.426e-5, 1.516e-5, 1.562e-5, 1.608e-5,
+        1.702e-5, 1.798e-5, 1.896e-5, 1.995e-5, 2.097e-5, 2.201e-5, 2.306e-5,
+        2.522e-5, 2.745e-5, 2.975e-5, 3.212e-5, 3.455e-5,
+      ],
+      prandtl: [
+        0.744, 0.7408, 0.7362, 0.7336, 0.7309, 0.7296, 0.7282, 0.7255, 0.7228,
+        0.7202, 0.7177, 0.7154, 0.7132, 0.7111, 0.7073, 0.7041, 0.7014,
+        0.6992, 0.6974,
+      ],
+    },
+  };
+
+/**
+ * Dry air at a temperature (°C) and pressure, interpolated in the table and
+ * held at its end values outside -50 to 200 °C. As an ideal gas the
+ * expansion coefficient is 1/T.
+ */
+export function airProperties(
+  temperature: number,
+  pressure = STANDARD_PRESSURE
+): AirProperties {
+  return atPressure(
+    {
+      ...lookupProperties(DRY_AIR, temperature),
+      expansion: 1 / (temperature + KELVIN_OFFSET),
+    },
+    pressure
+  );
+}
+
+/** Dry air at 25 °C and one standard atmosphere. */
+export const AIR_25C: AirProperties = airProperties(25);
+
+/**
+ * The same air at another pressure. As an ideal gas its density scales with
+ * pressure, so the kinematic viscosity and diffusivity scale inversely, while
+ * conductivity, specific heat, Prandtl number and expansion do not change.
+ */
+export function atPressure(air: AirProperties, pressure: number): AirProperties {
+  if (!(pressure > 0)) throw new RangeError("Pressure must be positive");
+  const ratio = pressure / STANDARD_PRESSURE;
+  return {
+    ...air,
+    density: air.density * ratio,
+    kinematicViscosity: air.kinematicViscosity / ratio,
+    diffusivity: air.diffusivity / ratio,
+  };
+}
+
+/** Air at the ambient temperature and pressure, sea level when none is given. */
+export function ambientAir(ambient: AmbientConditions): AirProperties {
+  return airProperties(ambient.temperature, ambient.pressure);
+}
+
+/**
+ * Air at the film temperature, midway between a surface and the air it
+ * sheds heat to.
+ */
+export function filmAir(
+  ambient: AmbientConditions,
+  surfaceTemperature: number,
+  fluidTemperature = ambient.temperature
+): AirProperties {
+  return airProperties(
+    (surfaceTemperature + fluidTemperature) / 2,
+    ambient.pressure
+  );
+}
+
+/**
+ * Static pressure of the ISA troposphere at a geometric altitude up to
+ * 11 km (Pa).
+ */
+export function pressureAtAltitude(altitude: number): number {
+  if (!(altitude >= -500 && altitude <= 11000)) {
+    throw new RangeError("Altitude must be between -500 m and 11 000 m");
+  }
+  return STANDARD_PRESSURE * (1 - 2.25577e-5 * altitude) ** 5.25588;
+}
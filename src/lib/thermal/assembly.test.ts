@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  assemblyDerating,
+  assemblySensitivity,
+  type HeatsinkAssembly,
+} from "./assembly";
+import { AMBIENT_STEP } from "./sensitivity";
+import type { MountedDevice } from "./types";
+
+const DEVICE: MountedDevice = {
+  id: "q1",
+  name: "Q1",
+  power: 10,
+  width: 0.01,
+  length: 0.015,
+  x: 0.03,
+  y: 0.05,
+  junctionToCase: 0.5,
+  caseToSink: 0.3,
+  maxJunctionTemperature: 125,
+};
+
+const ASSEMBLY: HeatsinkAssembly = {
+  mode: "natural",
+  geometry: {
+    kind: "plate-fin",
+    baseWidth: 0.1,
+    baseLength: 0.1,
+    baseThickness: 0.005,
+    finHeight: 0.03,
+    finThickness: 0.0015,
+    finCount: 10,
+  },
+  material: { name: "Aluminium", conductivity: 200 },
+  finish: "black-anodized",
+  orientation: "vertical",
+  tiltAngle: 0,
+  ambientTemperature: 25,
+  altitude: 0,
+  arrangement: "ducted",
+  ductArea: 0.006,
+  fanCurve: [],
+  devices: [DEVICE, { ...DEVICE, id: "q2", name: "Q2", x: 0.07 }],
+  includeSpreading: true,
+};
+
+describe("assemblyDerating", () => {
+  const curve = assemblyDerating(ASSEMBLY);
+
+  it("allows less power as the air thins", () => {
+    expect(curve[0].maxPower).toBeGreaterThan(0);
+    for (let i = 1; i < curve.length; i++) {
+      expect(curve[i].maxPower).toBeLessThan(curve[i - 1].maxPower);
+    }
+  });
+
+  it("shares the power equally between devices that dissipate nothing", () => {
+    const idle = {
+      ...ASSEMBLY,
+      devices: ASSEMBLY.devices.map((d) => ({ ...d, power: 0 })),
+    };
+    assemblyDerating(idle).forEach((point, i) => {
+      expect(Number.isFinite(point.maxPower)).toBe(true);
+      expect(point.maxPower).toBeCloseTo(curve[i].maxPower, 6);
+    });
+  });
+
+  it("needs a device", () => {
+    expect(() => assemblyDerating({ ...ASSEMBLY, devices: [] })).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe("assemblySensitivity", () => {
+  const { base, entries } = assemblySensitivity(ASSEMBLY, 0.1);
+  const entry = (id: string) => entries.find((e) => e.id === id)!;
+
+  it("moves ambient by its fixed step whatever the fraction", () => {
+    const ambient = entry("ambientTemperature");
+    expect(ambient.step).toBe(AMBIENT_STEP);
+    expect(ambient.highValue - ambient.baseValue).toBe(AMBIENT_STEP);
+    expect(entry("power").step).toBeUndefined();
+  });
+
+  it("heats the junctions with more power", () => {
+    const power = entry("power");
+    expect(power.highValue).toBeCloseTo(22, 9);
+    expect(power.high.junctionTemperature).toBeGreaterThan(
+      base.junctionTemperature
+    );
+    expect(power.low.junctionTemperature).toBeLessThan(
+      base.junctionTemperature
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import { pressureAtAltitude } from "./air";
+import {
+  altitudeSteps,
+  deratingCurve,
+  maxAllowablePower,
+  type DeratingPoint,
+} from "./derating";
+import {
+  solveElectroThermal,
+  stabilityCurve,
+  type ElectroThermalResult,
+  type StabilityPoint,
+  type TemperatureLoss,
+  type ThermalPath,
+} from "./electro-thermal";
+import { solveForcedConvection } from "./forced-convection";
+import { materialConductivity } from "./materials";
+import {
+  solveMultiSource,
+  totalDevicePower,
+  type MultiSourceResult,
+} from "./multi-source";
+import { solveNaturalConvection } from "./natural-convection";
+import { surfaceEmissivity, type SurfaceFinishId } from "./radiation";
+import {
+  sensitivityAnalysis,
+  sensitivityParameters,
+  type SensitivityResult,
+} from "./sensitivity";
+import type {
+  FanCurvePoint,
+  FlowArrangement,
+  ForcedConvectionInput,
+  ForcedConvectionResult,
+  HeatsinkGeometry,
+  HeatsinkMaterial,
+  HeatsinkOrientation,
+  MountedDevice,
+  NaturalConvectionInput,
+  NaturalConvectionResult,
+} from "./types";
+
+export type CoolingMode = "natural" | "forced";
+
+/**
+ * A heatsink in its surroundings with the devices mounted on it: everything
+ * a steady-state solve from junction to ambient needs, in SI units.
+ */
+export interface HeatsinkAssembly {
+  mode: CoolingMode;
+  geometry: HeatsinkGeometry;
+  material: HeatsinkMaterial;
+  finish: SurfaceFinishId;
+  orientation: HeatsinkOrientation;
+  /** Degrees from vertical for a tilted heatsink, positive with fins up. */
+  tiltAngle: number;
+  ambientTemperature: number;
+  /** Site altitude, which sets the ambient pressure (m). */
+  altitude: number;
+  arrangement: FlowArrangement;
+  ductArea: number;
+  fanCurve: FanCurvePoint[];
+  /** Devices on the baseplate; their powers add up to the heat load. */
+  devices: MountedDevice[];
+  includeSpreading: boolean;
+}
+
+/** Convection input for the assembly at the given ambient pressure. */
+export function convectionInput(
+  assembly: HeatsinkAssembly,
+  pressure: number
+): NaturalConvectionInput & ForcedConvectionInput {
+  return {
+    geometry: assembly.geometry,
+    material: assembly.material,
+    ambient: { temperature: assembly.ambientTemperature, pressure },
+    power: totalDevicePower(assembly.devices),
+    emissivity: surfaceEmissivity(assembly.finish, assembly.material),
+    orientation: assembly.orientation,
+    tiltAngle: assembly.tiltAngle,
+    arrangement: assembly.arrangement,
+    ductArea: assembly.ductArea,
+    fanCurve: assembly.fanCurve,
+  };
+}
+
+export function solveHeatsink(
+  assembly: HeatsinkAssembly,
+  input: NaturalConvectionInput & ForcedConvectionInput
+): NaturalConvectionResult | ForcedConvectionResult {
+  return assembly.mode === "forced"
+    ? solveForcedConvection(input)
+    : solveNaturalConvection(input);
+}
+
+export function deviceResults(
+  assembly: HeatsinkAssembly,
+  heatsink: NaturalConvectionResult | ForcedConvectionResult
+): MultiSourceResult {
+  return solveMultiSource({
+    base: assembly.geometry,
+    conductivity: materialConductivity(
+      assembly.material,
+      heatsink.baseTemperature
+    ),
+    ambientTemperature: assembly.ambientTemperature,
+    heatsink,
+    devices: assembly.devices,
+    includeSpreading: assembly.includeSpreading,
+  });
+}
+
+/**
+ * Largest total power, shared between the devices in their current
+ * proportions, that keeps every junction within its limit, from sea level to
+ * 5000 m. Devices that dissipate nothing yet share it equally.
+ */
+export function assemblyDerating(assembly: HeatsinkAssembly): DeratingPoint[] {
+  const { devices } = assembly;
+  if (devices.length === 0) {
+    throw new RangeError("Derating needs at least one device");
+  }
+  const total = totalDevicePower(devices);
+  const share = (device: MountedDevice) =>
+    total > 0 ? device.power / total : 1 / devices.length;
+  const scaled = (power: number): HeatsinkAssembly => ({
+    ...assembly,
+    devices: devices.map((d) => ({ ...d, power: share(d) * power })),
+  });
+  return deratingCurve(altitudeSteps(), (pressure) =>
+    maxAllowablePower((power) => {
+      const at = scaled(power);
+      const heatsink = solveHeatsink(at, convectionInput(at, pressure));
+      return Math.min(
+        ...deviceResults(at, heatsink).devices.map((d) => d.margin)
+      );
+    }, total)
+  );
+}
+
+/**
+ * One-at-a-time sensitivity of the hottest junction and the heatsink
+ * resistance to every input of the assembly, each moved by ±`fraction`
+ * (ambient and altitude by their fixed steps).
+ */
+export function assemblySensitivity(
+  assembly: HeatsinkAssembly,
+  fraction: number
+): SensitivityResult {
+  return sensitivityAnalysis(
+    assembly,
+    sensitivityParameters(assembly),
+    fraction,
+    (at) => {
+      const heatsink = solveHeatsink(
+        at,
+        convectionInput(at, pressureAtAltitude(at.altitude))
+      );
+      const { devices } = deviceResults(at, heatsink);
+      return {
+        junctionTemperature: Math.max(
+          ...devices.map((d) => d.stack.junctionTemperature)
+        ),
+        resistance: heatsink.baseResistance + heatsink.convectiveResistance,
+      };
+    }
+  );
+}
+
+/**
+ * Junction temperature of one device against its power, the others keeping
+ * theirs, at the assembly's altitude.
+ */
+export function deviceThermalPath(
+  assembly: HeatsinkAssembly,
+  index: number
+): ThermalPath {
+  const pressure = pressureAtAltitude(assembly.altitude);
+  return (power) => {
+    const at: HeatsinkAssembly = {
+      ...assembly,
+      devices: assembly.devices.map((d, i) =>
+        // The convection solvers need some heat to work with.
+        i === index ? { ...d, power: Math.max(power, 1e-6) } : d
+      ),
+    };
+    const heatsink = solveHeatsink(at, convectionInput(at, pressure));
+    return deviceResults(at, heatsink).devices[index].stack.junctionTemperature;
+  };
+}
+
+export interface DeviceElectroThermal {
+  result: ElectroThermalResult;
+  curve: StabilityPoint[];
+}
+
+/**
+ * One device's temperature-dependent loss solved together with the heatsink,
+ * with its stability curve to 50 K past the hotter of its limit and the
+ * operating point.
+ */
+export function deviceElectroThermal(
+  assembly: HeatsinkAssembly,
+  index: number,
+  loss: TemperatureLoss
+): DeviceElectroThermal {
+  const path = deviceThermalPath(assembly, index);
+  const result = solveElectroThermal(loss, path, assembly.ambientTemperature);
+  const top = Math.min(
+    400,
+    Math.max(
+      assembly.devices[index].maxJunctionTemperature,
+      result.temperature
+    ) + 50
+  );
+  return {
+    result,
+    curve: stabilityCurve(loss, path, assembly.ambientTemperature, top),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { axisFaces, solveConduction, type ConductionInput } from "./conduction";
+import type { PlateFinGeometry } from "./types";
+
+const PLATE: PlateFinGeometry = {
+  kind: "plate-fin",
+  baseWidth: 0.05,
+  baseLength: 0.05,
+  baseThickness: 0.005,
+  finHeight: 0.02,
+  finThickness: 0.002,
+  finCount: 5,
+};
+
+const input = (patch: Partial<ConductionInput> = {}): ConductionInput => ({
+  model: "plate",
+  geometry: PLATE,
+  conductivity: 200,
+  sources: [{ width: 0.05, length: 0.05, x: 0.025, y: 0.025, power: 10 }],
+  sinkCoefficient: 100,
+  fluidTemperature: 25,
+  cellSize: 0.005,
+  ...patch,
+});
+
+describe("axisFaces", () => {
+  it("keeps every break and no cell wider than the cell size", () => {
+    const faces = Array.from(axisFaces(0.01, [0.0033, 0.007], 0.002));
+    expect(faces[0]).toBe(0);
+    expect(faces[faces.length - 1]).toBeCloseTo(0.01, 15);
+    for (const b of [0.0033, 0.007]) {
+      expect(faces.some((f) => Math.abs(f - b) < 1e-12)).toBe(true);
+    }
+    for (let i = 1; i < faces.length; i++) {
+      expect(faces[i] - faces[i - 1]).toBeLessThanOrEqual(0.002 + 1e-12);
+    }
+  });
+});
+
+describe("solveConduction", () => {
+  it("matches one-dimensional conduction under a source covering the base", () => {
+    const result = solveConduction(input());
+    const area = 0.05 * 0.05;
+    // Film plus the base thickness, less the quarter-thickness between the
+    // mounting face and the centres of the bottom cells.
+    const expected = 25 + 10 / (100 * area) + (10 * 0.00375) / (200 * area);
+    expect(result.converged).toBe(true);
+    expect(result.dissipated).toBeCloseTo(10, 4);
+    expect(result.sourceTemperatures[0]).toBeCloseTo(expected, 2);
+  });
+
+  it("carries all the heat away through the fins of the solid model", () => {
+    const result = solveConduction(
+      input({
+        model: "solid",
+        sources: [{ width: 0.02, length: 0.02, x: 0.02, y: 0.03, power: 5 }],
+      })
+    );
+    expect(result.converged).toBe(true);
+    expect(result.dissipated).toBeCloseTo(5, 3);
+    expect(result.field.max).toBeGreaterThan(result.field.min);
+    expect(result.sourceTemperatures[0]).toBeLessThanOrEqual(result.field.max);
+  });
+
+  it("needs a heat source", () => {
+    expect(() => solveConduction(input({ sources: [] }))).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,368 @@
+import {
+  channelSpacing,
+  segmentCount,
+  segmentLength,
+  tipThickness,
+} from "./plate-fin";
+import { longitudinalPitch, pinFootprint, transversePitch } from "./pin-fin";
+import { buildCsrMatrix, conjugateGradient, type MatrixEntry } from "./sparse";
+import { validateHeatSource } from "./spreading";
+import type { HeatSource, HeatsinkGeometry } from "./types";
+
+/**
+ * `plate` solves only the baseplate, with the finned side replaced by a
+ * uniform film coefficient; `solid` meshes the base and every fin and applies
+ * the film coefficient on each wetted face.
+ */
+export type ConductionModel = "plate" | "solid";
+
+export interface ConductionSource extends HeatSource {
+  power: number;
+}
+
+export interface ConductionInput {
+  model: ConductionModel;
+  geometry: HeatsinkGeometry;
+  conductivity: number;
+  /** Applied to the mounting face over each footprint. */
+  sources: ConductionSource[];
+  /**
+   * Film coefficient on the cooled faces (W/(m²·K)): the finned side of the
+   * base for `plate`, every wetted face for `solid`.
+   */
+  sinkCoefficient: number;
+  /** Temperature of the air the film coefficient refers to (°C). */
+  fluidTemperature: number;
+  /** Largest cell edge; fin, cut and footprint edges are always meshed (m). */
+  cellSize?: number;
+  tolerance?: number;
+  maxIterations?: number;
+}
+
+/**
+ * Cell-centred temperatures on a rectilinear grid. Cell (i, j, k) lies
+ * between x[i] and x[i+1] and so on, and is stored at i + nx·(j + ny·k).
+ * Cells outside the metal hold NaN.
+ */
+export interface TemperatureField {
+  nx: number;
+  ny: number;
+  nz: number;
+  /** Cell face coordinates along the base width, length and height (m). */
+  x: Float64Array;
+  y: Float64Array;
+  z: Float64Array;
+  temperatures: Float32Array;
+  min: number;
+  max: number;
+}
+
+export interface ConductionResult {
+  field: TemperatureField;
+  /** Mean temperature over each source footprint (°C). */
+  sourceTemperatures: number[];
+  /** Heat leaving through the cooled faces; should equal the input (W). */
+  dissipated: number;
+  cellCount: number;
+  iterations: number;
+  residual: number;
+  converged: boolean;
+}
+
+export type ConductionProgress = (fraction: number, residual: number) => void;
+
+const DEFAULT_CELL_SIZE = 0.002;
+const MIN_GAP = 1e-9;
+/** Axis and step to each of a cell's six neighbours. */
+const DIRECTIONS: [number, number][] = [
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [2, 1],
+  [2, -1],
+];
+
+/**
+ * Face coordinates from 0 to `length` that include every break and split
+ * each interval into cells no larger than `cellSize`.
+ */
+export function axisFaces(
+  length: number,
+  breaks: number[],
+  cellSize: number
+): Float64Array {
+  const points = [0, length, ...breaks.filter((b) => b > 0 && b < length)]
+    .sort((a, b) => a - b)
+    .filter((p, i, all) => i === 0 || p - all[i - 1] > MIN_GAP);
+  const faces = [0];
+  for (let i = 1; i < points.length; i++) {
+    const span = points[i] - points[i - 1];
+    const cells = Math.max(1, Math.ceil(span / cellSize - 1e-9));
+    for (let c = 1; c <= cells; c++) {
+      faces.push(points[i - 1] + (span * c) / cells);
+    }
+  }
+  return Float64Array.from(faces);
+}
+
+/** Occupied [start, end] intervals of fins or pins along one axis. */
+function finIntervals(geometry: HeatsinkGeometry): {
+  x: [number, number][];
+  /** Per row for pins; a single list shared by all fins otherwise. */
+  y: [number, number][];
+  /** Staggered pin rows shift their columns by half a pitch. */
+  stagger: number;
+  /**
+   * How far each side of a tapered fin has drawn in at a height above the
+   * base (m). Flared fins are meshed upright; the lean only matters to the
+   * air.
+   */
+  inset: (rise: number) => number;
+} {
+  if (geometry.kind === "pin-fin") {
+    const side = Math.sqrt(pinFootprint(geometry));
+    const pt = transversePitch(geometry);
+    const pl = longitudinalPitch(geometry);
+    const around = (centre: number): [number, number] => [
+      centre - side / 2,
+      centre + side / 2,
+    ];
+    return {
+      x: Array.from({ length: geometry.columns }, (_, c) =>
+        around((c + 0.5) * pt)
+      ),
+      y: Array.from({ length: geometry.rows }, (_, r) =>
+        around((r + 0.5) * pl)
+      ),
+      stagger: geometry.layout === "staggered" ? pt / 2 : 0,
+      inset: () => 0,
+    };
+  }
+  const pitch = geometry.finThickness + channelSpacing(geometry);
+  const segment = segmentLength(geometry);
+  const cut = geometry.kind === "cross-cut" ? geometry.cutWidth : 0;
+  const narrowing = (geometry.finThickness - tipThickness(geometry)) / 2;
+  return {
+    x: Array.from({ length: geometry.finCount }, (_, i) => [
+      i * pitch,
+      i * pitch + geometry.finThickness,
+    ]),
+    y: Array.from({ length: segmentCount(geometry) }, (_, j) => [
+      j * (segment + cut),
+      j * (segment + cut) + segment,
+    ]),
+    stagger: 0,
+    inset: (rise) => (narrowing * rise) / geometry.finHeight,
+  };
+}
+
+function inside(
+  intervals: [number, number][],
+  value: number,
+  inset = 0
+): number {
+  return intervals.findIndex(
+    ([start, end]) => value > start + inset && value < end - inset
+  );
+}
+
+function overlap(a0: number, a1: number, b0: number, b1: number): number {
+  return Math.max(0, Math.min(a1, b1) - Math.max(a0, b0));
+}
+
+/** Area of a source footprint over the mounting face of column (i, j). */
+function footprintOverlap(
+  source: HeatSource,
+  x: Float64Array,
+  y: Float64Array,
+  i: number,
+  j: number
+): number {
+  const { width, length } = source;
+  return (
+    overlap(x[i], x[i + 1], source.x - width / 2, source.x + width / 2) *
+    overlap(y[j], y[j + 1], source.y - length / 2, source.y + length / 2)
+  );
+}
+
+/**
+ * Steady conduction in the heatsink solid by the finite-volume method on a
+ * rectilinear grid. Neighbouring metal cells are joined by k·A/d, and cooled
+ * faces by the film coefficient in series with half a cell of conduction.
+ * The mounting face is adiabatic apart from the source heat flux.
+ */
+export function solveConduction(
+  input: ConductionInput,
+  onProgress?: ConductionProgress
+): ConductionResult {
+  const { geometry, conductivity: k, sinkCoefficient: h } = input;
+  if (!(k > 0 && h > 0)) {
+    throw new RangeError("Conductivity and film coefficient must be positive");
+  }
+  if (input.sources.length === 0) {
+    throw new RangeError("At least one heat source is needed");
+  }
+  for (const source of input.sources) validateHeatSource(geometry, source);
+
+  const solid = input.model === "solid";
+  const cellSize = input.cellSize ?? DEFAULT_CELL_SIZE;
+  const fins = finIntervals(geometry);
+  const { baseWidth, baseLength, baseThickness, finHeight } = geometry;
+  const height = baseThickness + (solid ? finHeight : 0);
+  const sourceEdges = (axis: "x" | "y", size: "width" | "length") =>
+    input.sources.flatMap((s) => [
+      s[axis] - s[size] / 2,
+      s[axis] + s[size] / 2,
+    ]);
+
+  const xBreaks = [...sourceEdges("x", "width")];
+  const yBreaks = [...sourceEdges("y", "length")];
+  if (solid) {
+    const xs = fins.x.flat();
+    const tip = fins.inset(finHeight);
+    xBreaks.push(...xs, ...xs.map((v) => v + fins.stagger));
+    // Tapered fins also get their tip edges. A triangular fin ends on its
+    // centreline, which is better left inside a middle cell so the spine
+    // reaches the full height.
+    for (const [start, end] of fins.x) {
+      if (tip > 0 && end - start - 2 * tip > MIN_GAP) {
+        xBreaks.push(start + tip, end - tip);
+      }
+    }
+    yBreaks.push(...fins.y.flat());
+  }
+  const x = axisFaces(baseWidth, xBreaks, cellSize);
+  const y = axisFaces(baseLength, yBreaks, cellSize);
+  const z = axisFaces(height, [baseThickness], Math.min(cellSize, height / 2));
+  const nx = x.length - 1;
+  const ny = y.length - 1;
+  const nz = z.length - 1;
+  const cells = nx * ny * nz;
+  const cell = (i: number, j: number, l: number) => i + nx * (j + ny * l);
+
+  const isMetal = (i: number, j: number, l: number) => {
+    const zc = (z[l] + z[l + 1]) / 2;
+    if (zc < baseThickness) return true;
+    const xc = (x[i] + x[i + 1]) / 2;
+    const row = inside(fins.y, (y[j] + y[j + 1]) / 2);
+    if (row < 0) return false;
+    const rise = zc - baseThickness;
+    return inside(fins.x, xc - (row % 2) * fins.stagger, fins.inset(rise)) >= 0;
+  };
+
+  const unknown = new Int32Array(cells).fill(-1);
+  let count = 0;
+  for (let l = 0; l < nz; l++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        if (isMetal(i, j, l)) unknown[cell(i, j, l)] = count++;
+      }
+    }
+  }
+
+  const entries: MatrixEntry[] = [];
+  const rhs = new Float64Array(count);
+  // Conductance of each cooled face, kept to add up the heat leaving.
+  const cooled: [number, number][] = [];
+  const conduct = (a: number, b: number, area: number, distance: number) => {
+    const g = (k * area) / distance;
+    entries.push([a, a, g], [b, b, g], [a, b, -g], [b, a, -g]);
+  };
+  const cool = (a: number, area: number, half: number) => {
+    const g = 1 / (1 / (h * area) + half / (k * area));
+    entries.push([a, a, g]);
+    cooled.push([a, g]);
+  };
+
+  const faces = [x, y, z];
+  for (let l = 0; l < nz; l++) {
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const me = unknown[cell(i, j, l)];
+        if (me < 0) continue;
+        const index = [i, j, l];
+        const size = faces.map(
+          (f, axis) => f[index[axis] + 1] - f[index[axis]]
+        );
+        const volume = size[0] * size[1] * size[2];
+
+        for (const [axis, step] of DIRECTIONS) {
+          const next = [...index];
+          next[axis] += step;
+          const area = volume / size[axis];
+          if (next[axis] < 0 || next[axis] >= [nx, ny, nz][axis]) {
+            // The mounting face only takes the source flux, and the plate
+            // model keeps adiabatic edges like the spreading solution.
+            if (axis === 2 ? step < 0 : !solid) continue;
+            cool(me, area, size[axis] / 2);
+            continue;
+          }
+          const other = unknown[cell(next[0], next[1], next[2])];
+          if (other < 0) {
+            cool(me, area, size[axis] / 2);
+          } else if (other > me) {
+            const f = faces[axis];
+            const beside = f[next[axis] + 1] - f[next[axis]];
+            conduct(me, other, area, (size[axis] + beside) / 2);
+          }
+        }
+
+        if (l === 0) {
+          for (const s of input.sources) {
+            rhs[me] +=
+              (s.power * footprintOverlap(s, x, y, i, j)) /
+              (s.width * s.length);
+          }
+        }
+      }
+    }
+  }
+
+  const tolerance = input.tolerance ?? 1e-8;
+  const logTolerance = Math.log(tolerance);
+  const { solution, iterations, residual, converged } = conjugateGradient(
+    buildCsrMatrix(count, entries),
+    rhs,
+    {
+      tolerance,
+      maxIterations: input.maxIterations,
+      onIteration: onProgress
+        ? (_, r) =>
+            onProgress(Math.min(1, Math.max(0, Math.log(r) / logTolerance)), r)
+        : undefined,
+    }
+  );
+
+  const temperatures = new Float32Array(cells).fill(NaN);
+  let min = Infinity;
+  let max = -Infinity;
+  unknown.forEach((u, c) => {
+    if (u < 0) return;
+    const t = input.fluidTemperature + solution[u];
+    temperatures[c] = t;
+    min = Math.min(min, t);
+    max = Math.max(max, t);
+  });
+
+  const sourceTemperatures = input.sources.map((s) => {
+    let sum = 0;
+    for (let j = 0; j < ny; j++) {
+      for (let i = 0; i < nx; i++) {
+        const area = footprintOverlap(s, x, y, i, j);
+        if (area > 0) sum += area * temperatures[cell(i, j, 0)];
+      }
+    }
+    return sum / (s.width * s.length);
+  });
+
+  return {
+    field: { nx, ny, nz, x, y, z, temperatures, min, max },
+    sourceTemperatures,
+    dissipated: cooled.reduce((sum, [u, g]) => sum + g * solution[u], 0),
+    cellCount: count,
+    iterations,
+    residual,
+    converged,
+  };
+}
@@ -0,0 +1,10 @@
+/** Standard gravity (m/s²). */
+export const GRAVITY = 9.80665;
+
+/** Stefan–Boltzmann constant (W/(m²·K⁴)). */
+export const STEFAN_BOLTZMANN = 5.670374419e-8;
+
+export const KELVIN_OFFSET = 273.15;
+
+/** One standard atmosphere (Pa). */
+export const STANDARD_PRESSURE = 101325;
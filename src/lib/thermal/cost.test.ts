@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  MACHINE_RATE,
+  PROCESS_COSTS,
+  costCurve,
+  estimateCost,
+  type ProcessCost,
+} from "./cost";
+import { envelopeVolume, solidVolume, wettedArea } from "./geometry";
+import type { HeatsinkMaterial, PlateFinGeometry } from "./types";
+
+const PLATE: PlateFinGeometry = {
+  kind: "plate-fin",
+  baseWidth: 0.1,
+  baseLength: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  finThickness: 0.0015,
+  finCount: 10,
+};
+
+const ALUMINIUM: HeatsinkMaterial = {
+  name: "Aluminium",
+  conductivity: 200,
+  density: 2700,
+  costPerKg: 4,
+};
+
+const PROCESS: ProcessCost = {
+  process: "extruded",
+  tooling: 1000,
+  materialYield: 0.5,
+  perKg: 2,
+  perPart: 1,
+  perFin: 0.1,
+  minutes: 2,
+};
+
+const OPTIONS = { annualVolume: 100, mountingHoles: 2, flyCutBase: true };
+
+describe("estimateCost", () => {
+  it("adds up a hand-costed part", () => {
+    const cost = estimateCost(
+      PLATE,
+      ALUMINIUM,
+      PROCESS,
+      "machined-aluminium",
+      OPTIONS
+    );
+    const mass = solidVolume(PLATE) * 2700;
+    const bought = mass / 0.5;
+    expect(cost.mass).toBeCloseTo(mass, 12);
+    expect(cost.material).toBeCloseTo(bought * 4, 12);
+    expect(cost.processing).toBeCloseTo(
+      bought * 2 + 1 + 10 * 0.1 + 2 * MACHINE_RATE,
+      12
+    );
+    expect(cost.tooling).toBe(10);
+    // Two holes at 0.25 and two minutes of fly-cutting.
+    expect(cost.machining).toBeCloseTo(0.5 + 2 * MACHINE_RATE, 12);
+    expect(cost.finish).toBe(0);
+    expect(cost.total).toBeCloseTo(
+      cost.material + cost.processing + cost.tooling + cost.machining,
+      12
+    );
+  });
+
+  it("prices anodizing by wetted area", () => {
+    const cost = estimateCost(
+      PLATE,
+      ALUMINIUM,
+      PROCESS,
+      "black-anodized",
+      OPTIONS
+    );
+    expect(cost.finish).toBeCloseTo(wettedArea(PLATE) * 20 + 0.3, 12);
+  });
+
+  it("buys the whole envelope for a part cut from solid", () => {
+    const machined: ProcessCost = { ...PROCESS, removalRate: 1e-5 };
+    const cost = estimateCost(
+      PLATE,
+      ALUMINIUM,
+      machined,
+      "machined-aluminium",
+      OPTIONS
+    );
+    const bought = envelopeVolume(PLATE) * 2700;
+    const removed = envelopeVolume(PLATE) - solidVolume(PLATE);
+    expect(cost.material).toBeCloseTo(bought * 4, 12);
+    expect(cost.processing).toBeCloseTo(
+      bought * 2 + 1 + 10 * 0.1 + (2 + removed / 1e-5) * MACHINE_RATE,
+      12
+    );
+  });
+
+  it("gives NaN for a material without a price", () => {
+    const { costPerKg: _, ...unpriced } = ALUMINIUM;
+    const cost = estimateCost(
+      PLATE,
+      unpriced,
+      PROCESS,
+      "machined-aluminium",
+      OPTIONS
+    );
+    expect(cost.material).toBeNaN();
+    expect(cost.total).toBeNaN();
+    expect(cost.mass).toBeGreaterThan(0);
+  });
+
+  it("needs at least one part a year", () => {
+    expect(() =>
+      estimateCost(PLATE, ALUMINIUM, PROCESS, "painted", {
+        ...OPTIONS,
+        annualVolume: 0,
+      })
+    ).toThrow(RangeError);
+  });
+});
+
+describe("costCurve", () => {
+  const curve = costCurve(PLATE, ALUMINIUM, "black-anodized", {
+    mountingHoles: 0,
+    flyCutBase: false,
+  });
+
+  it("spans the volumes logarithmically", () => {
+    expect(curve).toHaveLength(26);
+    expect(curve[0].annualVolume).toBeCloseTo(10, 9);
+    expect(curve[25].annualVolume).toBeCloseTo(1e6, 3);
+    expect(curve[5].annualVolume).toBeCloseTo(100, 9);
+  });
+
+  it("costs every process less as its tooling is shared out", () => {
+    for (const { process } of PROCESS_COSTS) {
+      for (let i = 1; i < curve.length; i++) {
+        expect(curve[i].costs[process]).toBeLessThanOrEqual(
+          curve[i - 1].costs[process]
+        );
+      }
+    }
+  });
+});
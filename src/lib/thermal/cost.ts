@@ -0,0 +1,227 @@
+import { envelopeVolume, solidVolume, wettedArea } from "./geometry";
+import type { ManufacturingProcessId } from "./manufacturing";
+import { pinCount } from "./pin-fin";
+import type { SurfaceFinishId } from "./radiation";
+import type { HeatsinkGeometry, HeatsinkMaterial } from "./types";
+
+/** Price structure of a process; money in USD. */
+export interface ProcessCost {
+  process: ManufacturingProcessId;
+  /** Dies, moulds or fixtures, paid once and spread over the volume. */
+  tooling: number;
+  /** Fraction of the bought metal that ends up in the part. */
+  materialYield: number;
+  /** Turning metal into the raw shape, e.g. the extrusion premium (USD/kg). */
+  perKg: number;
+  /** Handling, cutting to length and inspection. */
+  perPart: number;
+  /** Forming each fin or pin, such as a skiving stroke or a bonded fin. */
+  perFin: number;
+  /** Machine time per part (min). */
+  minutes: number;
+  /**
+   * Metal removal rate for parts cut from solid (m³/min). The metal is then
+   * bought as a block the size of the envelope and cut away.
+   */
+  removalRate?: number;
+}
+
+/** Shop rate for machine time (USD/min). */
+export const MACHINE_RATE = 1.5;
+
+// Rough quotes for mid-sized aluminium heatsinks in 2024 dollars; good for
+// comparing processes, not for a purchase order.
+export const PROCESS_COSTS: ProcessCost[] = [
+  {
+    process: "extruded",
+    tooling: 1500,
+    materialYield: 0.85,
+    perKg: 1.5,
+    perPart: 0.8,
+    perFin: 0,
+    minutes: 0.5,
+  },
+  {
+    process: "skived",
+    tooling: 800,
+    materialYield: 0.95,
+    perKg: 1.5,
+    perPart: 1.5,
+    perFin: 0.1,
+    minutes: 0,
+  },
+  {
+    process: "bonded-fin",
+    tooling: 2500,
+    materialYield: 0.9,
+    perKg: 1.5,
+    perPart: 3,
+    perFin: 0.2,
+    minutes: 0,
+  },
+  {
+    process: "die-cast",
+    tooling: 20000,
+    materialYield: 0.92,
+    perKg: 1,
+    perPart: 0.8,
+    perFin: 0,
+    minutes: 0.5,
+  },
+  {
+    process: "forged",
+    tooling: 10000,
+    materialYield: 0.95,
+    perKg: 2,
+    perPart: 1.2,
+    perFin: 0,
+    minutes: 0.3,
+  },
+  {
+    process: "cnc-machined",
+    tooling: 0,
+    materialYield: 1,
+    perKg: 0,
+    perPart: 2,
+    perFin: 0,
+    minutes: 3,
+    removalRate: 2e-5,
+  },
+  {
+    process: "folded-fin",
+    tooling: 3000,
+    materialYield: 0.9,
+    perKg: 1,
+    perPart: 4,
+    perFin: 0.05,
+    minutes: 0,
+  },
+];
+
+/** Finishing price per wetted area (USD/m²) plus a racking charge per part. */
+export const FINISH_COSTS: Record<
+  SurfaceFinishId,
+  { perArea: number; perPart: number }
+> = {
+  "machined-aluminium": { perArea: 0, perPart: 0 },
+  "black-anodized": { perArea: 20, perPart: 0.3 },
+  "clear-anodized": { perArea: 15, perPart: 0.3 },
+  painted: { perArea: 25, perPart: 0.5 },
+  "oxidized-copper": { perArea: 8, perPart: 0.2 },
+};
+
+/** Secondary operations and the quantity the tooling is spread over. */
+export interface CostOptions {
+  /** Parts per year; the tooling is paid off within the first year. */
+  annualVolume: number;
+  /** Drilled and tapped mounting holes. */
+  mountingHoles: number;
+  /** Fly-cut the base flat for a thin interface. */
+  flyCutBase: boolean;
+}
+
+const HOLE_COST = 0.25;
+const CROSS_CUT_COST = 0.4;
+const FLY_CUT_MINUTES = 2;
+
+/** Unit cost by source (USD); NaN where the material has no price or density. */
+export interface CostEstimate {
+  /** Finished part (kg). */
+  mass: number;
+  material: number;
+  processing: number;
+  /** Tooling share of each part. */
+  tooling: number;
+  machining: number;
+  finish: number;
+  total: number;
+}
+
+export function getProcessCost(id: ManufacturingProcessId): ProcessCost {
+  const cost = PROCESS_COSTS.find((c) => c.process === id);
+  if (!cost) throw new Error(`No cost model for process: ${id}`);
+  return cost;
+}
+
+export function estimateCost(
+  geometry: HeatsinkGeometry,
+  material: HeatsinkMaterial,
+  process: ProcessCost,
+  finish: SurfaceFinishId,
+  options: CostOptions
+): CostEstimate {
+  if (!(options.annualVolume >= 1)) {
+    throw new RangeError("The annual volume must be at least one part");
+  }
+  const density = material.density ?? NaN;
+  const price = material.costPerKg ?? NaN;
+  const mass = solidVolume(geometry) * density;
+  const removed = envelopeVolume(geometry) - solidVolume(geometry);
+  const bought = process.removalRate
+    ? envelopeVolume(geometry) * density
+    : mass / process.materialYield;
+  const fins =
+    geometry.kind === "pin-fin" ? pinCount(geometry) : geometry.finCount;
+  const minutes =
+    process.minutes + (process.removalRate ? removed / process.removalRate : 0);
+
+  const processing =
+    bought * process.perKg +
+    process.perPart +
+    fins * process.perFin +
+    minutes * MACHINE_RATE;
+  const machining =
+    options.mountingHoles * HOLE_COST +
+    (geometry.kind === "cross-cut" ? geometry.cutCount * CROSS_CUT_COST : 0) +
+    (options.flyCutBase ? FLY_CUT_MINUTES * MACHINE_RATE : 0);
+  const { perArea, perPart } = FINISH_COSTS[finish];
+  const finishing = wettedArea(geometry) * perArea + perPart;
+  const tooling = process.tooling / options.annualVolume;
+  const materialCost = bought * price;
+
+  return {
+    mass,
+    material: materialCost,
+    processing,
+    tooling,
+    machining,
+    finish: finishing,
+    total: materialCost + processing + tooling + machining + finishing,
+  };
+}
+
+/** Unit cost of every process at each annual volume. */
+export interface CostCurvePoint {
+  annualVolume: number;
+  costs: Record<ManufacturingProcessId, number>;
+}
+
+/**
+ * Unit cost against annual volume for every process, at `count` volumes
+ * spaced logarithmically from `min` to `max`.
+ */
+export function costCurve(
+  geometry: HeatsinkGeometry,
+  material: HeatsinkMaterial,
+  finish: SurfaceFinishId,
+  options: Omit<CostOptions, "annualVolume">,
+  min = 10,
+  max = 1e6,
+  count = 26
+): CostCurvePoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const annualVolume = min * (max / min) ** (i / (count - 1));
+    const costs = {} as Record<ManufacturingProcessId, number>;
+    const at = { ...options, annualVolume };
+    for (const process of PROCESS_COSTS) {
+      costs[process.process] = estimateCost(
+        geometry,
+        material,
+        process,
+        finish,
+        at
+      ).total;
+    }
+    return { annualVolume, costs };
+  });
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { pressureAtAltitude } from "./air";
+import { altitudeSteps, deratingCurve, maxAllowablePower } from "./derating";
+
+describe("altitudeSteps", () => {
+  it("runs from sea level to the top in equal steps", () => {
+    expect(altitudeSteps(2000, 500)).toEqual([0, 500, 1000, 1500, 2000]);
+    expect(altitudeSteps()).toHaveLength(11);
+  });
+});
+
+describe("maxAllowablePower", () => {
+  it("finds where a falling margin reaches zero", () => {
+    expect(maxAllowablePower((p) => 100 - 2 * p, 10)).toBeCloseTo(50, 6);
+    expect(maxAllowablePower((p) => 100 - 2 * p, 0)).toBeCloseTo(50, 6);
+  });
+
+  it("gives zero when the design fails at any power", () => {
+    expect(maxAllowablePower(() => -1, 10)).toBe(0);
+  });
+
+  it("gives infinity when the margin never runs out", () => {
+    expect(maxAllowablePower(() => 1, 10)).toBe(Infinity);
+  });
+});
+
+describe("deratingCurve", () => {
+  it("pairs each altitude with its pressure and allowed power", () => {
+    const curve = deratingCurve([0, 1000], (pressure) => pressure / 1000);
+    expect(curve[0].pressure).toBeCloseTo(101325, 0);
+    expect(curve[1].pressure).toBeCloseTo(pressureAtAltitude(1000), 9);
+    expect(curve[1].maxPower).toBeCloseTo(curve[1].pressure / 1000, 12);
+  });
+});
@@ -0,0 +1,59 @@
+import { pressureAtAltitude } from "./air";
+
+export interface DeratingPoint {
+  /** m */
+  altitude: number;
+  /** Pa */
+  pressure: number;
+  /** Largest total power that keeps every device within its limit (W). */
+  maxPower: number;
+}
+
+const BISECTION_STEPS = 40;
+const MAX_DOUBLINGS = 30;
+
+/** Altitudes from sea level to `maxAltitude` in equal steps (m). */
+export function altitudeSteps(maxAltitude = 5000, step = 500): number[] {
+  return Array.from(
+    { length: Math.floor(maxAltitude / step) + 1 },
+    (_, i) => i * step
+  );
+}
+
+/**
+ * Largest power at which `margin(power)` is still non-negative, by bracketing
+ * and bisection. The margin must fall as the power rises; a design that
+ * fails at any power gives zero.
+ */
+export function maxAllowablePower(
+  margin: (power: number) => number,
+  initialPower: number
+): number {
+  let lo = 0;
+  let hi = Math.max(initialPower, 1e-3);
+  for (let i = 0; margin(hi) >= 0; i++) {
+    if (i === MAX_DOUBLINGS) return Infinity;
+    lo = hi;
+    hi *= 2;
+  }
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (margin(mid) >= 0) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Maximum allowable power at each altitude, where `maxPower` finds the limit
+ * for a given ambient pressure.
+ */
+export function deratingCurve(
+  altitudes: number[],
+  maxPower: (pressure: number) => number
+): DeratingPoint[] {
+  return altitudes.map((altitude) => {
+    const pressure = pressureAtAltitude(altitude);
+    return { altitude, pressure, maxPower: maxPower(pressure) };
+  });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  solveElectroThermal,
+  stabilityCurve,
+  type TemperatureLoss,
+  type ThermalPath,
+} from "./electro-thermal";
+
+/** 1 K/W from a 25 °C ambient. */
+const PATH: ThermalPath = (power) => 25 + power;
+
+/** 1 W at 25 °C, rising by `slope` W/K. */
+const linearLoss =
+  (slope: number): TemperatureLoss =>
+  (temperature) =>
+    1 + slope * (temperature - 25);
+
+describe("solveElectroThermal", () => {
+  it("settles a slow but stable loop", () => {
+    // Loop gain 0.99: T = 25 + 1/(1 - 0.99) = 125 °C. Plain fixed-point
+    // iteration needs about a thousand steps to get there.
+    const result = solveElectroThermal(linearLoss(0.99), PATH, 25);
+    expect(result.converged).toBe(true);
+    expect(result.runaway).toBe(false);
+    expect(result.temperature).toBeCloseTo(125, 3);
+    expect(result.power).toBeCloseTo(100, 3);
+    expect(result.stabilityMargin).toBeCloseTo(0.01, 6);
+    expect(result.iterations).toBeLessThan(20);
+  });
+
+  it("reports runaway when the loss outgrows the path", () => {
+    const result = solveElectroThermal(linearLoss(1.2), PATH, 25);
+    expect(result.converged).toBe(false);
+    expect(result.runaway).toBe(true);
+    expect(result.stabilityMargin).toBeNaN();
+  });
+
+  it("finds the lower of two operating points of a convex loss", () => {
+    // 0.5·e^(T/50) crosses 25 + P near 26 °C and again near 320 °C.
+    const loss: TemperatureLoss = (t) => 0.5 * Math.exp(t / 50);
+    const result = solveElectroThermal(loss, PATH, 25);
+    expect(result.converged).toBe(true);
+    expect(PATH(loss(result.temperature))).toBeCloseTo(result.temperature, 4);
+    expect(result.temperature).toBeLessThan(30);
+    // Loop gain is the loss slope, P/50, at the operating point.
+    expect(result.stabilityMargin).toBeCloseTo(1 - result.power / 50, 3);
+  });
+
+  it("settles a loss that falls with temperature", () => {
+    // An LED's heat falls as its forward voltage drops: T = 25 + 1/1.05.
+    const result = solveElectroThermal(linearLoss(-0.05), PATH, 25);
+    expect(result.converged).toBe(true);
+    expect(result.temperature).toBeCloseTo(25 + 1 / 1.05, 4);
+    expect(result.stabilityMargin).toBeCloseTo(1.05, 6);
+  });
+});
+
+describe("stabilityCurve", () => {
+  it("crosses where the solver settles", () => {
+    const loss = linearLoss(0.6);
+    const { temperature } = solveElectroThermal(loss, PATH, 25);
+    expect(temperature).toBeCloseTo(27.5, 4);
+    const curve = stabilityCurve(loss, PATH, 25, 29, 4);
+    expect(curve.map((p) => p.temperature)).toEqual([25, 26, 27, 28, 29]);
+    for (const point of curve) {
+      expect(point.removed).toBeCloseTo(point.temperature - 25, 9);
+      expect(point.generated > point.removed).toBe(
+        point.temperature < temperature
+      );
+    }
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Electro-thermal coupling: a device whose loss depends on its own junction
+ * temperature, solved together with the thermal path that sets it.
+ */
+
+/** Evaluations of the loss and thermal path before giving up. */
+const MAX_EVALUATIONS = 100;
+/** Width of the final bracket on the operating point (K). */
+const TOLERANCE = 1e-4;
+/** Junction temperature taken as runaway when the search passes it (°C). */
+const RUNAWAY_TEMPERATURE = 400;
+const MAX_DOUBLINGS = 30;
+
+/** Loss at a junction temperature (°C → W). */
+export type TemperatureLoss = (temperature: number) => number;
+
+/** Junction temperature the thermal path reaches at a loss (W → °C). */
+export type ThermalPath = (power: number) => number;
+
+export interface ElectroThermalResult {
+  /** A stable operating point was found. */
+  converged: boolean;
+  /** Loss outruns the heat removal and the temperature keeps climbing. */
+  runaway: boolean;
+  /** Operating junction temperature, or where the search gave up (°C). */
+  temperature: number;
+  /** Loss at `temperature` (W). */
+  power: number;
+  /** Evaluations of the loss and thermal path. */
+  iterations: number;
+  /**
+   * One minus the loop gain dTj/dP · dP/dTj at the operating point. Zero
+   * means the slightest extra loss tips it into runaway; NaN without one.
+   */
+  stabilityMargin: number;
+}
+
+/**
+ * Finds the lowest junction temperature above `startTemperature` at which the
+ * thermal path, carrying the loss at that temperature, returns the same
+ * temperature. The search climbs by secant steps on the temperature rise
+ * the loop adds, which for a convex loss stop short of the first operating
+ * point however close the loop gain is to one, then closes the bracket by
+ * false position. While the loop still adds heat, a loop gain of one or more
+ * means the gap can only widen: that is runaway.
+ */
+export function solveElectroThermal(
+  loss: TemperatureLoss,
+  path: ThermalPath,
+  startTemperature: number
+): ElectroThermalResult {
+  let iterations = 0;
+  /** Rise the loop adds at a temperature; zero at an operating point. */
+  const excess = (temperature: number) => {
+    iterations++;
+    return path(loss(temperature)) - temperature;
+  };
+  const result = (
+    temperature: number,
+    outcome: "converged" | "runaway" | "unsettled"
+  ): ElectroThermalResult => {
+    const power = loss(temperature);
+    return {
+      converged: outcome === "converged",
+      runaway: outcome === "runaway",
+      temperature,
+      power,
+      iterations,
+      stabilityMargin:
+        outcome === "converged"
+          ? 1 - loopGain(loss, path, temperature, power)
+          : NaN,
+    };
+  };
+
+  let low = startTemperature;
+  let lowExcess = excess(low);
+  if (!Number.isFinite(lowExcess)) return result(low, "runaway");
+  // The first step is a plain fixed-point step to the path's temperature.
+  let step = lowExcess;
+  let high = low;
+  let highExcess = lowExcess;
+  while (highExcess > 0) {
+    if (Math.abs(highExcess) < TOLERANCE) return result(high, "converged");
+    if (iterations >= MAX_EVALUATIONS) return result(high, "unsettled");
+    high = low + step;
+    highExcess = excess(high);
+    if (
+      !Number.isFinite(highExcess) ||
+      high + Math.max(0, highExcess) > RUNAWAY_TEMPERATURE
+    ) {
+      return result(high, "runaway");
+    }
+    if (highExcess <= 0) break;
+    // The excess falls by one minus the loop gain per kelvin.
+    const slope = (highExcess - lowExcess) / (high - low);
+    if (!(slope < 0)) return result(high, "runaway");
+    step = -highExcess / slope;
+    low = high;
+    lowExcess = highExcess;
+  }
+
+  // Illinois false position on [low, high], excess positive then not.
+  let side = 0;
+  while (high - low > TOLERANCE && iterations < MAX_EVALUATIONS) {
+    const next = high - (highExcess * (high - low)) / (highExcess - lowExcess);
+    const nextExcess = excess(next);
+    if (Math.abs(nextExcess) < TOLERANCE) return result(next, "converged");
+    if (nextExcess > 0) {
+      low = next;
+      lowExcess = nextExcess;
+      if (side === 1) highExcess /= 2;
+      side = 1;
+    } else {
+      high = next;
+      highExcess = nextExcess;
+      if (side === -1) lowExcess /= 2;
+      side = -1;
+    }
+  }
+  return high - low > TOLERANCE
+    ? result((low + high) / 2, "unsettled")
+    : result(high, "converged");
+}
+
+/** dTj/dP of the path times dP/dTj of the loss, by finite differences. */
+function loopGain(
+  loss: TemperatureLoss,
+  path: ThermalPath,
+  temperature: number,
+  power: number
+): number {
+  const dT = 0.5;
+  const dP = Math.max(1e-3, 0.01 * power);
+  const lossSlope =
+    (loss(temperature + dT) - loss(temperature - dT)) / (2 * dT);
+  const pathSlope = (path(power + dP) - path(power)) / dP;
+  return lossSlope * pathSlope;
+}
+
+/** Heat generated and removed at one junction temperature. */
+export interface StabilityPoint {
+  /** °C. */
+  temperature: number;
+  /** Device loss at this temperature (W). */
+  generated: number;
+  /** Loss the thermal path carries away with the junction at this temperature (W). */
+  removed: number;
+}
+
+/**
+ * Generated and removed heat from `ambientTemperature` to `maxTemperature`;
+ * `path` must accept zero loss.
+ * Operating points sit where the curves cross; the gap above the crossing is
+ * the stability margin. The path is sampled in power and interpolated, as it
+ * is costly to invert.
+ */
+export function stabilityCurve(
+  loss: TemperatureLoss,
+  path: ThermalPath,
+  ambientTemperature: number,
+  maxTemperature: number,
+  count = 25
+): StabilityPoint[] {
+  let top = 1;
+  for (let i = 0; path(top) < maxTemperature; i++) {
+    if (i === MAX_DOUBLINGS) break;
+    top *= 2;
+  }
+  // Other heat sources can keep the junction above ambient at zero loss.
+  const samples = [{ temperature: path(0), power: 0 }];
+  for (let i = 1; i <= count; i++) {
+    const power = (top * i) / count;
+    samples.push({ temperature: path(power), power });
+  }
+
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const temperature =
+      ambientTemperature + ((maxTemperature - ambientTemperature) * i) / count;
+    return {
+      temperature,
+      generated: loss(temperature),
+      removed: interpolatePower(samples, temperature),
+    };
+  });
+}
+
+function interpolatePower(
+  samples: { temperature: number; power: number }[],
+  temperature: number
+): number {
+  let i = 1;
+  while (i < samples.length - 1 && samples[i].temperature < temperature) i++;
+  const a = samples[i - 1];
+  const b = samples[i];
+  return (
+    a.power +
+    ((b.power - a.power) * (temperature - a.temperature)) /
+      (b.temperature - a.temperature)
+  );
+}
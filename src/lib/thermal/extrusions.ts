@@ -0,0 +1,207 @@
+import { envelopeVolume, solidVolume, validateGeometry } from "./geometry";
+import type { FinProfile, PlateFinGeometry } from "./types";
+
+/** Lengths an extrusion can be cut to: every `step` from `min` to `max` (m). */
+export interface CutLengthRule {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** A catalog extrusion cross-section; the cut length sets the base length. */
+export interface ExtrusionProfile {
+  id: string;
+  name: string;
+  baseWidth: number;
+  baseThickness: number;
+  finHeight: number;
+  /** Thickness at the fin root (m). */
+  finThickness: number;
+  finCount: number;
+  profile?: FinProfile;
+  cutLength: CutLengthRule;
+}
+
+/** One profile at one cut length that meets the required resistance. */
+export interface ExtrusionMatch {
+  extrusion: ExtrusionProfile;
+  cutLength: number;
+  geometry: PlateFinGeometry;
+  /** Heatsink resistance, base to ambient (K/W). */
+  resistance: number;
+  /** kg; NaN without a material density. */
+  mass: number;
+  /** Bounding box of base and fins (m³). */
+  volume: number;
+}
+
+const SHORT: CutLengthRule = { min: 0.01, max: 0.15, step: 0.005 };
+const MEDIUM: CutLengthRule = { min: 0.02, max: 0.3, step: 0.01 };
+const LONG: CutLengthRule = { min: 0.05, max: 0.5, step: 0.01 };
+
+// Representative commodity 6063 sections; widths and heights in the usual
+// catalog steps, with the larger ones drawn tapered as extruded.
+export const EXTRUSIONS: ExtrusionProfile[] = [
+  {
+    id: "hs-3015",
+    name: "HS-3015",
+    baseWidth: 0.03,
+    baseThickness: 0.003,
+    finHeight: 0.015,
+    finThickness: 0.0012,
+    finCount: 7,
+    cutLength: SHORT,
+  },
+  {
+    id: "hs-4020",
+    name: "HS-4020",
+    baseWidth: 0.04,
+    baseThickness: 0.004,
+    finHeight: 0.02,
+    finThickness: 0.0015,
+    finCount: 8,
+    cutLength: SHORT,
+  },
+  {
+    id: "hs-5025",
+    name: "HS-5025",
+    baseWidth: 0.05,
+    baseThickness: 0.004,
+    finHeight: 0.025,
+    finThickness: 0.0015,
+    finCount: 9,
+    cutLength: MEDIUM,
+  },
+  {
+    id: "hs-7030",
+    name: "HS-7030",
+    baseWidth: 0.07,
+    baseThickness: 0.005,
+    finHeight: 0.03,
+    finThickness: 0.0018,
+    finCount: 11,
+    cutLength: MEDIUM,
+  },
+  {
+    id: "hs-8640",
+    name: "HS-8640",
+    baseWidth: 0.086,
+    baseThickness: 0.006,
+    finHeight: 0.04,
+    finThickness: 0.002,
+    finCount: 12,
+    cutLength: MEDIUM,
+  },
+  {
+    id: "hs-10030",
+    name: "HS-10030",
+    baseWidth: 0.1,
+    baseThickness: 0.005,
+    finHeight: 0.03,
+    finThickness: 0.0015,
+    finCount: 14,
+    profile: { kind: "tapered", tipThickness: 0.001 },
+    cutLength: LONG,
+  },
+  {
+    id: "hs-12040",
+    name: "HS-12040",
+    baseWidth: 0.12,
+    baseThickness: 0.006,
+    finHeight: 0.04,
+    finThickness: 0.002,
+    finCount: 16,
+    profile: { kind: "tapered", tipThickness: 0.0012 },
+    cutLength: LONG,
+  },
+  {
+    id: "hs-15050",
+    name: "HS-15050",
+    baseWidth: 0.15,
+    baseThickness: 0.008,
+    finHeight: 0.05,
+    finThickness: 0.0025,
+    finCount: 18,
+    profile: { kind: "tapered", tipThickness: 0.0015 },
+    cutLength: LONG,
+  },
+  {
+    id: "hs-20060",
+    name: "HS-20060",
+    baseWidth: 0.2,
+    baseThickness: 0.01,
+    finHeight: 0.06,
+    finThickness: 0.003,
+    finCount: 20,
+    profile: { kind: "tapered", tipThickness: 0.002 },
+    cutLength: LONG,
+  },
+];
+
+/** Every permitted cut length, shortest first. */
+export function cutLengths(rule: CutLengthRule): number[] {
+  const count = Math.floor((rule.max - rule.min) / rule.step + 1e-9);
+  // Multiplying rather than accumulating keeps the lengths on the grid.
+  return Array.from({ length: count + 1 }, (_, i) => rule.min + i * rule.step);
+}
+
+export function extrusionGeometry(
+  extrusion: ExtrusionProfile,
+  cutLength: number
+): PlateFinGeometry {
+  const { baseWidth, baseThickness, finHeight, finThickness, finCount } =
+    extrusion;
+  return {
+    kind: "plate-fin",
+    baseWidth,
+    baseLength: cutLength,
+    baseThickness,
+    finHeight,
+    finThickness,
+    finCount,
+    profile: extrusion.profile,
+  };
+}
+
+export type ExtrusionSearchProgress = (fraction: number) => void;
+
+/**
+ * Every profile and cut length whose resistance is at most `required`,
+ * lightest first. `resistance` is called once per candidate; candidates it
+ * throws on are left out.
+ */
+export function findExtrusions(
+  extrusions: ExtrusionProfile[],
+  required: number,
+  density: number,
+  resistance: (geometry: PlateFinGeometry) => number,
+  onProgress?: ExtrusionSearchProgress
+): ExtrusionMatch[] {
+  if (!(required > 0)) {
+    throw new RangeError("The required resistance must be positive");
+  }
+  const matches: ExtrusionMatch[] = [];
+  for (const [index, extrusion] of extrusions.entries()) {
+    for (const cutLength of cutLengths(extrusion.cutLength)) {
+      const geometry = extrusionGeometry(extrusion, cutLength);
+      let r: number;
+      try {
+        validateGeometry(geometry);
+        r = resistance(geometry);
+      } catch {
+        continue;
+      }
+      if (!(r <= required)) continue;
+      matches.push({
+        extrusion,
+        cutLength,
+        geometry,
+        resistance: r,
+        mass: solidVolume(geometry) * density,
+        volume: envelopeVolume(geometry),
+      });
+    }
+    onProgress?.((index + 1) / extrusions.length);
+  }
+  return matches.sort((a, b) => a.mass - b.mass);
+}
@@ -0,0 +1,77 @@
+import type { FanCurvePoint, OperatingPoint } from "./types";
+
+const BISECTION_STEPS = 80;
+
+export function validateFanCurve(curve: FanCurvePoint[]): void {
+  if (curve.length < 2) {
+    throw new RangeError("A fan curve needs at least two points");
+  }
+  for (let i = 1; i < curve.length; i++) {
+    if (!(curve[i].flow > curve[i - 1].flow)) {
+      throw new RangeError("Fan curve flows must increase monotonically");
+    }
+  }
+}
+
+/** Free-delivery flow, where the curve reaches zero pressure (m³/s). */
+export function maxFanFlow(curve: FanCurvePoint[]): number {
+  const last = curve[curve.length - 1];
+  if (last.pressure <= 0) {
+    for (let i = 1; i < curve.length; i++) {
+      if (curve[i].pressure <= 0) {
+        const a = curve[i - 1];
+        const b = curve[i];
+        return a.flow + ((b.flow - a.flow) * a.pressure) / (a.pressure - b.pressure);
+      }
+    }
+  }
+  return last.flow;
+}
+
+/** Piecewise-linear fan pressure; zero outside the tabulated flow range. */
+export function fanPressure(curve: FanCurvePoint[], flow: number): number {
+  if (flow <= curve[0].flow) return curve[0].pressure;
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (flow <= b.flow) {
+      const t = (flow - a.flow) / (b.flow - a.flow);
+      return Math.max(0, a.pressure + t * (b.pressure - a.pressure));
+    }
+  }
+  return 0;
+}
+
+/**
+ * Fan curve in thinner or denser air. By the fan laws a fan at fixed speed
+ * moves the same volume, with pressure in proportion to density.
+ */
+export function scaleFanCurve(
+  curve: FanCurvePoint[],
+  densityRatio: number
+): FanCurvePoint[] {
+  return curve.map((p) => ({ ...p, pressure: p.pressure * densityRatio }));
+}
+
+/**
+ * Intersection of a fan curve with a rising system impedance curve, found by
+ * bisection on fan(Q) − Δp(Q).
+ */
+export function findOperatingPoint(
+  curve: FanCurvePoint[],
+  systemPressure: (flow: number) => number
+): OperatingPoint {
+  validateFanCurve(curve);
+  let lo = 0;
+  let hi = maxFanFlow(curve);
+  if (fanPressure(curve, lo) <= systemPressure(lo)) {
+    return { flow: 0, pressure: fanPressure(curve, 0) };
+  }
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (fanPressure(curve, mid) > systemPressure(mid)) lo = mid;
+    else hi = mid;
+  }
+  const flow = 0.5 * (lo + hi);
+  return { flow, pressure: systemPressure(flow) };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { besselI0, besselI1, besselK0, besselK1 } from "./bessel";
+import {
+  rectangularFinEfficiency,
+  taperedFinEfficiency,
+  triangularFinEfficiency,
+} from "./fin";
+
+describe("modified Bessel functions", () => {
+  it("match tabulated values at x = 1 and 2", () => {
+    // Abramowitz & Stegun, Table 9.8.
+    expect(besselI0(1)).toBeCloseTo(1.266066, 5);
+    expect(besselI1(1)).toBeCloseTo(0.565159, 5);
+    expect(besselK0(1)).toBeCloseTo(0.421024, 5);
+    expect(besselK1(1)).toBeCloseTo(0.601907, 5);
+    expect(besselI0(2)).toBeCloseTo(2.279585, 5);
+    expect(besselI1(2)).toBeCloseTo(1.590637, 5);
+  });
+});
+
+describe("fin efficiency", () => {
+  // h = 50 W/(m²·K), k = 200 W/(m·K) and t = 2 mm give m = 15.81 /m.
+  const h = 50;
+  const k = 200;
+  const t = 0.002;
+  const m = Math.sqrt((2 * h) / (k * t));
+
+  it("is tanh(mLc)/mLc for a rectangular fin", () => {
+    const height = 1 / m - t / 2;
+    expect(rectangularFinEfficiency(h, k, t, height)).toBeCloseTo(
+      Math.tanh(1),
+      9
+    );
+  });
+
+  it("is I₁(2mL)/(mL·I₀(2mL)) for a triangular fin", () => {
+    // Incropera, Table 3.5, mL = 1.
+    expect(triangularFinEfficiency(h, k, t, 1 / m)).toBeCloseTo(0.6978, 4);
+  });
+
+  it("runs from the rectangular to the triangular fin as the tip narrows", () => {
+    const height = 0.04;
+    expect(taperedFinEfficiency(h, k, t, t, height)).toBeCloseTo(
+      rectangularFinEfficiency(h, k, t, height),
+      2
+    );
+    expect(taperedFinEfficiency(h, k, t, 1e-7, height)).toBeCloseTo(
+      triangularFinEfficiency(h, k, t, height),
+      2
+    );
+  });
+});
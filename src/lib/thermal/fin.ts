@@ -0,0 +1,101 @@
+import { besselI0, besselI1, besselK0, besselK1 } from "./bessel";
+
+/**
+ * Efficiency of a straight rectangular fin with a convective tip, using the
+ * corrected-length approximation Lc = H + t/2.
+ */
+export function rectangularFinEfficiency(
+  heatTransferCoefficient: number,
+  conductivity: number,
+  thickness: number,
+  height: number
+): number {
+  const m = Math.sqrt((2 * heatTransferCoefficient) / (conductivity * thickness));
+  const mL = m * (height + thickness / 2);
+  if (mL < 1e-9) return 1;
+  return Math.tanh(mL) / mL;
+}
+
+/**
+ * Efficiency of a straight triangular fin, tapering from `thickness` at the
+ * root to a point: I₁(2mL) / (mL · I₀(2mL)) with m = √(2h / (k·t)).
+ */
+export function triangularFinEfficiency(
+  heatTransferCoefficient: number,
+  conductivity: number,
+  thickness: number,
+  height: number
+): number {
+  const m = Math.sqrt((2 * heatTransferCoefficient) / (conductivity * thickness));
+  const mL = m * height;
+  if (mL < 1e-9) return 1;
+  return besselI1(2 * mL) / (mL * besselI0(2 * mL));
+}
+
+/** Beyond this argument the taper is too slight to resolve, see below. */
+const MAX_TAPER_ARGUMENT = 500;
+
+/**
+ * Efficiency of a straight fin tapering linearly from `rootThickness` to
+ * `tipThickness`. Measured from the apex the taper would reach, the
+ * temperature excess follows A·I₀(2M√x) + B·K₀(2M√x); the tip is treated
+ * as adiabatic at the corrected length Lc = H + t_tip/2.
+ */
+export function taperedFinEfficiency(
+  heatTransferCoefficient: number,
+  conductivity: number,
+  rootThickness: number,
+  tipThickness: number,
+  height: number
+): number {
+  const apex = (height * rootThickness) / (rootThickness - tipThickness);
+  const corrected = height + tipThickness / 2;
+  if (tipThickness <= 0 || apex <= corrected) {
+    return triangularFinEfficiency(
+      heatTransferCoefficient,
+      conductivity,
+      rootThickness,
+      height
+    );
+  }
+  const h = heatTransferCoefficient;
+  const k = conductivity;
+  const M = Math.sqrt((2 * h * apex) / (k * rootThickness));
+  const root = 2 * M * Math.sqrt(apex);
+  // Nearly parallel faces push the Bessel functions out of range; such a
+  // fin is a rectangular one of the mean thickness.
+  if (!(root < MAX_TAPER_ARGUMENT)) {
+    return rectangularFinEfficiency(
+      h,
+      k,
+      (rootThickness + tipThickness) / 2,
+      height
+    );
+  }
+  const tip = 2 * M * Math.sqrt(apex - corrected);
+  const i1Tip = besselI1(tip);
+  const k1Tip = besselK1(tip);
+  const heat =
+    k *
+    rootThickness *
+    (M / Math.sqrt(apex)) *
+    (besselI1(root) * k1Tip - i1Tip * besselK1(root));
+  const excess = besselI0(root) * k1Tip + i1Tip * besselK0(root);
+  return heat / (excess * 2 * h * corrected);
+}
+
+/**
+ * Efficiency of a round or square pin with a convective tip. Both shapes have
+ * a perimeter-to-section ratio of 4/size, and Lc = H + size/4.
+ */
+export function pinFinEfficiency(
+  heatTransferCoefficient: number,
+  conductivity: number,
+  size: number,
+  height: number
+): number {
+  const m = Math.sqrt((4 * heatTransferCoefficient) / (conductivity * size));
+  const mL = m * (height + size / 4);
+  if (mL < 1e-9) return 1;
+  return Math.tanh(mL) / mL;
+}
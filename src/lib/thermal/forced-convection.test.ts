@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  hydraulicDiameter,
+  teertstraNusselt,
+  zukauskasNusselt,
+} from "./forced-convection";
+import type { PinFinGeometry, PlateFinGeometry } from "./types";
+
+const PLATE: PlateFinGeometry = {
+  kind: "plate-fin",
+  baseWidth: 0.1,
+  baseLength: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  finThickness: 0.0015,
+  finCount: 10,
+};
+
+const PINS: PinFinGeometry = {
+  kind: "pin-fin",
+  shape: "round",
+  layout: "inline",
+  pinSize: 0.003,
+  baseWidth: 0.1,
+  baseLength: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  rows: 20,
+  columns: 10,
+};
+
+describe("hydraulicDiameter", () => {
+  it("is 4A/P of the channel between two fins", () => {
+    const s = (0.1 - 10 * 0.0015) / 9;
+    expect(hydraulicDiameter(PLATE)).toBeCloseTo(
+      (4 * s * 0.03) / (2 * (s + 0.03)),
+      9
+    );
+  });
+});
+
+describe("teertstraNusselt", () => {
+  it("tends to fully developed flow at low channel Reynolds numbers", () => {
+    const re = 1e-3;
+    expect(teertstraNusselt(re, 0.71) / ((re * 0.71) / 2)).toBeCloseTo(1, 3);
+  });
+
+  it("tends to the developing boundary layer at high channel Reynolds numbers", () => {
+    const re = 1e6;
+    const developing =
+      0.664 * Math.sqrt(re) * 0.71 ** (1 / 3) * Math.sqrt(1 + 3.65 / 1e3);
+    expect(teertstraNusselt(re, 0.71) / developing).toBeCloseTo(1, 3);
+  });
+});
+
+describe("zukauskasNusselt", () => {
+  it("uses C = 0.51, m = 0.5 for 100 ≤ Re < 1000 with 20 rows", () => {
+    expect(zukauskasNusselt(PINS, 500, 0.71)).toBeCloseTo(
+      0.51 * Math.sqrt(500) * 0.71 ** 0.36,
+      9
+    );
+  });
+
+  it("corrects for fewer rows", () => {
+    const few = zukauskasNusselt({ ...PINS, rows: 4 }, 500, 0.71);
+    expect(few / zukauskasNusselt(PINS, 500, 0.71)).toBeCloseTo(0.9, 9);
+  });
+
+  it("scales square pins by Hilpert's ratio, held at the end of its range", () => {
+    const square = { ...PINS, shape: "square" as const };
+    const ratio = (re: number) => (0.102 * re ** 0.675) / (0.193 * re ** 0.618);
+    const squareOverRound = (re: number) =>
+      zukauskasNusselt(square, re, 0.71) / zukauskasNusselt(PINS, re, 0.71);
+    expect(squareOverRound(2e4)).toBeCloseTo(ratio(2e4), 9);
+    expect(squareOverRound(500)).toBeCloseTo(ratio(5e3), 9);
+    expect(squareOverRound(50)).toBeCloseTo(ratio(5e3), 9);
+    expect(squareOverRound(1e6)).toBeCloseTo(ratio(1e5), 9);
+  });
+});
@@ -0,0 +1,433 @@
+import { ambientAir, filmAir, type AirProperties } from "./air";
+import { STANDARD_PRESSURE } from "./constants";
+import {
+  fanPressure,
+  findOperatingPoint,
+  maxFanFlow,
+  scaleFanCurve,
+} from "./fan";
+import {
+  clearSpacing,
+  finnedSurface,
+  frontalArea,
+  validateGeometry,
+} from "./geometry";
+import { materialConductivity } from "./materials";
+import {
+  longitudinalPitch,
+  maxPinVelocity,
+  transversePitch,
+} from "./pin-fin";
+import {
+  baseConductionResistance,
+  meanChannelSpacing,
+  segmentCount,
+  segmentLength,
+} from "./plate-fin";
+import { radiationHeatTransfer } from "./radiation";
+import type {
+  FanCurvePoint,
+  FilmIteration,
+  ForcedConvectionInput,
+  ForcedConvectionResult,
+  HeatsinkGeometry,
+  ImpedanceCurvePoint,
+  PinFinGeometry,
+  PinLayout,
+  PlateArrayGeometry,
+} from "./types";
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+const BISECTION_STEPS = 60;
+const TRANSITION_REYNOLDS = 2300;
+
+/** Hydraulic diameter of one fin channel closed by the base and a shroud (m). */
+export function hydraulicDiameter(geometry: PlateArrayGeometry): number {
+  const s = meanChannelSpacing(geometry);
+  const h = geometry.finHeight;
+  return (2 * s * h) / (s + h);
+}
+
+export function channelVelocity(
+  geometry: PlateArrayGeometry,
+  heatsinkFlow: number
+): number {
+  const { finHeight, finCount } = geometry;
+  return heatsinkFlow / ((finCount - 1) * meanChannelSpacing(geometry) * finHeight);
+}
+
+/**
+ * Fully developed laminar f·Re (Fanning) for a rectangular duct of aspect
+ * ratio α ≤ 1 (Shah & London).
+ */
+function laminarFRe(aspectRatio: number): number {
+  const a = aspectRatio;
+  return (
+    24 *
+    (1 -
+      1.3553 * a +
+      1.9467 * a ** 2 -
+      1.7012 * a ** 3 +
+      0.9564 * a ** 4 -
+      0.2537 * a ** 5)
+  );
+}
+
+/**
+ * Static pressure drop across the fin channels: entrance contraction,
+ * apparent friction of developing flow (Muzychka & Yovanovich) and exit
+ * expansion losses (Pa). Every segment of a cross-cut heatsink adds its own
+ * entrance and exit and restarts the developing flow.
+ */
+export function channelPressureDrop(
+  geometry: PlateArrayGeometry,
+  air: AirProperties,
+  heatsinkFlow: number
+): number {
+  if (heatsinkFlow <= 0) return 0;
+  const { baseWidth, finHeight, finCount } = geometry;
+  const s = meanChannelSpacing(geometry);
+  const length = segmentLength(geometry);
+  const dh = hydraulicDiameter(geometry);
+  const velocity = channelVelocity(geometry, heatsinkFlow);
+  const reynolds = (velocity * dh) / air.kinematicViscosity;
+
+  const sigma = ((finCount - 1) * s) / baseWidth;
+  const kc = 0.42 * (1 - sigma ** 2);
+  const ke = (1 - sigma ** 2) ** 2;
+
+  let friction: number;
+  if (reynolds < TRANSITION_REYNOLDS) {
+    const lPlus = length / (dh * reynolds);
+    const fRe = laminarFRe(Math.min(s, finHeight) / Math.max(s, finHeight));
+    friction = Math.sqrt((3.44 / Math.sqrt(lPlus)) ** 2 + fRe ** 2) / reynolds;
+  } else {
+    friction = 0.079 * reynolds ** -0.25;
+  }
+
+  return (
+    segmentCount(geometry) *
+    (kc + (4 * friction * length) / dh + ke) *
+    0.5 *
+    air.density *
+    velocity ** 2
+  );
+}
+
+/**
+ * Pressure drop across a pin array from the Khan, Culham & Yovanovich
+ * friction factors for inline and staggered pin-fin heatsinks (Pa).
+ */
+export function pinArrayPressureDrop(
+  geometry: PinFinGeometry,
+  air: AirProperties,
+  heatsinkFlow: number
+): number {
+  if (heatsinkFlow <= 0) return 0;
+  const d = geometry.pinSize;
+  const st = transversePitch(geometry) / d;
+  const sl = longitudinalPitch(geometry) / d;
+  const velocity = maxPinVelocity(geometry, heatsinkFlow / frontalArea(geometry));
+  const reynolds = (velocity * d) / air.kinematicViscosity;
+
+  let friction: number;
+  if (geometry.layout === "inline") {
+    const k1 = 1.009 * ((st - 1) / (sl - 1)) ** (1.09 / reynolds ** 0.0553);
+    friction = k1 * (0.233 + 45.78 / ((st - 1) ** 1.1 * reynolds));
+  } else {
+    const k1 = (1.175 * sl) / (st * reynolds ** 0.3124) + 0.5 * reynolds ** 0.0807;
+    friction =
+      (k1 * (378.6 / st ** (13.1 / st))) / reynolds ** (0.68 / st ** 1.29);
+  }
+  return friction * geometry.rows * 0.5 * air.density * velocity ** 2;
+}
+
+export function heatsinkPressureDrop(
+  geometry: HeatsinkGeometry,
+  air: AirProperties,
+  heatsinkFlow: number
+): number {
+  return geometry.kind === "pin-fin"
+    ? pinArrayPressureDrop(geometry, air, heatsinkFlow)
+    : channelPressureDrop(geometry, air, heatsinkFlow);
+}
+
+function bypassArea(input: ForcedConvectionInput): number {
+  const { geometry, ductArea } = input;
+  const area = (ductArea ?? 0) - frontalArea(geometry);
+  if (!(area > 0)) {
+    throw new RangeError("Duct area must exceed the heatsink frontal area");
+  }
+  return area;
+}
+
+/**
+ * Pressure drop of the heatsink installation at a total fan flow, and the
+ * part of that flow which passes the heatsink. Unducted flow splits so that
+ * the bypass, treated as one velocity head, sees the same pressure drop.
+ */
+export function systemImpedance(
+  input: ForcedConvectionInput,
+  air: AirProperties,
+  flow: number
+): { pressure: number; heatsinkFlow: number } {
+  const { geometry } = input;
+  if (input.arrangement === "ducted" || flow <= 0) {
+    return {
+      pressure: heatsinkPressureDrop(geometry, air, flow),
+      heatsinkFlow: flow,
+    };
+  }
+
+  const area = bypassArea(input);
+  const bypassDrop = (q: number) => 0.5 * air.density * (q / area) ** 2;
+  let lo = 0;
+  let hi = flow;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (heatsinkPressureDrop(geometry, air, mid) < bypassDrop(flow - mid)) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  const heatsinkFlow = 0.5 * (lo + hi);
+  return {
+    pressure: heatsinkPressureDrop(geometry, air, heatsinkFlow),
+    heatsinkFlow,
+  };
+}
+
+/** The fan curve derated for the ambient pressure. */
+export function ambientFanCurve(input: ForcedConvectionInput): FanCurvePoint[] {
+  const pressure = input.ambient.pressure ?? STANDARD_PRESSURE;
+  return scaleFanCurve(input.fanCurve, pressure / STANDARD_PRESSURE);
+}
+
+/** Fan and system pressure sampled from zero to free delivery. */
+export function impedanceCurve(
+  input: ForcedConvectionInput,
+  samples = 40
+): ImpedanceCurvePoint[] {
+  const air = ambientAir(input.ambient);
+  const fanCurve = ambientFanCurve(input);
+  const maxFlow = maxFanFlow(fanCurve);
+  return Array.from({ length: samples + 1 }, (_, i) => {
+    const flow = (maxFlow * i) / samples;
+    return {
+      flow,
+      fanPressure: fanPressure(fanCurve, flow),
+      systemPressure: systemImpedance(input, air, flow).pressure,
+    };
+  });
+}
+
+/**
+ * Teertstra composite Nusselt number for developing laminar flow between
+ * plate fins, on the spacing-based channel Reynolds number Re_s · s/L.
+ */
+export function teertstraNusselt(channelReynolds: number, prandtl: number): number {
+  if (channelReynolds <= 0) return 0;
+  const developed = (channelReynolds * prandtl) / 2;
+  const developing =
+    0.664 *
+    Math.sqrt(channelReynolds) *
+    prandtl ** (1 / 3) *
+    Math.sqrt(1 + 3.65 / Math.sqrt(channelReynolds));
+  return (developed ** -3 + developing ** -3) ** (-1 / 3);
+}
+
+const ROW_CORRECTION_ROWS = [1, 2, 3, 4, 5, 7, 10, 13, 16];
+const ROW_CORRECTION: Record<PinLayout, number[]> = {
+  inline: [0.7, 0.8, 0.86, 0.9, 0.92, 0.95, 0.97, 0.98, 0.99],
+  staggered: [0.64, 0.76, 0.84, 0.89, 0.92, 0.95, 0.97, 0.98, 0.99],
+};
+
+function rowCorrection(layout: PinLayout, rows: number): number {
+  if (rows >= 20) return 1;
+  const table = ROW_CORRECTION[layout];
+  for (let i = 1; i < ROW_CORRECTION_ROWS.length; i++) {
+    if (rows <= ROW_CORRECTION_ROWS[i]) {
+      const r0 = ROW_CORRECTION_ROWS[i - 1];
+      const t = (rows - r0) / (ROW_CORRECTION_ROWS[i] - r0);
+      return table[i - 1] + t * (table[i] - table[i - 1]);
+    }
+  }
+  return table[table.length - 1] + ((1 - table[table.length - 1]) * (rows - 16)) / 4;
+}
+
+/** Reynolds numbers Hilpert's square-cylinder correlation was fitted over. */
+const HILPERT_SQUARE_RANGE = [5e3, 1e5];
+
+/**
+ * Zukauskas array-averaged Nusselt number on the pin size and the maximum
+ * velocity between pins, corrected for fewer than 20 rows. Square pins are
+ * scaled by the ratio of Hilpert's square- to round-cylinder correlations,
+ * taken at the nearest end of their 5000–100 000 range outside it.
+ */
+export function zukauskasNusselt(
+  geometry: PinFinGeometry,
+  reynolds: number,
+  prandtl: number
+): number {
+  if (reynolds <= 0) return 0;
+  const { layout, rows, shape } = geometry;
+  let c: number;
+  let m: number;
+  if (reynolds < 100) {
+    c = layout === "inline" ? 0.8 : 0.9;
+    m = 0.4;
+  } else if (reynolds < 1000) {
+    c = 0.51;
+    m = 0.5;
+  } else if (layout === "inline") {
+    c = 0.27;
+    m = 0.63;
+  } else {
+    const ratio = transversePitch(geometry) / longitudinalPitch(geometry);
+    c = ratio < 2 ? 0.35 * ratio ** 0.2 : 0.4;
+    m = 0.6;
+  }
+  const nusselt = c * reynolds ** m * prandtl ** 0.36 * rowCorrection(layout, rows);
+  if (shape === "round") return nusselt;
+  const hilpert = Math.min(
+    Math.max(reynolds, HILPERT_SQUARE_RANGE[0]),
+    HILPERT_SQUARE_RANGE[1]
+  );
+  return nusselt * ((0.102 * hilpert ** 0.675) / (0.193 * hilpert ** 0.618));
+}
+
+function evaluate(
+  input: ForcedConvectionInput,
+  inlet: AirProperties,
+  air: AirProperties,
+  operatingPoint: { flow: number; pressure: number },
+  heatsinkFlow: number,
+  temperatureRise: number
+): Omit<ForcedConvectionResult, keyof FilmIteration> {
+  const { geometry, material, ambient, power } = input;
+  const s = clearSpacing(geometry);
+
+  let velocity: number;
+  let reynolds: number;
+  let nusselt: number;
+  let h: number;
+  if (geometry.kind === "pin-fin") {
+    const d = geometry.pinSize;
+    velocity = maxPinVelocity(geometry, heatsinkFlow / frontalArea(geometry));
+    reynolds = (velocity * d) / air.kinematicViscosity;
+    nusselt = zukauskasNusselt(geometry, reynolds, air.prandtl);
+    h = (nusselt * air.conductivity) / d;
+  } else {
+    velocity = channelVelocity(geometry, heatsinkFlow);
+    reynolds =
+      (velocity * hydraulicDiameter(geometry)) / air.kinematicViscosity;
+    const channelReynolds =
+      ((velocity * s) / air.kinematicViscosity) * (s / segmentLength(geometry));
+    nusselt = teertstraNusselt(channelReynolds, air.prandtl);
+    h = (nusselt * air.conductivity) / s;
+  }
+
+  const radiation = radiationHeatTransfer(
+    geometry,
+    input.emissivity ?? 0,
+    ambient.temperature + temperatureRise,
+    ambient.temperature
+  );
+  const effectiveH = h + radiation.coefficient;
+  const conductivity = materialConductivity(
+    material,
+    ambient.temperature + temperatureRise
+  );
+  const surface = finnedSurface(geometry, conductivity, effectiveH);
+
+  // The fan sets the volume flow of inlet air, and with it the mass flow.
+  const capacity = inlet.density * air.specificHeat * heatsinkFlow;
+  const ntu = capacity > 0 ? surface.conductance / capacity : Infinity;
+  const convectiveResistance =
+    capacity > 0 ? 1 / (capacity * (1 - Math.exp(-ntu))) : Infinity;
+  const baseResistance = baseConductionResistance(geometry, conductivity);
+  const totalResistance = convectiveResistance + baseResistance;
+
+  return {
+    operatingPoint,
+    heatsinkFlow,
+    channelSpacing: s,
+    channelVelocity: velocity,
+    reynolds,
+    nusselt,
+    heatTransferCoefficient: h,
+    radiationCoefficient: radiation.coefficient,
+    effectiveHeatTransferCoefficient: effectiveH,
+    finEfficiency: surface.finEfficiency,
+    surfaceEfficiency: surface.surfaceEfficiency,
+    convectiveResistance,
+    baseResistance,
+    totalResistance,
+    airTemperatureRise: capacity > 0 ? power / capacity : Infinity,
+    temperatureRise: power * totalResistance,
+    baseTemperature: ambient.temperature + power * totalResistance,
+  };
+}
+
+/**
+ * Steady-state forced convection through a heatsink at the
+ * operating point of the given fan. The flow is set with inlet air, and the
+ * heat transfer is iterated with air properties at the film temperature.
+ */
+export function solveForcedConvection(
+  input: ForcedConvectionInput
+): ForcedConvectionResult {
+  validateGeometry(input.geometry);
+  if (!(input.power > 0)) {
+    throw new RangeError("Power must be positive");
+  }
+  if (input.arrangement === "unducted") bypassArea(input);
+
+  const air = ambientAir(input.ambient);
+  const operatingPoint = findOperatingPoint(
+    ambientFanCurve(input),
+    (flow) => systemImpedance(input, air, flow).pressure
+  );
+  const { heatsinkFlow } = systemImpedance(input, air, operatingPoint.flow);
+  if (!(heatsinkFlow > 0)) {
+    throw new RangeError("The fan cannot push air through this heatsink");
+  }
+
+  // Film between the surface and the mean air temperature in the channels.
+  const { ambient } = input;
+  const step = (rise: number, airRise: number) =>
+    evaluate(
+      input,
+      air,
+      filmAir(
+        ambient,
+        ambient.temperature + rise,
+        ambient.temperature + airRise / 2
+      ),
+      operatingPoint,
+      heatsinkFlow,
+      rise
+    );
+  let temperatureRise = Math.max(1, input.power);
+  let result = step(temperatureRise, 0);
+  let iterations = 1;
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    const next = 0.5 * temperatureRise + 0.5 * result.temperatureRise;
+    if (Math.abs(next - temperatureRise) < TOLERANCE * Math.max(1, next)) {
+      break;
+    }
+    temperatureRise = next;
+    result = step(temperatureRise, result.airTemperatureRise);
+  }
+  return {
+    ...result,
+    filmTemperature:
+      ambient.temperature +
+      (temperatureRise + result.airTemperatureRise / 2) / 2,
+    iterations,
+    residual: Math.abs(result.temperatureRise - temperatureRise),
+  };
+}
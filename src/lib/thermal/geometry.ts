@@ -0,0 +1,73 @@
+import {
+  finSection,
+  meanChannelSpacing,
+  plateFinAreas,
+  plateFinSurface,
+  segmentCount,
+  segmentLength,
+  validatePlateFinGeometry,
+  type FinnedSurface,
+} from "./plate-fin";
+import {
+  pinFinAreas,
+  pinCount,
+  pinFinSurface,
+  pinFootprint,
+  pinGap,
+  validatePinFinGeometry,
+} from "./pin-fin";
+import type { HeatsinkGeometry } from "./types";
+
+export function validateGeometry(geometry: HeatsinkGeometry): void {
+  if (geometry.kind === "pin-fin") validatePinFinGeometry(geometry);
+  else validatePlateFinGeometry(geometry);
+}
+
+/**
+ * Clear gap between fins, averaged over their height, or between pin
+ * columns across the flow (m).
+ */
+export function clearSpacing(geometry: HeatsinkGeometry): number {
+  return geometry.kind === "pin-fin"
+    ? pinGap(geometry)
+    : meanChannelSpacing(geometry);
+}
+
+/** Fin plus exposed base area (m²). */
+export function wettedArea(geometry: HeatsinkGeometry): number {
+  const { finArea, baseArea } =
+    geometry.kind === "pin-fin" ? pinFinAreas(geometry) : plateFinAreas(geometry);
+  return finArea + baseArea;
+}
+
+export function finnedSurface(
+  geometry: HeatsinkGeometry,
+  conductivity: number,
+  heatTransferCoefficient: number
+): FinnedSurface {
+  return geometry.kind === "pin-fin"
+    ? pinFinSurface(geometry, conductivity, heatTransferCoefficient)
+    : plateFinSurface(geometry, conductivity, heatTransferCoefficient);
+}
+
+/** Area facing the approaching air in forced flow (m²). */
+export function frontalArea(geometry: HeatsinkGeometry): number {
+  return geometry.baseWidth * geometry.finHeight;
+}
+
+/** Volume of metal in the base and fins (m³). */
+export function solidVolume(geometry: HeatsinkGeometry): number {
+  const { baseWidth, baseLength, baseThickness, finHeight } = geometry;
+  const base = baseWidth * baseLength * baseThickness;
+  if (geometry.kind === "pin-fin") {
+    return base + pinCount(geometry) * pinFootprint(geometry) * finHeight;
+  }
+  const finLength = segmentCount(geometry) * segmentLength(geometry);
+  return base + geometry.finCount * finSection(geometry) * finLength;
+}
+
+/** Bounding box of the base and fins (m³). */
+export function envelopeVolume(geometry: HeatsinkGeometry): number {
+  const { baseWidth, baseLength, baseThickness, finHeight } = geometry;
+  return baseWidth * baseLength * (baseThickness + finHeight);
+}
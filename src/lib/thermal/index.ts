@@ -0,0 +1,35 @@
+export * from "./types";
+export * from "./constants";
+export * from "./tables";
+export * from "./bessel";
+export * from "./air";
+export * from "./materials";
+export * from "./fin";
+export * from "./plate-fin";
+export * from "./pin-fin";
+export * from "./geometry";
+export * from "./view-factors";
+export * from "./radiation";
+export * from "./natural-convection";
+export * from "./fan";
+export * from "./forced-convection";
+export * from "./spreading";
+export * from "./junction";
+export * from "./multi-source";
+export * from "./sparse";
+export * from "./network";
+export * from "./transient";
+export * from "./conduction";
+export * from "./derating";
+export * from "./random";
+export * from "./optimizer";
+export * from "./sensitivity";
+export * from "./monte-carlo";
+export * from "./extrusions";
+export * from "./manufacturing";
+export * from "./cost";
+export * from "./packages";
+export * from "./power-loss";
+export * from "./electro-thermal";
+export * from "./led";
+export * from "./assembly";
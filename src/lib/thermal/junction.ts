@@ -0,0 +1,48 @@
+import type { DeviceResistances } from "./types";
+
+/** Series path from junction to ambient with its temperatures. */
+export interface JunctionStack {
+  junctionToCase: number;
+  caseToSink: number;
+  spreading: number;
+  base: number;
+  convection: number;
+  /** Junction to ambient for this device's own power (K/W). */
+  total: number;
+  /** Heating of this device's footprint by other devices on the heatsink (K). */
+  mutualRise: number;
+  /** Mean heatsink temperature under the device (°C). */
+  sinkTemperature: number;
+  caseTemperature: number;
+  junctionTemperature: number;
+}
+
+export function junctionStack(
+  power: number,
+  ambientTemperature: number,
+  device: DeviceResistances,
+  heatsink: { baseResistance: number; convectiveResistance: number },
+  spreading = 0,
+  mutualRise = 0
+): JunctionStack {
+  const { junctionToCase, caseToSink } = device;
+  if (!(junctionToCase >= 0 && caseToSink >= 0)) {
+    throw new RangeError("Device resistances cannot be negative");
+  }
+  const sinkSide =
+    heatsink.convectiveResistance + heatsink.baseResistance + spreading;
+  const sinkTemperature = ambientTemperature + power * sinkSide + mutualRise;
+  const caseTemperature = sinkTemperature + power * caseToSink;
+  return {
+    junctionToCase,
+    caseToSink,
+    spreading,
+    base: heatsink.baseResistance,
+    convection: heatsink.convectiveResistance,
+    total: sinkSide + caseToSink + junctionToCase,
+    mutualRise,
+    sinkTemperature,
+    caseTemperature,
+    junctionTemperature: caseTemperature + power * junctionToCase,
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { LED_REFERENCE_TEMPERATURE, ledPower, type LedArray } from "./led";
+
+const array: LedArray = {
+  count: 10,
+  forwardVoltage: 3,
+  forwardVoltageCoefficient: -0.002,
+  current: 0.5,
+  wallPlugEfficiency: 0.4,
+  junctionToSolderPoint: 2,
+};
+
+describe("ledPower", () => {
+  it("takes the datasheet forward voltage at the reference temperature", () => {
+    const power = ledPower(array, LED_REFERENCE_TEMPERATURE);
+    expect(power.electrical).toBeCloseTo(15, 12);
+    expect(power.optical).toBeCloseTo(6, 12);
+    expect(power.heat).toBeCloseTo(9, 12);
+  });
+
+  it("moves the forward voltage with the junction temperature", () => {
+    // 100 K above the reference at -2 mV/K: 2.8 V per LED.
+    const power = ledPower(array, LED_REFERENCE_TEMPERATURE + 100);
+    expect(power.forwardVoltage).toBeCloseTo(2.8, 12);
+    expect(power.heat).toBeCloseTo(10 * 2.8 * 0.5 * 0.6, 12);
+  });
+
+  it("holds the forward voltage without a coefficient", () => {
+    const { forwardVoltageCoefficient: _, ...constant } = array;
+    expect(ledPower(constant, 125).forwardVoltage).toBe(3);
+  });
+
+  it("rejects a forward voltage driven to zero", () => {
+    expect(() =>
+      ledPower({ ...array, forwardVoltageCoefficient: -0.1 }, 60)
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,133 @@
+import { interpolate } from "./tables";
+
+/** Identical LEDs driven at the same current. */
+export interface LedArray {
+  count: number;
+  /** Forward voltage of one LED at `LED_REFERENCE_TEMPERATURE` (V). */
+  forwardVoltage: number;
+  /**
+   * Change in forward voltage per kelvin of junction temperature, usually a
+   * few mV/K below zero; none holds the forward voltage (V/K).
+   */
+  forwardVoltageCoefficient?: number;
+  /** Drive current of one LED (A). */
+  current: number;
+  /** Optical output over electrical input (0–1). */
+  wallPlugEfficiency: number;
+  /** Junction to solder point of one LED, Rth(j-sp) (K/W). */
+  junctionToSolderPoint: number;
+}
+
+/** Junction temperature the datasheet forward voltage is given at (°C). */
+export const LED_REFERENCE_TEMPERATURE = 25;
+
+/** W. */
+export interface LedPower {
+  /** Forward voltage of one LED at the junction temperature (V). */
+  forwardVoltage: number;
+  electrical: number;
+  optical: number;
+  /** Electrical less optical: what the heatsink has to remove. */
+  heat: number;
+}
+
+/** Flux relative to its value at 25 °C junction, from the datasheet. */
+export interface FluxPoint {
+  /** Junction temperature (°C). */
+  temperature: number;
+  relativeFlux: number;
+}
+
+/** Hours to 70 % of initial flux, from LM-80 data and a TM-21 projection. */
+export interface LifetimePoint {
+  /** Junction temperature (°C). */
+  temperature: number;
+  hours: number;
+}
+
+export interface LedPerformance {
+  relativeFlux: number;
+  /** Hours to 70 % of initial flux. */
+  l70: number;
+  /** The junction lies outside one of the curves, whose end value is used. */
+  outsideCurves: boolean;
+}
+
+export function validateLedArray(array: LedArray): void {
+  const { count, forwardVoltage, current, wallPlugEfficiency } = array;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new RangeError("An LED array needs a whole number of LEDs");
+  }
+  if (!(forwardVoltage > 0 && current > 0)) {
+    throw new RangeError("LED forward voltage and current must be positive");
+  }
+  if (!(wallPlugEfficiency >= 0 && wallPlugEfficiency < 1)) {
+    throw new RangeError("Wall-plug efficiency must be from 0 to 1");
+  }
+  if (!Number.isFinite(array.forwardVoltageCoefficient ?? 0)) {
+    throw new RangeError("LED forward voltage coefficient must be a number");
+  }
+  if (!(array.junctionToSolderPoint >= 0)) {
+    throw new RangeError("Rth(j-sp) cannot be negative");
+  }
+}
+
+/** Power drawn and dissipated with the junctions at `junctionTemperature`. */
+export function ledPower(
+  array: LedArray,
+  junctionTemperature = LED_REFERENCE_TEMPERATURE
+): LedPower {
+  validateLedArray(array);
+  const forwardVoltage =
+    array.forwardVoltage +
+    (array.forwardVoltageCoefficient ?? 0) *
+      (junctionTemperature - LED_REFERENCE_TEMPERATURE);
+  if (!(forwardVoltage > 0)) {
+    throw new RangeError(
+      "LED forward voltage falls to zero at this junction temperature"
+    );
+  }
+  const electrical = array.count * forwardVoltage * array.current;
+  const optical = electrical * array.wallPlugEfficiency;
+  return { forwardVoltage, electrical, optical, heat: electrical - optical };
+}
+
+/**
+ * Relative flux and L70 at a junction temperature. Lifetime is interpolated
+ * in its logarithm, as it falls roughly exponentially with temperature.
+ * Neither curve is extrapolated, in the spirit of TM-21.
+ */
+export function ledPerformance(
+  flux: FluxPoint[],
+  lifetime: LifetimePoint[],
+  junctionTemperature: number
+): LedPerformance {
+  if (flux.length === 0 || lifetime.length === 0) {
+    throw new RangeError(
+      "LED flux and lifetime curves need at least one point"
+    );
+  }
+  const byTemperature = <T extends { temperature: number }>(points: T[]) =>
+    [...points].sort((a, b) => a.temperature - b.temperature);
+  const fluxPoints = byTemperature(flux);
+  const lifePoints = byTemperature(lifetime);
+  const within = (points: { temperature: number }[]) =>
+    junctionTemperature >= points[0].temperature &&
+    junctionTemperature <= points[points.length - 1].temperature;
+
+  return {
+    relativeFlux: interpolate(
+      fluxPoints.map((p) => p.temperature),
+      fluxPoints.map((p) => p.relativeFlux),
+      junctionTemperature
+    ),
+    l70: Math.exp(
+      interpolate(
+        lifePoints.map((p) => p.temperature),
+        lifePoints.map((p) => Math.log(p.hours)),
+        junctionTemperature
+      )
+    ),
+    outsideCurves: !within(fluxPoints) || !within(lifePoints),
+  };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkDesignRules,
+  getManufacturingProcess,
+  type DesignRuleCheck,
+} from "./manufacturing";
+import type { PinFinGeometry, PlateFinGeometry } from "./types";
+
+const PLATE: PlateFinGeometry = {
+  kind: "plate-fin",
+  baseWidth: 0.1,
+  baseLength: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  finThickness: 0.0015,
+  finCount: 10,
+};
+
+const PINS: PinFinGeometry = {
+  kind: "pin-fin",
+  shape: "round",
+  layout: "inline",
+  pinSize: 0.003,
+  baseWidth: 0.1,
+  baseLength: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  rows: 20,
+  columns: 10,
+};
+
+const EXTRUDED = getManufacturingProcess("extruded");
+
+const failed = (checks: DesignRuleCheck[]) =>
+  checks.filter((c) => !c.passed).map((c) => [c.rule, c.field]);
+
+describe("checkDesignRules", () => {
+  it("passes a plain extrusion on every rule", () => {
+    const checks = checkDesignRules(PLATE, EXTRUDED);
+    expect(checks.map((c) => c.rule)).toEqual([
+      "aspect-ratio",
+      "fin-thickness",
+      "gap",
+      "base-width",
+    ]);
+    expect(failed(checks)).toEqual([]);
+    // Fin height over the 9.44 mm root gap.
+    expect(checks[0].value).toBeCloseTo(0.03 / (0.085 / 9), 9);
+  });
+
+  it("flags fins too close for the die and allows them when skived", () => {
+    const dense = { ...PLATE, finCount: 30 };
+    expect(failed(checkDesignRules(dense, EXTRUDED))).toEqual([
+      ["aspect-ratio", "finHeight"],
+      ["gap", "finCount"],
+    ]);
+    expect(
+      failed(checkDesignRules(dense, getManufacturingProcess("skived")))
+    ).toEqual([]);
+  });
+
+  it("measures tapered fins at the tip", () => {
+    const tapered: PlateFinGeometry = {
+      ...PLATE,
+      profile: { kind: "tapered", tipThickness: 0.0005 },
+    };
+    const [, thickness] = checkDesignRules(tapered, EXTRUDED);
+    expect(thickness).toMatchObject({
+      field: "tipThickness",
+      value: 0.0005,
+      passed: false,
+    });
+  });
+
+  it("takes the narrower pin gap, here along the flow", () => {
+    const [aspect, thickness, gap] = checkDesignRules(PINS, EXTRUDED);
+    expect(gap.field).toBe("rows");
+    expect(gap.value).toBeCloseTo(0.002, 12);
+    expect(aspect.value).toBeCloseTo(15, 9);
+    expect(thickness.field).toBe("pinSize");
+  });
+
+  it("flags a base wider than the process makes", () => {
+    const forged = getManufacturingProcess("forged");
+    const wide = { ...PLATE, baseWidth: 0.2, finCount: 20 };
+    expect(failed(checkDesignRules(wide, forged))).toEqual([
+      ["base-width", "baseWidth"],
+    ]);
+  });
+
+  it("checks nothing on an invalid geometry", () => {
+    expect(checkDesignRules({ ...PLATE, finCount: 0 }, EXTRUDED)).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { validateGeometry } from "./geometry";
+import { longitudinalPitch, pinGap } from "./pin-fin";
+import { channelSpacing, tipThickness } from "./plate-fin";
+import type { HeatsinkGeometry } from "./types";
+
+export type ManufacturingProcessId =
+  | "extruded"
+  | "skived"
+  | "bonded-fin"
+  | "die-cast"
+  | "forged"
+  | "cnc-machined"
+  | "folded-fin";
+
+/** What a process can make; lengths in metres. */
+export interface ManufacturingProcess {
+  id: ManufacturingProcessId;
+  label: string;
+  /** Fin height over the clear gap at the fin root. */
+  maxAspectRatio: number;
+  /** Thinnest fin or pin, measured at the tip of tapered fins. */
+  minFinThickness: number;
+  minGap: number;
+  maxBaseWidth: number;
+}
+
+// Typical supplier capabilities for aluminium; copper skived and bonded fins
+// reach about the same ratios. Tighter values are possible at extra cost.
+export const MANUFACTURING_PROCESSES: ManufacturingProcess[] = [
+  {
+    id: "extruded",
+    label: "Extruded",
+    maxAspectRatio: 8,
+    minFinThickness: 0.001,
+    minGap: 0.002,
+    maxBaseWidth: 0.6,
+  },
+  {
+    id: "skived",
+    label: "Skived",
+    maxAspectRatio: 25,
+    minFinThickness: 0.0003,
+    minGap: 0.0005,
+    maxBaseWidth: 0.4,
+  },
+  {
+    id: "bonded-fin",
+    label: "Bonded fin",
+    maxAspectRatio: 60,
+    minFinThickness: 0.0006,
+    minGap: 0.0015,
+    maxBaseWidth: 1,
+  },
+  {
+    id: "die-cast",
+    label: "Die-cast",
+    maxAspectRatio: 6,
+    minFinThickness: 0.0015,
+    minGap: 0.0025,
+    maxBaseWidth: 0.5,
+  },
+  {
+    id: "forged",
+    label: "Cold forged",
+    maxAspectRatio: 15,
+    minFinThickness: 0.0008,
+    minGap: 0.0015,
+    maxBaseWidth: 0.15,
+  },
+  {
+    id: "cnc-machined",
+    label: "CNC machined",
+    maxAspectRatio: 15,
+    minFinThickness: 0.0008,
+    minGap: 0.001,
+    maxBaseWidth: 1,
+  },
+  {
+    id: "folded-fin",
+    label: "Folded fin",
+    maxAspectRatio: 40,
+    minFinThickness: 0.0001,
+    minGap: 0.001,
+    maxBaseWidth: 0.5,
+  },
+];
+
+export function getManufacturingProcess(
+  id: ManufacturingProcessId
+): ManufacturingProcess {
+  const process = MANUFACTURING_PROCESSES.find((p) => p.id === id);
+  if (!process) throw new Error(`Unknown manufacturing process: ${id}`);
+  return process;
+}
+
+export type DesignRule =
+  "aspect-ratio" | "fin-thickness" | "gap" | "base-width";
+
+/** One rule applied to a design; `field` names the geometry input at fault. */
+export interface DesignRuleCheck {
+  rule: DesignRule;
+  field: string;
+  value: number;
+  limit: number;
+  passed: boolean;
+}
+
+/**
+ * Checks a geometry against a process's rules, every rule in turn. An
+ * invalid geometry has nothing to check and returns no results.
+ */
+export function checkDesignRules(
+  geometry: HeatsinkGeometry,
+  process: ManufacturingProcess
+): DesignRuleCheck[] {
+  try {
+    validateGeometry(geometry);
+  } catch {
+    return [];
+  }
+  const pins = geometry.kind === "pin-fin";
+  // The die tongue, saw or cutter has to fit the narrowest gap, at the root.
+  let gap: number;
+  let gapField: string;
+  if (pins) {
+    const across = pinGap(geometry);
+    const along = longitudinalPitch(geometry) - geometry.pinSize;
+    gap = Math.min(across, along);
+    gapField = across <= along ? "columns" : "rows";
+  } else {
+    gap = channelSpacing(geometry);
+    gapField = "finCount";
+  }
+  const thinnest = pins ? geometry.pinSize : tipThickness(geometry);
+  const thicknessField = pins
+    ? "pinSize"
+    : geometry.profile?.kind === "tapered"
+      ? "tipThickness"
+      : "finThickness";
+  const atMost = (
+    rule: DesignRule,
+    field: string,
+    value: number,
+    limit: number
+  ) => ({ rule, field, value, limit, passed: value <= limit });
+  const atLeast = (
+    rule: DesignRule,
+    field: string,
+    value: number,
+    limit: number
+  ) => ({ rule, field, value, limit, passed: value >= limit });
+
+  return [
+    atMost(
+      "aspect-ratio",
+      "finHeight",
+      geometry.finHeight / gap,
+      process.maxAspectRatio
+    ),
+    atLeast("fin-thickness", thicknessField, thinnest, process.minFinThickness),
+    atLeast("gap", gapField, gap, process.minGap),
+    atMost("base-width", "baseWidth", geometry.baseWidth, process.maxBaseWidth),
+  ];
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { findMaterial, layerResistance } from "./materials";
+
+describe("layerResistance", () => {
+  it("is the bond line over conductivity and area", () => {
+    const grease = findMaterial("grease")!;
+    // 0.1 mm of 3 W/m·K grease under a 10 × 15 mm tab.
+    expect(layerResistance(grease, 1e-4, 1.5e-4)).toBeCloseTo(0.2222, 4);
+  });
+
+  it("needs a positive thickness and area", () => {
+    const grease = findMaterial("grease")!;
+    expect(() => layerResistance(grease, 0, 1e-4)).toThrow(RangeError);
+    expect(() => layerResistance(grease, 1e-4, -1)).toThrow(RangeError);
+  });
+});
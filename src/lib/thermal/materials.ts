@@ -0,0 +1,200 @@
+import { interpolate } from "./tables";
+import type { HeatsinkMaterial } from "./types";
+
+/** What a material is suited to; the heatsink form offers the first two. */
+export type MaterialUse = "heatsink" | "spreader" | "interface";
+
+/** A library material with everything the analyses and cost model need. */
+export interface MaterialGrade extends HeatsinkMaterial {
+  id: string;
+  uses: MaterialUse[];
+  density: number;
+  specificHeat: number;
+  costPerKg: number;
+  /** Total hemispherical emissivity of the bare surface. */
+  emissivity: number;
+}
+
+// Pure metals from Incropera, Table A.1 (200, 300, 400 and 500 K), scaled
+// to each grade's room temperature conductivity.
+const PURE_COPPER = [413, 401, 393, 386];
+const PURE_ALUMINIUM = [237, 237, 240, 236];
+const TABLE_TEMPERATURES = [-73.15, 26.85, 126.85, 226.85];
+
+function scaledTable(pure: number[], conductivity: number) {
+  return {
+    temperatures: TABLE_TEMPERATURES,
+    conductivities: pure.map((k) => (k * conductivity) / pure[1]),
+  };
+}
+
+// Typical handbook values; prices are indicative raw material costs in USD.
+export const MATERIALS: MaterialGrade[] = [
+  {
+    id: "al-6063-t5",
+    name: "Aluminium 6063-T5",
+    uses: ["heatsink"],
+    conductivity: 209,
+    density: 2700,
+    specificHeat: 900,
+    costPerKg: 3.2,
+    emissivity: 0.09,
+  },
+  {
+    id: "al-6061-t6",
+    name: "Aluminium 6061-T6",
+    uses: ["heatsink"],
+    conductivity: 167,
+    density: 2700,
+    specificHeat: 896,
+    costPerKg: 3.8,
+    emissivity: 0.09,
+  },
+  {
+    id: "al-1050a",
+    name: "Aluminium 1050A",
+    uses: ["heatsink", "spreader"],
+    conductivity: 229,
+    conductivityTable: scaledTable(PURE_ALUMINIUM, 229),
+    density: 2705,
+    specificHeat: 900,
+    costPerKg: 3.0,
+    emissivity: 0.09,
+  },
+  {
+    id: "al-adc12",
+    name: "Aluminium ADC12 (die cast)",
+    uses: ["heatsink"],
+    conductivity: 96,
+    density: 2740,
+    specificHeat: 963,
+    costPerKg: 2.6,
+    emissivity: 0.2,
+  },
+  {
+    id: "cu-c110",
+    name: "Copper C110",
+    uses: ["heatsink", "spreader"],
+    conductivity: 388,
+    conductivityTable: scaledTable(PURE_COPPER, 388),
+    density: 8890,
+    specificHeat: 385,
+    costPerKg: 9.5,
+    emissivity: 0.05,
+  },
+  {
+    id: "alsic-9",
+    name: "AlSiC-9",
+    uses: ["spreader"],
+    conductivity: 200,
+    density: 3010,
+    specificHeat: 741,
+    costPerKg: 60,
+    emissivity: 0.3,
+  },
+  {
+    id: "cuw-10",
+    name: "Copper-tungsten 10/90",
+    uses: ["spreader"],
+    conductivity: 180,
+    density: 17000,
+    specificHeat: 160,
+    costPerKg: 90,
+    emissivity: 0.1,
+  },
+  {
+    id: "grease",
+    name: "Thermal grease",
+    uses: ["interface"],
+    conductivity: 3,
+    density: 2500,
+    specificHeat: 1000,
+    costPerKg: 150,
+    emissivity: 0.9,
+  },
+  {
+    id: "gap-pad",
+    name: "Silicone gap pad",
+    uses: ["interface"],
+    conductivity: 1.5,
+    density: 2900,
+    specificHeat: 1000,
+    costPerKg: 120,
+    emissivity: 0.9,
+  },
+  {
+    id: "phase-change",
+    name: "Phase change material",
+    uses: ["interface"],
+    conductivity: 0.7,
+    density: 2000,
+    specificHeat: 1500,
+    costPerKg: 200,
+    emissivity: 0.9,
+  },
+  {
+    id: "indium",
+    name: "Indium foil",
+    uses: ["interface"],
+    conductivity: 86,
+    density: 7310,
+    specificHeat: 233,
+    costPerKg: 700,
+    emissivity: 0.05,
+  },
+];
+
+export function findMaterial(
+  id: string,
+  materials: MaterialGrade[] = MATERIALS
+): MaterialGrade | undefined {
+  return materials.find((m) => m.id === id);
+}
+
+/**
+ * Conductivity at a temperature (°C): interpolated in the material's table
+ * and held at its end values, or the single value when there is no table.
+ */
+export function materialConductivity(
+  material: HeatsinkMaterial,
+  temperature: number
+): number {
+  const table = material.conductivityTable;
+  if (!table || !Number.isFinite(temperature)) return material.conductivity;
+  return interpolate(table.temperatures, table.conductivities, temperature);
+}
+
+/** Resistance across a uniform layer of the material, such as a TIM (K/W). */
+export function layerResistance(
+  material: HeatsinkMaterial,
+  thickness: number,
+  area: number
+): number {
+  if (!(thickness > 0 && area > 0)) {
+    throw new RangeError("A layer needs a positive thickness and area");
+  }
+  return thickness / (material.conductivity * area);
+}
+
+export function validateMaterial(material: MaterialGrade): void {
+  if (!material.name.trim()) {
+    throw new RangeError("A material needs a name");
+  }
+  const positive = {
+    conductivity: material.conductivity,
+    density: material.density,
+    "specific heat": material.specificHeat,
+  };
+  for (const [name, value] of Object.entries(positive)) {
+    if (!(value > 0)) throw new RangeError(`The ${name} must be positive`);
+  }
+  if (!(material.costPerKg >= 0)) {
+    throw new RangeError("The cost per kg cannot be negative");
+  }
+  if (!(material.emissivity >= 0 && material.emissivity <= 1)) {
+    throw new RangeError("Emissivity must be between 0 and 1");
+  }
+  if (material.uses.length === 0) {
+    throw new RangeError("A material needs at least one use");
+  }
+}
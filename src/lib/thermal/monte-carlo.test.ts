@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  monteCarlo,
+  percentile,
+  sampleDistribution,
+  validateDistribution,
+  type Distribution,
+} from "./monte-carlo";
+import { seededRandom } from "./random";
+
+/** Mean and sample standard deviation of many draws. */
+function moments(distribution: Distribution, n = 20000) {
+  const random = seededRandom(3);
+  const values = Array.from({ length: n }, () =>
+    sampleDistribution(distribution, random)
+  );
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1);
+  return {
+    mean,
+    sd: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+describe("sampleDistribution", () => {
+  it("draws a normal input with its standard deviation", () => {
+    const { mean, sd } = moments({ kind: "normal", nominal: 10, spread: 2 });
+    expect(mean).toBeCloseTo(10, 1);
+    expect(sd).toBeCloseTo(2, 1);
+  });
+
+  it("keeps uniform and triangular inputs within their half-width", () => {
+    // Standard deviations a/√3 and a/√6 for a half-width a.
+    const uniform = moments({ kind: "uniform", nominal: 5, spread: 1 });
+    expect(uniform.min).toBeGreaterThanOrEqual(4);
+    expect(uniform.max).toBeLessThanOrEqual(6);
+    expect(uniform.sd).toBeCloseTo(1 / Math.sqrt(3), 2);
+    const triangular = moments({ kind: "triangular", nominal: 5, spread: 1 });
+    expect(triangular.min).toBeGreaterThanOrEqual(4);
+    expect(triangular.max).toBeLessThanOrEqual(6);
+    expect(triangular.mean).toBeCloseTo(5, 2);
+    expect(triangular.sd).toBeCloseTo(1 / Math.sqrt(6), 2);
+  });
+
+  it("rejects a negative spread", () => {
+    expect(() =>
+      validateDistribution({ kind: "normal", nominal: 1, spread: -1 })
+    ).toThrow(RangeError);
+  });
+});
+
+describe("percentile", () => {
+  it("interpolates between order statistics", () => {
+    expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(percentile([0, 10], 0.95)).toBeCloseTo(9.5, 12);
+    expect(percentile([], 0.5)).toBeNaN();
+  });
+});
+
+describe("monteCarlo", () => {
+  const normal: Distribution = { kind: "normal", nominal: 80, spread: 5 };
+  const trial = (random: () => number) => {
+    const junctionTemperature = sampleDistribution(normal, random);
+    return { junctionTemperature, margin: 90 - junctionTemperature };
+  };
+
+  it("recovers the statistics of a known distribution", () => {
+    const result = monteCarlo(trial, { samples: 20000, seed: 2 });
+    expect(result.failures).toBe(0);
+    expect(result.mean).toBeCloseTo(80, 0);
+    expect(result.standardDeviation).toBeCloseTo(5, 0);
+    // 1.645σ and 2.326σ above the mean; 2σ to the limit leaves 2.3%.
+    expect(result.p95).toBeCloseTo(80 + 1.645 * 5, 0);
+    expect(result.p99).toBeCloseTo(80 + 2.326 * 5, 0);
+    expect(result.exceedance).toBeCloseTo(0.023, 2);
+    expect(result.histogram.reduce((s, b) => s + b.count, 0)).toBe(20000);
+    expect(result.cumulative.at(-1)?.probability).toBe(1);
+  });
+
+  it("repeats a run with the same seed", () => {
+    expect(monteCarlo(trial, { samples: 200, seed: 9 })).toEqual(
+      monteCarlo(trial, { samples: 200, seed: 9 })
+    );
+  });
+
+  it("counts trials that throw as failures", () => {
+    let i = 0;
+    const result = monteCarlo(
+      (random) => {
+        if (i++ % 4 === 0) throw new Error("no solution");
+        return trial(random);
+      },
+      { samples: 400 }
+    );
+    expect(result.failures).toBe(100);
+    expect(result.histogram.reduce((s, b) => s + b.count, 0)).toBe(300);
+  });
+
+  it("needs a positive whole number of samples", () => {
+    expect(() => monteCarlo(trial, { samples: 0 })).toThrow(RangeError);
+    expect(() => monteCarlo(trial, { samples: 1.5 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,192 @@
+import { seededRandom, standardNormal, type RandomSource } from "./random";
+
+export type DistributionKind = "normal" | "uniform" | "triangular";
+
+/**
+ * Spread of an uncertain input about its nominal value: the standard
+ * deviation for `normal`, the half-width for `uniform` and `triangular`
+ * (the latter peaking at the nominal value).
+ */
+export interface Distribution {
+  kind: DistributionKind;
+  nominal: number;
+  spread: number;
+}
+
+/** Id of the convection coefficient factor among the uncertain inputs. */
+export const CORRELATION_INPUT = "correlation";
+
+/**
+ * One input treated as uncertain in the Monte Carlo study. `id` is a
+ * sensitivity parameter id, or `CORRELATION_INPUT` for a factor on the
+ * convection coefficient.
+ */
+export interface UncertainInput {
+  id: string;
+  kind: DistributionKind;
+  /**
+   * Spread as a fraction of the nominal value, or in SI (K, m) for an input
+   * with a fixed sensitivity `step` such as ambient temperature or altitude.
+   */
+  tolerance: number;
+  enabled: boolean;
+}
+
+/** Outcome of one sample of the model. */
+export interface MonteCarloTrial {
+  /** Hottest junction (°C). */
+  junctionTemperature: number;
+  /** Smallest margin to any device's maximum junction temperature (K). */
+  margin: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface CumulativePoint {
+  junctionTemperature: number;
+  /** Share of samples at or below this temperature (0–1). */
+  probability: number;
+}
+
+export interface MonteCarloResult {
+  samples: number;
+  /** Samples the model rejected, left out of the statistics. */
+  failures: number;
+  mean: number;
+  standardDeviation: number;
+  p95: number;
+  p99: number;
+  /** Share of samples with a junction over its limit (0–1). */
+  exceedance: number;
+  histogram: HistogramBin[];
+  cumulative: CumulativePoint[];
+}
+
+export interface MonteCarloOptions {
+  samples?: number;
+  seed?: number;
+  bins?: number;
+}
+
+export type MonteCarloProgress = (fraction: number) => void;
+
+const CUMULATIVE_POINTS = 100;
+
+export function validateDistribution(distribution: Distribution): void {
+  if (!(distribution.spread >= 0)) {
+    throw new RangeError("Distribution spread cannot be negative");
+  }
+}
+
+export function sampleDistribution(
+  distribution: Distribution,
+  random: RandomSource
+): number {
+  const { kind, nominal, spread } = distribution;
+  switch (kind) {
+    case "normal":
+      return nominal + spread * standardNormal(random);
+    case "uniform":
+      return nominal + spread * (2 * random() - 1);
+    case "triangular": {
+      // Symmetric about the nominal, so the inverse CDF is two square roots.
+      const u = random();
+      const offset =
+        u < 0.5 ? Math.sqrt(2 * u) - 1 : 1 - Math.sqrt(2 * (1 - u));
+      return nominal + spread * offset;
+    }
+  }
+}
+
+/** Linear interpolation between order statistics of sorted values. */
+export function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = fraction * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+}
+
+function histogram(sorted: number[], bins: number): HistogramBin[] {
+  if (sorted.length === 0) return [];
+  const low = sorted[0];
+  const width = (sorted[sorted.length - 1] - low) / bins || 1;
+  const result = Array.from({ length: bins }, (_, i) => ({
+    from: low + i * width,
+    to: low + (i + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    result[Math.min(bins - 1, Math.floor((value - low) / width))].count++;
+  }
+  return result;
+}
+
+/**
+ * Runs `trial` once per sample with a shared seeded random source, from which
+ * it draws its own inputs. Trials that throw count as failures.
+ */
+export function monteCarlo(
+  trial: (random: RandomSource) => MonteCarloTrial,
+  options: MonteCarloOptions = {},
+  onProgress?: MonteCarloProgress
+): MonteCarloResult {
+  const samples = options.samples ?? 2000;
+  if (!(Number.isInteger(samples) && samples > 0)) {
+    throw new RangeError("Sample count must be a positive whole number");
+  }
+  const random = seededRandom(options.seed ?? 1);
+  const temperatures: number[] = [];
+  let exceeded = 0;
+  let failures = 0;
+  const reportEvery = Math.max(1, Math.floor(samples / 100));
+
+  for (let i = 0; i < samples; i++) {
+    let outcome: MonteCarloTrial | undefined;
+    try {
+      outcome = trial(random);
+    } catch {
+      outcome = undefined;
+    }
+    if (outcome && Number.isFinite(outcome.junctionTemperature)) {
+      temperatures.push(outcome.junctionTemperature);
+      if (outcome.margin < 0) exceeded++;
+    } else {
+      failures++;
+    }
+    if ((i + 1) % reportEvery === 0) onProgress?.((i + 1) / samples);
+  }
+
+  const n = temperatures.length;
+  const mean = temperatures.reduce((s, t) => s + t, 0) / n;
+  const variance =
+    temperatures.reduce((s, t) => s + (t - mean) ** 2, 0) / Math.max(1, n - 1);
+  const sorted = temperatures.sort((a, b) => a - b);
+  const step = Math.max(1, Math.floor(n / CUMULATIVE_POINTS));
+  const cumulative: CumulativePoint[] = [];
+  for (let i = step - 1; i < n; i += step) {
+    cumulative.push({
+      junctionTemperature: sorted[i],
+      probability: (i + 1) / n,
+    });
+  }
+  if (n > 0 && cumulative[cumulative.length - 1]?.probability !== 1) {
+    cumulative.push({ junctionTemperature: sorted[n - 1], probability: 1 });
+  }
+
+  return {
+    samples,
+    failures,
+    mean,
+    standardDeviation: Math.sqrt(variance),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+    exceedance: n > 0 ? exceeded / n : NaN,
+    histogram: histogram(sorted, options.bins ?? 30),
+    cumulative,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { solveMultiSource } from "./multi-source";
+import { spreadingResistance } from "./spreading";
+import type { MountedDevice } from "./types";
+
+const BASE = { baseWidth: 0.1, baseLength: 0.1, baseThickness: 0.005 };
+const HEATSINK = { baseResistance: 0.05, convectiveResistance: 1 };
+
+const device = (id: string, x: number, power: number): MountedDevice => ({
+  id,
+  name: id,
+  power,
+  width: 0.02,
+  length: 0.02,
+  x,
+  y: 0.05,
+  junctionToCase: 0.5,
+  caseToSink: 0.2,
+  maxJunctionTemperature: 150,
+});
+
+describe("solveMultiSource", () => {
+  const devices = [device("a", 0.03, 10), device("b", 0.07, 5)];
+  const input = {
+    base: BASE,
+    conductivity: 200,
+    ambientTemperature: 25,
+    heatsink: HEATSINK,
+    devices,
+  };
+
+  it("reports each device's own spreading resistance once", () => {
+    const { spreading, coupling } = solveMultiSource(input);
+    devices.forEach((d, i) => {
+      const own = spreadingResistance(BASE, 200, d, 1);
+      expect(spreading[i]).toBeCloseTo(own, 12);
+      expect(coupling[i][i]).toBeCloseTo(1.05 + own, 12);
+    });
+  });
+
+  it("keeps the spreading resistance when it is excluded", () => {
+    const result = solveMultiSource({ ...input, includeSpreading: false });
+    expect(result.spreading[0]).toBeGreaterThan(0);
+    // Every device then sits on the uniform heatsink temperature.
+    expect(result.devices[0].stack.sinkTemperature).toBeCloseTo(
+      25 + 15 * 1.05,
+      9
+    );
+  });
+
+  it("adds the stack above the heatsink to each junction", () => {
+    const { devices: results } = solveMultiSource(input);
+    const { stack } = results[1];
+    expect(stack.junctionTemperature - stack.sinkTemperature).toBeCloseTo(
+      5 * 0.7,
+      9
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { junctionStack, type JunctionStack } from "./junction";
+import {
+  spreadingCoupling,
+  spreadingResistance,
+  uniformSinkCoefficient,
+  validateHeatSource,
+} from "./spreading";
+import type { BaseplateDimensions, MountedDevice } from "./types";
+
+export interface MultiSourceInput {
+  base: BaseplateDimensions;
+  conductivity: number;
+  ambientTemperature: number;
+  /** Heatsink resistances found for the total dissipated power. */
+  heatsink: { baseResistance: number; convectiveResistance: number };
+  devices: MountedDevice[];
+  /** Without spreading every device sees the uniform heatsink temperature. */
+  includeSpreading?: boolean;
+}
+
+export interface DeviceResult {
+  device: MountedDevice;
+  stack: JunctionStack;
+  /** Tj max minus Tj (K); negative when the device is overheated. */
+  margin: number;
+  pass: boolean;
+}
+
+export interface MultiSourceResult {
+  /** Each device's own spreading resistance, whether or not it is included. */
+  spreading: number[];
+  /**
+   * Coupling matrix: mean rise of device i's footprint per watt in device j
+   * (K/W), including the uniform base and sink resistance.
+   */
+  coupling: number[][];
+  devices: DeviceResult[];
+}
+
+export function totalDevicePower(devices: MountedDevice[]): number {
+  return devices.reduce((sum, device) => sum + device.power, 0);
+}
+
+/** Each device's own spreading resistance into the baseplate (K/W). */
+export function deviceSpreading(
+  input: Omit<MultiSourceInput, "ambientTemperature">
+): number[] {
+  const { base, conductivity, heatsink } = input;
+  return input.devices.map((device) =>
+    spreadingResistance(
+      base,
+      conductivity,
+      device,
+      heatsink.convectiveResistance
+    )
+  );
+}
+
+/**
+ * Source-to-source coupling coefficients of devices sharing one baseplate.
+ * The diagonal holds each device's own base, sink and spreading resistance;
+ * pass `spreading` when it is already known.
+ */
+export function couplingMatrix(
+  input: Omit<MultiSourceInput, "ambientTemperature">,
+  spreading = deviceSpreading(input)
+): number[][] {
+  const { base, conductivity, heatsink, devices } = input;
+  const uniform = heatsink.baseResistance + heatsink.convectiveResistance;
+  if (input.includeSpreading === false) {
+    return devices.map(() => devices.map(() => uniform));
+  }
+
+  const sinkCoefficient = uniformSinkCoefficient(
+    base,
+    heatsink.convectiveResistance
+  );
+  const matrix = devices.map(() => devices.map(() => uniform));
+  devices.forEach((device, i) => {
+    matrix[i][i] += spreading[i];
+    for (let j = i + 1; j < devices.length; j++) {
+      const mutual = spreadingCoupling(
+        base,
+        conductivity,
+        devices[j],
+        device,
+        sinkCoefficient
+      );
+      // Reciprocity makes the matrix symmetric.
+      matrix[i][j] += mutual;
+      matrix[j][i] += mutual;
+    }
+  });
+  return matrix;
+}
+
+/**
+ * Case and junction temperatures of several devices on one heatsink by
+ * superposition of their coupled footprint temperature rises.
+ */
+export function solveMultiSource(input: MultiSourceInput): MultiSourceResult {
+  const { base, ambientTemperature, heatsink, devices } = input;
+  if (devices.length === 0) {
+    throw new RangeError("Add at least one heat source");
+  }
+  devices.forEach((device) => {
+    validateHeatSource(base, device);
+    if (!(device.power >= 0)) {
+      throw new RangeError(`${device.name}: power cannot be negative`);
+    }
+  });
+
+  const spreading = deviceSpreading(input);
+  const coupling = couplingMatrix(input, spreading);
+  const uniform = heatsink.baseResistance + heatsink.convectiveResistance;
+
+  return {
+    spreading,
+    coupling,
+    devices: devices.map((device, i) => {
+      const mutualRise = devices.reduce(
+        (sum, other, j) => (j === i ? sum : sum + coupling[i][j] * other.power),
+        0
+      );
+      const stack = junctionStack(
+        device.power,
+        ambientTemperature,
+        device,
+        heatsink,
+        coupling[i][i] - uniform,
+        mutualRise
+      );
+      const margin = device.maxJunctionTemperature - stack.junctionTemperature;
+      return { device, stack, margin, pass: margin >= 0 };
+    }),
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { AirProperties } from "./air";
+import {
+  channelNusselt,
+  horizontalCylinderNusselt,
+  optimumFinSpacing,
+  rayleighNumber,
+  verticalPlateNusselt,
+} from "./natural-convection";
+
+// A heatsink 18 cm along the flow at 80 °C in 25 °C air, with properties
+// at the 52.5 °C film; expected values worked by hand.
+const FILM_AIR: AirProperties = {
+  density: 1.075,
+  kinematicViscosity: 1.815e-5,
+  conductivity: 0.02772,
+  diffusivity: 1.815e-5 / 0.7215,
+  specificHeat: 1007,
+  prandtl: 0.7215,
+  expansion: 1 / 325.5,
+};
+
+describe("rayleighNumber", () => {
+  it("is gβΔT·L³·Pr/ν²", () => {
+    const ra = rayleighNumber(FILM_AIR, 55, 0.18);
+    expect(ra / 2.117e7).toBeCloseTo(1, 3);
+  });
+});
+
+describe("optimumFinSpacing", () => {
+  it("is 2.714 · L · Ra^(-1/4)", () => {
+    expect(optimumFinSpacing(FILM_AIR, 55, 0.18)).toBeCloseTo(7.2e-3, 5);
+  });
+
+  it("is unbounded without a temperature rise", () => {
+    expect(optimumFinSpacing(FILM_AIR, 0, 0.18)).toBe(Infinity);
+  });
+});
+
+describe("channelNusselt", () => {
+  it("gives Nu = 1.307 at the optimum spacing", () => {
+    // El = Ra_s · s/L = 2.714⁴ at s_opt.
+    expect(channelNusselt(2.714 ** 4)).toBeCloseTo(1.307, 3);
+  });
+
+  it("tends to the fully developed limit El/24 in narrow channels", () => {
+    expect(channelNusselt(0.01) / (0.01 / 24)).toBeCloseTo(1, 3);
+    expect(channelNusselt(0.01, "elenbaas") / (0.01 / 24)).toBeCloseTo(1, 3);
+  });
+
+  it("tends to the isolated plate in wide channels", () => {
+    const el = 1e8;
+    expect(channelNusselt(el) / (el ** 0.25 / Math.sqrt(2.873))).toBeCloseTo(
+      1,
+      3
+    );
+    expect(
+      channelNusselt(el, "elenbaas") / ((35 ** 0.75 / 24) * el ** 0.25)
+    ).toBeCloseTo(1, 3);
+  });
+
+  it("is zero without buoyancy", () => {
+    expect(channelNusselt(0)).toBe(0);
+  });
+});
+
+describe("verticalPlateNusselt", () => {
+  it("matches the Churchill–Chu laminar correlation", () => {
+    // Incropera, Eq. 9.27, Ra = 1e6 and Pr = 0.71.
+    expect(verticalPlateNusselt(1e6, 0.71)).toBeCloseTo(16.94, 1);
+  });
+});
+
+describe("horizontalCylinderNusselt", () => {
+  it("matches the Churchill–Chu correlation", () => {
+    // Incropera, Eq. 9.34, Ra = 1e6 and Pr = 0.71.
+    expect(horizontalCylinderNusselt(1e6, 0.71)).toBeCloseTo(14.54, 2);
+  });
+});
@@ -0,0 +1,422 @@
+import { filmAir, type AirProperties } from "./air";
+import { GRAVITY } from "./constants";
+import {
+  clearSpacing,
+  finnedSurface,
+  validateGeometry,
+  wettedArea,
+} from "./geometry";
+import { materialConductivity } from "./materials";
+import { baseConductionResistance, segmentLength } from "./plate-fin";
+import { radiationHeatTransfer } from "./radiation";
+import type {
+  FilmIteration,
+  HeatsinkOrientation,
+  NaturalConvectionCorrelation,
+  NaturalConvectionInput,
+  NaturalConvectionResult,
+  PlateArrayGeometry,
+} from "./types";
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-6;
+
+/** Rayleigh number gβΔT·L³/(να) for a characteristic length. */
+export function rayleighNumber(
+  air: AirProperties,
+  temperatureRise: number,
+  length: number
+): number {
+  return (
+    (GRAVITY * air.expansion * temperatureRise * length ** 3) /
+    (air.kinematicViscosity * air.diffusivity)
+  );
+}
+
+/**
+ * Spacing-based Nusselt number for a vertical channel between isothermal
+ * plates, as a function of the Elenbaas number Ra_s · s/L.
+ */
+export function channelNusselt(
+  channelRayleigh: number,
+  correlation: NaturalConvectionCorrelation = "bar-cohen-rohsenow"
+): number {
+  if (channelRayleigh <= 0) return 0;
+  if (correlation === "elenbaas") {
+    return (
+      (channelRayleigh / 24) * (1 - Math.exp(-35 / channelRayleigh)) ** 0.75
+    );
+  }
+  return (576 / channelRayleigh ** 2 + 2.873 / Math.sqrt(channelRayleigh)) **
+    -0.5;
+}
+
+/**
+ * Bar-Cohen–Rohsenow optimum spacing for symmetric isothermal plates,
+ * s_opt = 2.714 · L · Ra_L^(-1/4).
+ */
+export function optimumFinSpacing(
+  air: AirProperties,
+  temperatureRise: number,
+  flowLength: number
+): number {
+  const ra = rayleighNumber(air, temperatureRise, flowLength);
+  if (ra <= 0) return Infinity;
+  return 2.714 * flowLength * ra ** -0.25;
+}
+
+export function optimumFinCount(
+  geometry: PlateArrayGeometry,
+  spacing: number
+): number {
+  const { baseWidth, finThickness } = geometry;
+  if (!Number.isFinite(spacing)) return 2;
+  return Math.max(
+    2,
+    Math.floor((baseWidth + spacing) / (spacing + finThickness))
+  );
+}
+
+/** Churchill–Chu average Nusselt number for a long horizontal cylinder. */
+export function horizontalCylinderNusselt(
+  rayleigh: number,
+  prandtl: number
+): number {
+  if (rayleigh <= 0) return 0;
+  return (
+    0.6 +
+    (0.387 * rayleigh ** (1 / 6)) / (1 + (0.559 / prandtl) ** (9 / 16)) ** (8 / 27)
+  ) ** 2;
+}
+
+/**
+ * How much neighbouring pin columns choke the flow: the channel Nusselt
+ * number at the clear column gap over its isolated-plate limit 0.59·Ra^(1/4),
+ * which tends to one for widely spaced pins.
+ */
+export function pinConfinementFactor(
+  channelRayleigh: number,
+  correlation: NaturalConvectionCorrelation = "bar-cohen-rohsenow"
+): number {
+  if (channelRayleigh <= 0) return 0;
+  const isolated = channelRayleigh ** 0.25 / Math.sqrt(2.873);
+  return Math.min(1, channelNusselt(channelRayleigh, correlation) / isolated);
+}
+
+/**
+ * Churchill–Chu laminar correlation for a vertical plate, also used for
+ * vertical pins and the sides of a heatsink envelope.
+ */
+export function verticalPlateNusselt(rayleigh: number, prandtl: number): number {
+  if (rayleigh <= 0) return 0;
+  return (
+    0.68 +
+    (0.67 * rayleigh ** 0.25) / (1 + (0.492 / prandtl) ** (9 / 16)) ** (4 / 9)
+  );
+}
+
+/**
+ * McAdams correlation for the underside of a heated horizontal plate, on the
+ * length A/P.
+ */
+export function downwardPlateNusselt(rayleigh: number): number {
+  return rayleigh > 0 ? 0.27 * rayleigh ** 0.25 : 0;
+}
+
+/** Tilt of the base from vertical (degrees), positive with the fins up. */
+export function orientationAngle(
+  orientation: HeatsinkOrientation = "vertical",
+  tiltAngle = 0
+): number {
+  switch (orientation) {
+    case "vertical":
+      return 0;
+    case "horizontal-up":
+      return 90;
+    case "horizontal-down":
+      return -90;
+    case "tilted":
+      if (!(tiltAngle >= -90 && tiltAngle <= 90)) {
+        throw new RangeError("Tilt angle must be between -90° and 90°");
+      }
+      return tiltAngle;
+  }
+}
+
+/** Film coefficient on the wetted area with the numbers behind it. */
+interface ArrayConvection {
+  /** On the fin spacing, or on the pin size for pin fins. */
+  nusselt: number;
+  h: number;
+  channelRayleigh: number;
+  lengthRayleigh: number;
+}
+
+/**
+ * Flow up the fin channels of a vertical base, with gravity scaled by
+ * `gravity` for a tilted base.
+ */
+function alongFinConvection(
+  input: NaturalConvectionInput,
+  air: AirProperties,
+  temperatureRise: number,
+  gravity: number
+): ArrayConvection {
+  const { geometry } = input;
+  const correlation = input.correlation ?? "bar-cohen-rohsenow";
+  const rise = temperatureRise * gravity;
+  const spacing = clearSpacing(geometry);
+  const flowLength =
+    geometry.kind === "pin-fin" ? geometry.baseLength : segmentLength(geometry);
+  const lengthRayleigh = rayleighNumber(air, rise, geometry.baseLength);
+  const channelRayleigh =
+    rayleighNumber(air, rise, spacing) * (spacing / flowLength);
+
+  if (geometry.kind === "pin-fin") {
+    // Pins on a vertical base are horizontal cylinders; square pins use the
+    // side length as diameter.
+    const pinRayleigh = rayleighNumber(air, rise, geometry.pinSize);
+    const nusselt =
+      horizontalCylinderNusselt(pinRayleigh, air.prandtl) *
+      pinConfinementFactor(channelRayleigh, correlation);
+    return {
+      nusselt,
+      h: (nusselt * air.conductivity) / geometry.pinSize,
+      channelRayleigh,
+      lengthRayleigh,
+    };
+  }
+  const nusselt = channelNusselt(channelRayleigh, correlation);
+  return {
+    nusselt,
+    h: (nusselt * air.conductivity) / spacing,
+    channelRayleigh,
+    lengthRayleigh,
+  };
+}
+
+/**
+ * Fins pointing up from a horizontal base: air drawn in at the open ends
+ * runs along the channel to its middle and rises between the fins, so the
+ * channel length is the fin height plus half the segment length. Pins are
+ * fed from all sides and behave as vertical plates.
+ */
+function upwardFinConvection(
+  input: NaturalConvectionInput,
+  air: AirProperties,
+  temperatureRise: number,
+  gravity: number
+): ArrayConvection {
+  const { geometry } = input;
+  const correlation = input.correlation ?? "bar-cohen-rohsenow";
+  const rise = temperatureRise * gravity;
+  const spacing = clearSpacing(geometry);
+  const height = geometry.finHeight;
+  const lengthRayleigh = rayleighNumber(air, rise, height);
+  const flowLength =
+    geometry.kind === "pin-fin" ? height : height + segmentLength(geometry) / 2;
+  const channelRayleigh =
+    rayleighNumber(air, rise, spacing) * (spacing / flowLength);
+
+  if (geometry.kind === "pin-fin") {
+    const h =
+      (verticalPlateNusselt(lengthRayleigh, air.prandtl) *
+        pinConfinementFactor(channelRayleigh, correlation) *
+        air.conductivity) /
+      height;
+    return {
+      nusselt: (h * geometry.pinSize) / air.conductivity,
+      h,
+      channelRayleigh,
+      lengthRayleigh,
+    };
+  }
+  const nusselt = channelNusselt(channelRayleigh, correlation);
+  return {
+    nusselt,
+    h: (nusselt * air.conductivity) / spacing,
+    channelRayleigh,
+    lengthRayleigh,
+  };
+}
+
+/**
+ * Fins pointing down from a horizontal base trap the warm air, so the array
+ * is treated as its envelope: a heated plate facing down plus vertical
+ * sides, spread over the wetted area.
+ */
+function downwardFinConvection(
+  input: NaturalConvectionInput,
+  air: AirProperties,
+  temperatureRise: number,
+  gravity: number
+): ArrayConvection {
+  const { geometry } = input;
+  const { baseWidth, baseLength, baseThickness, finHeight } = geometry;
+  const rise = temperatureRise * gravity;
+  const footprint = baseWidth * baseLength;
+  const perimeter = 2 * (baseWidth + baseLength);
+  const plateLength = footprint / perimeter;
+  const sideHeight = baseThickness + finHeight;
+
+  const lengthRayleigh = rayleighNumber(air, rise, plateLength);
+  const bottom =
+    (downwardPlateNusselt(lengthRayleigh) * air.conductivity) / plateLength;
+  const side =
+    (verticalPlateNusselt(
+      rayleighNumber(air, rise, sideHeight),
+      air.prandtl
+    ) *
+      air.conductivity) /
+    sideHeight;
+  const h =
+    (bottom * footprint + side * perimeter * sideHeight) / wettedArea(geometry);
+  const length =
+    geometry.kind === "pin-fin" ? geometry.pinSize : clearSpacing(geometry);
+  return {
+    nusselt: (h * length) / air.conductivity,
+    h,
+    channelRayleigh: NaN,
+    lengthRayleigh,
+  };
+}
+
+/**
+ * Convective film coefficient for the orientation. Off vertical, gravity
+ * splits into a part along the fins and a part across the base, and the
+ * stronger of the two flow patterns is taken.
+ */
+function arrayConvection(
+  input: NaturalConvectionInput,
+  air: AirProperties,
+  temperatureRise: number
+): ArrayConvection {
+  const angle =
+    (orientationAngle(input.orientation, input.tiltAngle) * Math.PI) / 180;
+  const along = alongFinConvection(
+    input,
+    air,
+    temperatureRise,
+    Math.cos(angle)
+  );
+  if (angle === 0) return along;
+  const across =
+    angle > 0
+      ? upwardFinConvection(input, air, temperatureRise, Math.sin(angle))
+      : downwardFinConvection(input, air, temperatureRise, -Math.sin(angle));
+  return across.h > along.h ? across : along;
+}
+
+function evaluate(
+  input: NaturalConvectionInput,
+  air: AirProperties,
+  temperatureRise: number
+): Omit<NaturalConvectionResult, keyof FilmIteration> {
+  const { geometry, material, ambient, power } = input;
+  const spacing = clearSpacing(geometry);
+  const flowLength =
+    geometry.kind === "pin-fin" ? geometry.baseLength : segmentLength(geometry);
+  const { nusselt, h, channelRayleigh, lengthRayleigh } = arrayConvection(
+    input,
+    air,
+    temperatureRise
+  );
+
+  const radiation = radiationHeatTransfer(
+    geometry,
+    input.emissivity ?? 0,
+    ambient.temperature + temperatureRise,
+    ambient.temperature
+  );
+  const effectiveH = h + radiation.coefficient;
+
+  const conductivity = materialConductivity(
+    material,
+    ambient.temperature + temperatureRise
+  );
+  const surface = finnedSurface(geometry, conductivity, effectiveH);
+  const convectiveResistance =
+    surface.conductance > 0 ? 1 / surface.conductance : Infinity;
+  const baseResistance = baseConductionResistance(geometry, conductivity);
+  const totalResistance = convectiveResistance + baseResistance;
+  const optimumSpacing =
+    geometry.kind === "pin-fin"
+      ? undefined
+      : optimumFinSpacing(air, temperatureRise, flowLength);
+
+  return {
+    channelSpacing: spacing,
+    channelRayleigh,
+    lengthRayleigh,
+    nusselt,
+    heatTransferCoefficient: h,
+    radiationCoefficient: radiation.coefficient,
+    effectiveHeatTransferCoefficient: effectiveH,
+    radiationFraction: effectiveH > 0 ? radiation.coefficient / effectiveH : 0,
+    viewFactors: radiation.viewFactors,
+    finEfficiency: surface.finEfficiency,
+    surfaceEfficiency: surface.surfaceEfficiency,
+    finArea: surface.finArea,
+    baseArea: surface.baseArea,
+    convectiveResistance,
+    baseResistance,
+    totalResistance,
+    temperatureRise: power * totalResistance,
+    baseTemperature: ambient.temperature + power * totalResistance,
+    optimumSpacing,
+    optimumFinCount:
+      geometry.kind === "pin-fin"
+        ? undefined
+        : optimumFinCount(geometry, optimumSpacing),
+  };
+}
+
+/**
+ * Steady-state natural convection from a heatsink, hung vertically unless
+ * another orientation is given, with radiation added in parallel when an
+ * emissivity is given.
+ *
+ * The heat transfer coefficient and the air properties, taken at the film
+ * temperature, depend on the surface-to-ambient temperature difference, so
+ * the rise is found by damped fixed-point iteration on ΔT = P · R(ΔT).
+ */
+export function solveNaturalConvection(
+  input: NaturalConvectionInput
+): NaturalConvectionResult {
+  validateGeometry(input.geometry);
+  if (!(input.power > 0)) {
+    throw new RangeError("Power must be positive");
+  }
+
+  const { ambient } = input;
+  const step = (rise: number) =>
+    evaluate(input, filmAir(ambient, ambient.temperature + rise), rise);
+  let temperatureRise = Math.max(1, input.power);
+  let result = step(temperatureRise);
+  let iterations = 1;
+
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    const next = 0.5 * temperatureRise + 0.5 * result.temperatureRise;
+    if (Math.abs(next - temperatureRise) < TOLERANCE * Math.max(1, next)) {
+      break;
+    }
+    temperatureRise = next;
+    result = step(temperatureRise);
+  }
+  return {
+    ...result,
+    filmTemperature: ambient.temperature + temperatureRise / 2,
+    iterations,
+    residual: Math.abs(result.temperatureRise - temperatureRise),
+  };
+}
+
+/**
+ * Fractional loss of heatsink conductance in the input's orientation against
+ * the same heatsink hung vertically; negative when the orientation helps.
+ */
+export function orientationLoss(input: NaturalConvectionInput): number {
+  const vertical = solveNaturalConvection({ ...input, orientation: "vertical" });
+  const oriented = solveNaturalConvection(input);
+  return 1 - vertical.totalResistance / oriented.totalResistance;
+}
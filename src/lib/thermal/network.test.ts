@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  AMBIENT_NODE,
+  JUNCTION_NODE,
+  buildStackNetwork,
+  solveNetwork,
+  type ThermalNetwork,
+} from "./network";
+
+const resistor = (from: string, to: string, resistance: number) => ({
+  id: `${from}-${to}`,
+  name: `${from}-${to}`,
+  from,
+  to,
+  resistance,
+});
+
+describe("solveNetwork", () => {
+  it("adds resistances in series", () => {
+    const solution = solveNetwork(
+      buildStackNetwork({
+        power: 10,
+        ambientTemperature: 25,
+        layers: [
+          { id: "case", name: "Junction to case", resistance: 1 },
+          { id: "pad", name: "Pad", resistance: 0.5 },
+          { id: "sink", name: "Heatsink", resistance: 2 },
+        ],
+      })
+    );
+    expect(solution.temperatures[JUNCTION_NODE]).toBeCloseTo(60, 9);
+    expect(solution.temperatures.case).toBeCloseTo(50, 9);
+    expect(solution.temperatures.pad).toBeCloseTo(45, 9);
+    expect(solution.heatFlows.sink).toBeCloseTo(10, 9);
+  });
+
+  it("branches a parallel path from the case", () => {
+    const network = buildStackNetwork({
+      power: 10,
+      ambientTemperature: 25,
+      layers: [
+        { id: "case", name: "Junction to case", resistance: 1 },
+        { id: "sink", name: "Heatsink", resistance: 2 },
+      ],
+      parallelPaths: [
+        {
+          id: "board",
+          name: "PCB",
+          from: "case",
+          layers: [
+            { id: "case-board", name: "Case to board", resistance: 1 },
+            { id: "board-ambient", name: "Board to ambient", resistance: 2 },
+          ],
+        },
+      ],
+    });
+    expect(
+      network.resistors.find((r) => r.id === "board:case-board")?.from
+    ).toBe("case");
+    const solution = solveNetwork(network);
+    // Junction to case in series with 2 ‖ 3 K/W.
+    expect(solution.temperatures[JUNCTION_NODE]).toBeCloseTo(47, 9);
+    expect(solution.heatFlows["board:case-board"]).toBeCloseTo(4, 9);
+    expect(solution.converged).toBe(true);
+  });
+
+  it("rejects a parallel path from an unknown node", () => {
+    expect(() =>
+      buildStackNetwork({
+        power: 1,
+        ambientTemperature: 25,
+        layers: [{ id: "case", name: "Junction to case", resistance: 1 }],
+        parallelPaths: [{ id: "board", name: "PCB", from: "pad", layers: [] }],
+      })
+    ).toThrow("PCB branches from an unknown node");
+  });
+
+  it("solves an unbalanced Wheatstone bridge", () => {
+    // 1 W into a, out through b and c to ground, with a 1 K/W bridge b–c.
+    const network: ThermalNetwork = {
+      nodes: [
+        { id: "a", name: "A", power: 1 },
+        { id: "b", name: "B" },
+        { id: "c", name: "C" },
+        { id: "g", name: "Ground", fixedTemperature: 0 },
+      ],
+      resistors: [
+        resistor("a", "b", 1),
+        resistor("a", "c", 2),
+        resistor("b", "c", 1),
+        resistor("b", "g", 2),
+        resistor("c", "g", 1),
+      ],
+    };
+    const { temperatures, heatFlows } = solveNetwork(network);
+    // Nodal equations solved by hand.
+    expect(temperatures.a).toBeCloseTo(1.4, 9);
+    expect(temperatures.b).toBeCloseTo(0.8, 9);
+    expect(temperatures.c).toBeCloseTo(0.6, 9);
+    expect(heatFlows["b-c"]).toBeCloseTo(0.2, 9);
+    expect(heatFlows["b-g"] + heatFlows["c-g"]).toBeCloseTo(1, 9);
+  });
+
+  it("rejects a node with no path to a fixed temperature", () => {
+    expect(() =>
+      solveNetwork({
+        nodes: [
+          { id: "a", name: "A", power: 1 },
+          { id: "b", name: "B" },
+          { id: AMBIENT_NODE, name: "Ambient", fixedTemperature: 25 },
+        ],
+        resistors: [resistor("a", AMBIENT_NODE, 1)],
+      })
+    ).toThrow("B has no path to a fixed temperature");
+  });
+});
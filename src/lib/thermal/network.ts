@@ -0,0 +1,226 @@
+import { buildCsrMatrix, conjugateGradient, type MatrixEntry } from "./sparse";
+
+export interface ThermalNode {
+  id: string;
+  name: string;
+  /** Heat injected at the node (W). */
+  power?: number;
+  /** Boundary node held at this temperature (°C). */
+  fixedTemperature?: number;
+}
+
+export interface ThermalResistor {
+  id: string;
+  name: string;
+  from: string;
+  to: string;
+  /** K/W */
+  resistance: number;
+}
+
+export interface ThermalNetwork {
+  nodes: ThermalNode[];
+  resistors: ThermalResistor[];
+}
+
+export interface NetworkSolution {
+  /** Node temperatures by node id (°C). */
+  temperatures: Record<string, number>;
+  /** Heat flow through each resistor from `from` to `to`, by resistor id (W). */
+  heatFlows: Record<string, number>;
+  iterations: number;
+  residual: number;
+  /** The solver reached its tolerance; otherwise the temperatures are rough. */
+  converged: boolean;
+}
+
+export function validateNetwork(network: ThermalNetwork): void {
+  const ids = new Set<string>();
+  for (const node of network.nodes) {
+    if (ids.has(node.id)) throw new Error(`Duplicate node id: ${node.id}`);
+    ids.add(node.id);
+  }
+  for (const resistor of network.resistors) {
+    if (!ids.has(resistor.from) || !ids.has(resistor.to)) {
+      throw new Error(`${resistor.name} connects to an unknown node`);
+    }
+    if (resistor.from === resistor.to) {
+      throw new Error(`${resistor.name} connects a node to itself`);
+    }
+    if (!(resistor.resistance > 0)) {
+      throw new RangeError(`${resistor.name} must have a positive resistance`);
+    }
+  }
+
+  // Every free node needs a conductive path to a fixed temperature, or its
+  // temperature is undefined.
+  const grounded = new Set(
+    network.nodes
+      .filter((n) => n.fixedTemperature !== undefined)
+      .map((n) => n.id)
+  );
+  if (grounded.size === 0) {
+    throw new Error("The network needs at least one fixed-temperature node");
+  }
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const { from, to } of network.resistors) {
+      if (grounded.has(from) !== grounded.has(to)) {
+        grounded.add(from);
+        grounded.add(to);
+        grew = true;
+      }
+    }
+  }
+  const floating = network.nodes.find((n) => !grounded.has(n.id));
+  if (floating) {
+    throw new Error(`${floating.name} has no path to a fixed temperature`);
+  }
+}
+
+/**
+ * Steady-state temperatures of a resistor network by nodal analysis: the
+ * conductance matrix of the free nodes is assembled sparsely and solved with
+ * preconditioned conjugate gradients.
+ */
+export function solveNetwork(network: ThermalNetwork): NetworkSolution {
+  validateNetwork(network);
+
+  const free = network.nodes.filter((n) => n.fixedTemperature === undefined);
+  const index = new Map(free.map((n, i) => [n.id, i]));
+  const fixed = new Map(
+    network.nodes
+      .filter((n) => n.fixedTemperature !== undefined)
+      .map((n) => [n.id, n.fixedTemperature])
+  );
+
+  const entries: MatrixEntry[] = [];
+  const rhs = new Float64Array(free.length);
+  free.forEach((node, i) => {
+    rhs[i] += node.power ?? 0;
+  });
+  for (const { from, to, resistance } of network.resistors) {
+    const g = 1 / resistance;
+    const i = index.get(from);
+    const j = index.get(to);
+    if (i !== undefined) entries.push([i, i, g]);
+    if (j !== undefined) entries.push([j, j, g]);
+    if (i !== undefined && j !== undefined) {
+      entries.push([i, j, -g], [j, i, -g]);
+    } else if (i !== undefined) {
+      rhs[i] += g * fixed.get(to);
+    } else if (j !== undefined) {
+      rhs[j] += g * fixed.get(from);
+    }
+  }
+
+  const { solution, iterations, residual, converged } =
+    free.length > 0
+      ? conjugateGradient(buildCsrMatrix(free.length, entries), rhs)
+      : {
+          solution: new Float64Array(0),
+          iterations: 0,
+          residual: 0,
+          converged: true,
+        };
+
+  const temperatures: Record<string, number> = {};
+  for (const [id, temperature] of fixed) temperatures[id] = temperature;
+  free.forEach((node, i) => {
+    temperatures[node.id] = solution[i];
+  });
+
+  const heatFlows: Record<string, number> = {};
+  for (const { id, from, to, resistance } of network.resistors) {
+    heatFlows[id] = (temperatures[from] - temperatures[to]) / resistance;
+  }
+  return { temperatures, heatFlows, iterations, residual, converged };
+}
+
+export interface StackLayer {
+  id: string;
+  name: string;
+  resistance: number;
+}
+
+/** A branch to ambient in parallel with the main stack. */
+export interface ParallelPath {
+  id: string;
+  name: string;
+  /** Node the path branches from, such as the case; the junction by default. */
+  from?: string;
+  layers: StackLayer[];
+}
+
+export interface StackNetworkInput {
+  power: number;
+  ambientTemperature: number;
+  /** Series layers from junction to ambient, e.g. case, TIM, spreader, heatsink. */
+  layers: StackLayer[];
+  parallelPaths?: ParallelPath[];
+}
+
+export const JUNCTION_NODE = "junction";
+export const AMBIENT_NODE = "ambient";
+
+/** Node on the cold side of a main-stack layer. */
+export function stackLayerNode(layer: StackLayer): string {
+  return layer.id;
+}
+
+function chainLayers(
+  prefix: string,
+  from: string,
+  layers: StackLayer[],
+  nodes: ThermalNode[],
+  resistors: ThermalResistor[]
+): void {
+  let previous = from;
+  layers.forEach((layer, i) => {
+    const next =
+      i === layers.length - 1 ? AMBIENT_NODE : `${prefix}${layer.id}`;
+    if (next !== AMBIENT_NODE) {
+      nodes.push({ id: next, name: `${layer.name} (cold side)` });
+    }
+    resistors.push({
+      id: `${prefix}${layer.id}`,
+      name: layer.name,
+      from: previous,
+      to: next,
+      resistance: layer.resistance,
+    });
+    previous = next;
+  });
+}
+
+/**
+ * Network for a junction-to-ambient stack: the junction carries the power,
+ * each layer adds a node on its cold side, and parallel paths such as the
+ * PCB run from the junction or one of those nodes to the same ambient node.
+ */
+export function buildStackNetwork(input: StackNetworkInput): ThermalNetwork {
+  if (input.layers.length === 0) {
+    throw new RangeError("The stack needs at least one layer");
+  }
+  const nodes: ThermalNode[] = [
+    { id: JUNCTION_NODE, name: "Junction", power: input.power },
+    {
+      id: AMBIENT_NODE,
+      name: "Ambient",
+      fixedTemperature: input.ambientTemperature,
+    },
+  ];
+  const resistors: ThermalResistor[] = [];
+  chainLayers("", JUNCTION_NODE, input.layers, nodes, resistors);
+  for (const path of input.parallelPaths ?? []) {
+    const from = path.from ?? JUNCTION_NODE;
+    if (!nodes.some((n) => n.id === from && n.id !== AMBIENT_NODE)) {
+      throw new Error(`${path.name} branches from an unknown node`);
+    }
+    if (path.layers.length > 0) {
+      chainLayers(`${path.id}:`, from, path.layers, nodes, resistors);
+    }
+  }
+  return { nodes, resistors };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  optimizeHeatsink,
+  validateOptimizerBounds,
+  type OptimizerBounds,
+  type OptimizerConstraints,
+} from "./optimizer";
+import { channelSpacing } from "./plate-fin";
+import type { PlateArrayGeometry, PlateFinGeometry } from "./types";
+
+const PLATE: PlateFinGeometry = {
+  kind: "plate-fin",
+  baseLength: 0.1,
+  baseWidth: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  finThickness: 0.0015,
+  finCount: 10,
+};
+
+const BOUNDS: OptimizerBounds = {
+  finCount: [4, 16],
+  finHeight: [0.01, 0.05],
+  finThickness: [0.001, 0.003],
+  baseThickness: [0.003, 0.008],
+};
+
+const CONSTRAINTS: OptimizerConstraints = {
+  maxHeight: 0.05,
+  minChannelSpacing: 0.003,
+  maxAspectRatio: 40,
+};
+
+/** More fin area always lowers resistance, so mass has to be traded for it. */
+const resistance = (g: PlateArrayGeometry) =>
+  1 / (g.finCount * g.finHeight * 20 + g.baseThickness * 50);
+
+const OPTIONS = { populationSize: 20, generations: 10, seed: 7 };
+
+describe("validateOptimizerBounds", () => {
+  it("accepts positive ordered bounds", () => {
+    expect(() => validateOptimizerBounds(BOUNDS)).not.toThrow();
+  });
+
+  it("rejects reversed or non-positive bounds", () => {
+    expect(() =>
+      validateOptimizerBounds({ ...BOUNDS, finHeight: [0.05, 0.01] })
+    ).toThrow(RangeError);
+    expect(() =>
+      validateOptimizerBounds({ ...BOUNDS, baseThickness: [0, 0.008] })
+    ).toThrow(RangeError);
+  });
+
+  it("needs at least two fins", () => {
+    expect(() =>
+      validateOptimizerBounds({ ...BOUNDS, finCount: [1, 16] })
+    ).toThrow(/two fins/);
+  });
+});
+
+describe("optimizeHeatsink", () => {
+  const result = optimizeHeatsink(
+    PLATE,
+    2700,
+    BOUNDS,
+    CONSTRAINTS,
+    resistance,
+    OPTIONS
+  );
+
+  it("returns feasible designs, lowest resistance first", () => {
+    expect(result.front.length).toBeGreaterThan(0);
+    for (const { geometry: g } of result.front) {
+      expect(g.baseThickness + g.finHeight).toBeLessThanOrEqual(
+        CONSTRAINTS.maxHeight
+      );
+      expect(channelSpacing(g)).toBeGreaterThanOrEqual(
+        CONSTRAINTS.minChannelSpacing
+      );
+      expect(g.finHeight / g.finThickness).toBeLessThanOrEqual(
+        CONSTRAINTS.maxAspectRatio
+      );
+    }
+    const resistances = result.front.map((d) => d.resistance);
+    expect(resistances).toEqual([...resistances].sort((a, b) => a - b));
+  });
+
+  it("keeps no design that another on the front dominates", () => {
+    for (const a of result.front) {
+      const dominated = result.front.some(
+        (b) =>
+          b !== a &&
+          b.resistance <= a.resistance &&
+          b.mass <= a.mass &&
+          b.volume <= a.volume &&
+          (b.resistance < a.resistance ||
+            b.mass < a.mass ||
+            b.volume < a.volume)
+      );
+      expect(dominated).toBe(false);
+    }
+  });
+
+  it("repeats a run with the same seed and reports progress", () => {
+    const fractions: number[] = [];
+    const again = optimizeHeatsink(
+      PLATE,
+      2700,
+      BOUNDS,
+      CONSTRAINTS,
+      resistance,
+      OPTIONS,
+      (fraction) => fractions.push(fraction)
+    );
+    expect(again.front).toEqual(result.front);
+    expect(fractions).toHaveLength(OPTIONS.generations);
+    expect(fractions.at(-1)).toBe(1);
+  });
+
+  it("treats candidates the model throws on as infeasible", () => {
+    const { front, evaluations } = optimizeHeatsink(
+      PLATE,
+      2700,
+      BOUNDS,
+      CONSTRAINTS,
+      (g) => {
+        if (g.finCount > 8) throw new Error("out of range");
+        return resistance(g);
+      },
+      OPTIONS
+    );
+    expect(evaluations).toBeGreaterThan(0);
+    expect(front.every((d) => d.geometry.finCount <= 8)).toBe(true);
+  });
+
+  it("needs a positive density", () => {
+    expect(() =>
+      optimizeHeatsink(PLATE, NaN, BOUNDS, CONSTRAINTS, () => 1, OPTIONS)
+    ).toThrow(/density/);
+  });
+});
@@ -0,0 +1,329 @@
+import { envelopeVolume, solidVolume, validateGeometry } from "./geometry";
+import { channelSpacing } from "./plate-fin";
+import { seededRandom, type RandomSource } from "./random";
+import type { PlateArrayGeometry } from "./types";
+
+/** The dimensions the optimizer varies; everything else stays as given. */
+export type OptimizerVariable =
+  "finCount" | "finHeight" | "finThickness" | "baseThickness";
+
+/** Lowest and highest value of each variable (m, or a count of fins). */
+export type OptimizerBounds = Record<OptimizerVariable, [number, number]>;
+
+export interface OptimizerConstraints {
+  /** Tallest base plus fins that fits the envelope (m). */
+  maxHeight: number;
+  /** Narrowest gap between fin roots that can be made (m). */
+  minChannelSpacing: number;
+  /** Highest fin height to root thickness ratio that can be made. */
+  maxAspectRatio: number;
+}
+
+export interface OptimizerOptions {
+  populationSize?: number;
+  generations?: number;
+  /** Seed for the random number generator, so runs can be repeated. */
+  seed?: number;
+}
+
+/** One non-dominated design with the three objectives it trades off. */
+export interface ParetoDesign {
+  geometry: PlateArrayGeometry;
+  /** Heatsink resistance, base to ambient (K/W). */
+  resistance: number;
+  /** kg. */
+  mass: number;
+  /** Bounding box of base and fins (m³). */
+  volume: number;
+}
+
+export interface OptimizerResult {
+  /** Feasible non-dominated designs, lowest resistance first. */
+  front: ParetoDesign[];
+  evaluations: number;
+}
+
+export type OptimizerProgress = (fraction: number) => void;
+
+const VARIABLES: OptimizerVariable[] = [
+  "finCount",
+  "finHeight",
+  "finThickness",
+  "baseThickness",
+];
+/** Distribution indices for SBX crossover and polynomial mutation (Deb). */
+const CROSSOVER_ETA = 15;
+const MUTATION_ETA = 20;
+const CROSSOVER_PROBABILITY = 0.9;
+/** Violation given to designs that fail validation or cannot be solved. */
+const INVALID = 1e6;
+
+interface Individual {
+  /** Variables scaled to 0–1 between their bounds. */
+  genes: number[];
+  design: ParetoDesign;
+  objectives: number[];
+  /** Summed relative constraint violation; 0 when feasible. */
+  violation: number;
+  rank: number;
+  crowding: number;
+}
+
+export function validateOptimizerBounds(bounds: OptimizerBounds): void {
+  for (const variable of VARIABLES) {
+    const [low, high] = bounds[variable];
+    if (!(low > 0 && high >= low)) {
+      throw new RangeError(
+        `Bounds on ${variable} must be positive and ordered`
+      );
+    }
+  }
+  if (bounds.finCount[0] < 2) {
+    throw new RangeError("A plate-fin heatsink needs at least two fins");
+  }
+}
+
+function decode(
+  template: PlateArrayGeometry,
+  bounds: OptimizerBounds,
+  genes: number[]
+): PlateArrayGeometry {
+  const value = (i: number) => {
+    const [low, high] = bounds[VARIABLES[i]];
+    return low + genes[i] * (high - low);
+  };
+  const geometry = {
+    ...template,
+    finCount: Math.round(value(0)),
+    finHeight: value(1),
+    finThickness: value(2),
+    baseThickness: value(3),
+  };
+  // A tapered tip keeps its share of the root thickness.
+  const profile = template.profile;
+  if (profile?.kind === "tapered") {
+    geometry.profile = {
+      ...profile,
+      tipThickness:
+        (profile.tipThickness * geometry.finThickness) / template.finThickness,
+    };
+  }
+  return geometry;
+}
+
+function violation(
+  geometry: PlateArrayGeometry,
+  constraints: OptimizerConstraints
+): number {
+  const { maxHeight, minChannelSpacing, maxAspectRatio } = constraints;
+  const height = geometry.baseThickness + geometry.finHeight;
+  const aspect = geometry.finHeight / geometry.finThickness;
+  return (
+    Math.max(0, (height - maxHeight) / maxHeight) +
+    Math.max(
+      0,
+      (minChannelSpacing - channelSpacing(geometry)) / minChannelSpacing
+    ) +
+    Math.max(0, (aspect - maxAspectRatio) / maxAspectRatio)
+  );
+}
+
+/** Deb's constrained domination: feasibility first, then Pareto dominance. */
+function dominates(a: Individual, b: Individual): boolean {
+  if (a.violation !== b.violation) return a.violation < b.violation;
+  let better = false;
+  for (let i = 0; i < a.objectives.length; i++) {
+    if (a.objectives[i] > b.objectives[i]) return false;
+    if (a.objectives[i] < b.objectives[i]) better = true;
+  }
+  return better;
+}
+
+/** Fast non-dominated sort; sets each rank and returns the fronts in order. */
+function sortFronts(population: Individual[]): Individual[][] {
+  const dominated = population.map(() => [] as number[]);
+  const counts = population.map(() => 0);
+  const fronts: number[][] = [[]];
+  population.forEach((p, i) => {
+    population.forEach((q, j) => {
+      if (dominates(p, q)) dominated[i].push(j);
+      else if (dominates(q, p)) counts[i]++;
+    });
+    if (counts[i] === 0) fronts[0].push(i);
+  });
+  for (let f = 0; fronts[f].length > 0; f++) {
+    const next: number[] = [];
+    for (const i of fronts[f]) {
+      population[i].rank = f;
+      for (const j of dominated[i]) {
+        if (--counts[j] === 0) next.push(j);
+      }
+    }
+    fronts.push(next);
+  }
+  return fronts
+    .filter((f) => f.length > 0)
+    .map((f) => f.map((i) => population[i]));
+}
+
+function assignCrowding(front: Individual[]): void {
+  for (const individual of front) individual.crowding = 0;
+  const objectives = front[0]?.objectives.length ?? 0;
+  for (let m = 0; m < objectives; m++) {
+    const sorted = [...front].sort((a, b) => a.objectives[m] - b.objectives[m]);
+    const span =
+      sorted[sorted.length - 1].objectives[m] - sorted[0].objectives[m];
+    sorted[0].crowding = sorted[sorted.length - 1].crowding = Infinity;
+    if (!(span > 0)) continue;
+    for (let i = 1; i < sorted.length - 1; i++) {
+      sorted[i].crowding +=
+        (sorted[i + 1].objectives[m] - sorted[i - 1].objectives[m]) / span;
+    }
+  }
+}
+
+/** Keeps the best `size` by rank, then by crowding within the last front. */
+function survivors(population: Individual[], size: number): Individual[] {
+  const kept: Individual[] = [];
+  for (const front of sortFronts(population)) {
+    assignCrowding(front);
+    if (kept.length + front.length <= size) {
+      kept.push(...front);
+      continue;
+    }
+    front.sort((a, b) => b.crowding - a.crowding);
+    kept.push(...front.slice(0, size - kept.length));
+    break;
+  }
+  return kept;
+}
+
+function tournament(population: Individual[], rand: RandomSource): Individual {
+  const a = population[Math.floor(rand() * population.length)];
+  const b = population[Math.floor(rand() * population.length)];
+  if (a.rank !== b.rank) return a.rank < b.rank ? a : b;
+  return a.crowding >= b.crowding ? a : b;
+}
+
+/** Simulated binary crossover of one gene pair, kept within 0–1. */
+function crossover(x: number, y: number, rand: RandomSource): [number, number] {
+  const u = rand();
+  const beta =
+    u <= 0.5
+      ? (2 * u) ** (1 / (CROSSOVER_ETA + 1))
+      : (1 / (2 * (1 - u))) ** (1 / (CROSSOVER_ETA + 1));
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  return [
+    clamp(0.5 * ((1 + beta) * x + (1 - beta) * y)),
+    clamp(0.5 * ((1 - beta) * x + (1 + beta) * y)),
+  ];
+}
+
+function mutate(x: number, rand: RandomSource): number {
+  const u = rand();
+  const delta =
+    u < 0.5
+      ? (2 * u) ** (1 / (MUTATION_ETA + 1)) - 1
+      : 1 - (2 * (1 - u)) ** (1 / (MUTATION_ETA + 1));
+  return Math.min(1, Math.max(0, x + delta));
+}
+
+/**
+ * NSGA-II search over fin count, fin height, fin thickness and base
+ * thickness, minimising heatsink resistance, mass and envelope volume.
+ * `resistance` is called once per candidate with a valid geometry;
+ * candidates it throws on count as infeasible.
+ */
+export function optimizeHeatsink(
+  template: PlateArrayGeometry,
+  density: number,
+  bounds: OptimizerBounds,
+  constraints: OptimizerConstraints,
+  resistance: (geometry: PlateArrayGeometry) => number,
+  options: OptimizerOptions = {},
+  onProgress?: OptimizerProgress
+): OptimizerResult {
+  validateOptimizerBounds(bounds);
+  if (!(density > 0)) {
+    throw new RangeError("The material needs a positive density");
+  }
+  const size = 2 * Math.ceil((options.populationSize ?? 60) / 2);
+  const generations = options.generations ?? 40;
+  const rand = seededRandom(options.seed ?? 1);
+  let evaluations = 0;
+
+  const evaluate = (genes: number[]): Individual => {
+    const geometry = decode(template, bounds, genes);
+    const design: ParetoDesign = {
+      geometry,
+      resistance: Infinity,
+      mass: solidVolume(geometry) * density,
+      volume: envelopeVolume(geometry),
+    };
+    let excess = violation(geometry, constraints);
+    try {
+      validateGeometry(geometry);
+      design.resistance = resistance(geometry);
+      evaluations++;
+    } catch {
+      excess += INVALID;
+    }
+    if (!Number.isFinite(design.resistance)) excess += INVALID;
+    return {
+      genes,
+      design,
+      objectives: [design.resistance, design.mass, design.volume],
+      violation: excess,
+      rank: 0,
+      crowding: 0,
+    };
+  };
+
+  let population = survivors(
+    Array.from({ length: size }, () => evaluate(VARIABLES.map(() => rand()))),
+    size
+  );
+  for (let generation = 0; generation < generations; generation++) {
+    const offspring: Individual[] = [];
+    while (offspring.length < size) {
+      const a = tournament(population, rand).genes;
+      const b = tournament(population, rand).genes;
+      const childA = [...a];
+      const childB = [...b];
+      if (rand() < CROSSOVER_PROBABILITY) {
+        for (let i = 0; i < VARIABLES.length; i++) {
+          if (rand() < 0.5) {
+            [childA[i], childB[i]] = crossover(a[i], b[i], rand);
+          }
+        }
+      }
+      for (const child of [childA, childB]) {
+        for (let i = 0; i < VARIABLES.length; i++) {
+          if (rand() < 1 / VARIABLES.length) child[i] = mutate(child[i], rand);
+        }
+        offspring.push(evaluate(child));
+      }
+    }
+    population = survivors([...population, ...offspring], size);
+    onProgress?.((generation + 1) / generations);
+  }
+
+  // Rounding the fin count makes some survivors the same design.
+  const seen = new Set<string>();
+  const front = population
+    .filter((p) => p.rank === 0 && p.violation === 0)
+    .map((p) => p.design)
+    .filter(({ geometry: g }) => {
+      const key = [
+        g.finCount,
+        g.finHeight,
+        g.finThickness,
+        g.baseThickness,
+      ].join();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.resistance - b.resistance);
+  return { front, evaluations };
+}
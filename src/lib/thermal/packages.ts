@@ -0,0 +1,131 @@
+import type { DeviceResistances, MountedDevice } from "./types";
+
+/** A semiconductor package with typical datasheet thermal values. */
+export interface DevicePackage extends DeviceResistances {
+  id: string;
+  name: string;
+  /** Other names the package is sold under, for searching. */
+  aliases: string[];
+  /** Case area in contact with the heatsink, across the base width (m). */
+  width: number;
+  /** Case area in contact with the heatsink, along the base length (m). */
+  length: number;
+  /** °C. */
+  maxJunctionTemperature: number;
+}
+
+// Mid-range values from power MOSFET, IGBT and LED datasheets. Rth(c-s) is
+// for a greased or padded mount; surface-mount parts include the board they
+// are soldered to. Always check the part's own datasheet.
+export const PACKAGES: DevicePackage[] = [
+  {
+    id: "to-220",
+    name: "TO-220",
+    aliases: ["TO-220AB"],
+    width: 0.0101,
+    length: 0.0152,
+    junctionToCase: 1.0,
+    caseToSink: 0.5,
+    maxJunctionTemperature: 175,
+  },
+  {
+    id: "to-247",
+    name: "TO-247",
+    aliases: ["TO-247AC", "TO-3P"],
+    width: 0.0159,
+    length: 0.0209,
+    junctionToCase: 0.4,
+    caseToSink: 0.25,
+    maxJunctionTemperature: 175,
+  },
+  {
+    id: "to-263",
+    name: "TO-263",
+    aliases: ["D2PAK", "D²PAK"],
+    width: 0.0102,
+    length: 0.0154,
+    junctionToCase: 0.5,
+    caseToSink: 1.0,
+    maxJunctionTemperature: 175,
+  },
+  {
+    id: "to-252",
+    name: "DPAK",
+    aliases: ["TO-252"],
+    width: 0.0066,
+    length: 0.01,
+    junctionToCase: 1.5,
+    caseToSink: 1.5,
+    maxJunctionTemperature: 175,
+  },
+  {
+    id: "sot-227",
+    name: "SOT-227",
+    aliases: ["ISOTOP", "miniBLOC"],
+    width: 0.0252,
+    length: 0.038,
+    junctionToCase: 0.15,
+    caseToSink: 0.05,
+    maxJunctionTemperature: 150,
+  },
+  {
+    id: "powerpak-so-8",
+    name: "PowerPAK SO-8",
+    aliases: ["SuperSO8", "LFPAK56", "5x6 DFN"],
+    width: 0.00515,
+    length: 0.00615,
+    junctionToCase: 1.0,
+    caseToSink: 2.0,
+    maxJunctionTemperature: 150,
+  },
+  {
+    id: "qfn-5x5",
+    name: "QFN 5×5",
+    aliases: ["QFN-32", "VQFN", "MLF"],
+    width: 0.005,
+    length: 0.005,
+    junctionToCase: 1.5,
+    caseToSink: 3.0,
+    maxJunctionTemperature: 125,
+  },
+  {
+    id: "bga-35",
+    name: "BGA 35×35, lidded",
+    aliases: ["FCBGA", "processor", "FPGA"],
+    width: 0.035,
+    length: 0.035,
+    junctionToCase: 0.1,
+    caseToSink: 0.1,
+    maxJunctionTemperature: 105,
+  },
+  {
+    id: "led-cob",
+    name: "LED COB 19 mm",
+    aliases: ["chip on board", "1919"],
+    width: 0.019,
+    length: 0.019,
+    junctionToCase: 0.5,
+    caseToSink: 0.3,
+    maxJunctionTemperature: 125,
+  },
+];
+
+/**
+ * The device with the package's footprint, resistances and junction limit.
+ * Power and position are kept, so the footprint stays centred where it was.
+ */
+export function applyPackage(
+  device: MountedDevice,
+  pkg: DevicePackage
+): MountedDevice {
+  const { width, length, junctionToCase, caseToSink, maxJunctionTemperature } =
+    pkg;
+  return {
+    ...device,
+    width,
+    length,
+    junctionToCase,
+    caseToSink,
+    maxJunctionTemperature,
+  };
+}
@@ -0,0 +1,94 @@
+import { pinFinEfficiency } from "./fin";
+import { combineFinnedSurface, type FinnedSurface } from "./plate-fin";
+import type { PinFinGeometry } from "./types";
+
+export function validatePinFinGeometry(geometry: PinFinGeometry): void {
+  const { baseWidth, baseLength, baseThickness, pinSize, finHeight, rows, columns } =
+    geometry;
+  if (!(baseWidth > 0 && baseLength > 0 && finHeight > 0 && pinSize > 0)) {
+    throw new RangeError("Heatsink dimensions must be positive");
+  }
+  if (baseThickness < 0) {
+    throw new RangeError("Base thickness cannot be negative");
+  }
+  if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows < 1 || columns < 2) {
+    throw new RangeError("A pin-fin array needs at least one row of two pins");
+  }
+  if (pinGap(geometry) <= 0 || longitudinalPitch(geometry) <= pinSize) {
+    throw new RangeError("Pins do not fit on the base");
+  }
+}
+
+/** Centre-to-centre pitch across the flow (m). */
+export function transversePitch(geometry: PinFinGeometry): number {
+  return geometry.baseWidth / geometry.columns;
+}
+
+/** Centre-to-centre pitch along the flow (m). */
+export function longitudinalPitch(geometry: PinFinGeometry): number {
+  return geometry.baseLength / geometry.rows;
+}
+
+/** Clear gap between neighbouring pins across the flow (m). */
+export function pinGap(geometry: PinFinGeometry): number {
+  return transversePitch(geometry) - geometry.pinSize;
+}
+
+export function pinCount(geometry: PinFinGeometry): number {
+  return geometry.rows * geometry.columns;
+}
+
+/** Cross-section of one pin (m²). */
+export function pinFootprint(geometry: PinFinGeometry): number {
+  const { shape, pinSize } = geometry;
+  return shape === "round" ? (Math.PI * pinSize ** 2) / 4 : pinSize ** 2;
+}
+
+export function pinFinAreas(geometry: PinFinGeometry): {
+  finArea: number;
+  baseArea: number;
+} {
+  const { baseWidth, baseLength, shape, pinSize, finHeight } = geometry;
+  const lateral =
+    shape === "round" ? Math.PI * pinSize * finHeight : 4 * pinSize * finHeight;
+  const count = pinCount(geometry);
+  return {
+    finArea: count * (lateral + pinFootprint(geometry)),
+    baseArea: baseWidth * baseLength - count * pinFootprint(geometry),
+  };
+}
+
+export function pinFinSurface(
+  geometry: PinFinGeometry,
+  conductivity: number,
+  heatTransferCoefficient: number
+): FinnedSurface {
+  const { finArea, baseArea } = pinFinAreas(geometry);
+  const { pinSize, finHeight } = geometry;
+  return combineFinnedSurface(
+    finArea,
+    baseArea,
+    pinFinEfficiency(heatTransferCoefficient, conductivity, pinSize, finHeight),
+    heatTransferCoefficient
+  );
+}
+
+/**
+ * Highest velocity between pins for an approach velocity upstream of the
+ * array: across the transverse gap, or across the diagonal gap of a tightly
+ * staggered array.
+ */
+export function maxPinVelocity(
+  geometry: PinFinGeometry,
+  approachVelocity: number
+): number {
+  const st = transversePitch(geometry);
+  const d = geometry.pinSize;
+  if (geometry.layout === "staggered") {
+    const sd = Math.hypot(longitudinalPitch(geometry), st / 2);
+    if (sd < (st + d) / 2) {
+      return (approachVelocity * st) / (2 * (sd - d));
+    }
+  }
+  return (approachVelocity * st) / (st - d);
+}
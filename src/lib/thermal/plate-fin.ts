@@ -0,0 +1,224 @@
+import {
+  rectangularFinEfficiency,
+  taperedFinEfficiency,
+  triangularFinEfficiency,
+} from "./fin";
+import type {
+  BaseplateDimensions,
+  FinProfile,
+  PlateArrayGeometry,
+} from "./types";
+
+export function validatePlateFinGeometry(geometry: PlateArrayGeometry): void {
+  const {
+    baseWidth,
+    baseLength,
+    baseThickness,
+    finHeight,
+    finThickness,
+    finCount,
+  } = geometry;
+  if (!(baseWidth > 0 && baseLength > 0 && finHeight > 0 && finThickness > 0)) {
+    throw new RangeError("Heatsink dimensions must be positive");
+  }
+  if (baseThickness < 0) {
+    throw new RangeError("Base thickness cannot be negative");
+  }
+  if (!Number.isInteger(finCount) || finCount < 2) {
+    throw new RangeError("A plate-fin heatsink needs at least two fins");
+  }
+  if (channelSpacing(geometry) <= 0) {
+    throw new RangeError("Fins do not fit on the base width");
+  }
+  validateFinProfile(geometry);
+  if (geometry.kind === "cross-cut") {
+    const { cutCount, cutWidth } = geometry;
+    if (!Number.isInteger(cutCount) || cutCount < 0 || !(cutWidth > 0)) {
+      throw new RangeError("Cross cuts need a whole count and a positive width");
+    }
+    if (segmentLength(geometry) <= 0) {
+      throw new RangeError("Cross cuts do not fit on the base length");
+    }
+  }
+}
+
+function validateFinProfile(geometry: PlateArrayGeometry): void {
+  const profile = finProfile(geometry);
+  if (profile.kind === "tapered") {
+    const { tipThickness } = profile;
+    if (!(tipThickness > 0 && tipThickness <= geometry.finThickness)) {
+      throw new RangeError(
+        "Tip thickness must be positive and no more than the root thickness"
+      );
+    }
+  }
+  if (profile.kind === "flared") {
+    const { flareAngle } = profile;
+    // The outermost fins lean furthest, by half the spread of the array.
+    if (!(flareAngle >= 0 && (geometry.finCount - 1) * flareAngle < 180)) {
+      throw new RangeError("Flare angle leans the outer fins past horizontal");
+    }
+  }
+}
+
+export function finProfile(geometry: PlateArrayGeometry): FinProfile {
+  return geometry.profile ?? { kind: "rectangular" };
+}
+
+export function tipThickness(geometry: PlateArrayGeometry): number {
+  const profile = finProfile(geometry);
+  switch (profile.kind) {
+    case "tapered":
+      return profile.tipThickness;
+    case "triangular":
+      return 0;
+    default:
+      return geometry.finThickness;
+  }
+}
+
+/** Area of one fin's cross-section across the flow (m²). */
+export function finSection(geometry: PlateArrayGeometry): number {
+  const { finHeight, finThickness } = geometry;
+  return (finHeight * (finThickness + tipThickness(geometry))) / 2;
+}
+
+/** Gap between neighbouring fins at the root (m). */
+export function channelSpacing(geometry: PlateArrayGeometry): number {
+  const { baseWidth, finThickness, finCount } = geometry;
+  return (baseWidth - finCount * finThickness) / (finCount - 1);
+}
+
+/**
+ * Gap between neighbouring fins averaged over the fin height, which tapered
+ * and flared fins open up towards the tip (m).
+ */
+export function meanChannelSpacing(geometry: PlateArrayGeometry): number {
+  const profile = finProfile(geometry);
+  const root = channelSpacing(geometry);
+  if (profile.kind === "flared") {
+    const half = (profile.flareAngle * Math.PI) / 360;
+    return root + geometry.finHeight * Math.tan(half);
+  }
+  return root + (geometry.finThickness - tipThickness(geometry)) / 2;
+}
+
+/** Number of fin segments along the flow; one for uncut plate fins. */
+export function segmentCount(geometry: PlateArrayGeometry): number {
+  return geometry.kind === "cross-cut" ? geometry.cutCount + 1 : 1;
+}
+
+/** Length of each fin segment along the flow (m). */
+export function segmentLength(geometry: PlateArrayGeometry): number {
+  if (geometry.kind !== "cross-cut") return geometry.baseLength;
+  const { baseLength, cutCount, cutWidth } = geometry;
+  return (baseLength - cutCount * cutWidth) / (cutCount + 1);
+}
+
+export interface FinnedSurface {
+  finArea: number;
+  /** Base area left exposed between the fins. */
+  baseArea: number;
+  finEfficiency: number;
+  /** Area-weighted efficiency of fins plus exposed base. */
+  surfaceEfficiency: number;
+  /** h · η₀ · A (W/K). */
+  conductance: number;
+}
+
+export function combineFinnedSurface(
+  finArea: number,
+  baseArea: number,
+  finEfficiency: number,
+  heatTransferCoefficient: number
+): FinnedSurface {
+  const surfaceEfficiency =
+    (finEfficiency * finArea + baseArea) / (finArea + baseArea);
+  return {
+    finArea,
+    baseArea,
+    finEfficiency,
+    surfaceEfficiency,
+    conductance:
+      heatTransferCoefficient * surfaceEfficiency * (finArea + baseArea),
+  };
+}
+
+export function plateFinAreas(geometry: PlateArrayGeometry): {
+  finArea: number;
+  baseArea: number;
+} {
+  const { baseWidth, baseLength, finHeight, finThickness, finCount } =
+    geometry;
+  const segments = segmentCount(geometry);
+  const length = segmentLength(geometry);
+  const tip = tipThickness(geometry);
+  const face = Math.hypot(finHeight, (finThickness - tip) / 2);
+  // Faces, tip and the two cut ends of every segment. The end faces of
+  // uncut plate fins are small and left out.
+  const segmentArea =
+    (2 * face + tip) * length +
+    (geometry.kind === "cross-cut" ? 2 * finSection(geometry) : 0);
+  return {
+    finArea: finCount * segments * segmentArea,
+    baseArea:
+      baseWidth * baseLength - finCount * segments * finThickness * length,
+  };
+}
+
+/** Efficiency of one fin of the array for its profile. */
+export function plateFinEfficiency(
+  geometry: PlateArrayGeometry,
+  conductivity: number,
+  heatTransferCoefficient: number
+): number {
+  const { finHeight, finThickness } = geometry;
+  const profile = finProfile(geometry);
+  switch (profile.kind) {
+    case "tapered":
+      return taperedFinEfficiency(
+        heatTransferCoefficient,
+        conductivity,
+        finThickness,
+        profile.tipThickness,
+        finHeight
+      );
+    case "triangular":
+      return triangularFinEfficiency(
+        heatTransferCoefficient,
+        conductivity,
+        finThickness,
+        finHeight
+      );
+    default:
+      return rectangularFinEfficiency(
+        heatTransferCoefficient,
+        conductivity,
+        finThickness,
+        finHeight
+      );
+  }
+}
+
+export function plateFinSurface(
+  geometry: PlateArrayGeometry,
+  conductivity: number,
+  heatTransferCoefficient: number
+): FinnedSurface {
+  const { finArea, baseArea } = plateFinAreas(geometry);
+  return combineFinnedSurface(
+    finArea,
+    baseArea,
+    plateFinEfficiency(geometry, conductivity, heatTransferCoefficient),
+    heatTransferCoefficient
+  );
+}
+
+/** One-dimensional conduction through the full baseplate (K/W). */
+export function baseConductionResistance(
+  geometry: BaseplateDimensions,
+  conductivity: number
+): number {
+  const { baseWidth, baseLength, baseThickness } = geometry;
+  return baseThickness / (conductivity * baseWidth * baseLength);
+}
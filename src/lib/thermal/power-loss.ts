@@ -0,0 +1,158 @@
+/**
+ * Semiconductor losses in a hard-switched converter from datasheet values.
+ * Inductor ripple is neglected, so the device carries a flat current while
+ * it conducts.
+ */
+
+export type SwitchKind = "mosfet" | "igbt" | "diode";
+
+export type ConverterTopology = "buck" | "boost" | "half-bridge";
+
+export interface LossInput {
+  kind: SwitchKind;
+  topology: ConverterTopology;
+  /** V. */
+  inputVoltage: number;
+  /** V; a half-bridge runs at a fixed 50 % duty. */
+  outputVoltage: number;
+  /** Inductor or phase current while the device conducts (A). */
+  current: number;
+  /** Hz. */
+  frequency: number;
+  /** MOSFET on-resistance at 25 °C (Ω). */
+  onResistance: number;
+  /** Fractional rise of the on-resistance per kelvin, compounded (1/K). */
+  onResistanceCoefficient: number;
+  /** IGBT saturation or diode forward voltage at 25 °C (V). */
+  forwardVoltage: number;
+  /** Change of the forward voltage per kelvin, usually negative (V/K). */
+  forwardVoltageCoefficient: number;
+  /** Current rise time at turn-on (s). */
+  riseTime: number;
+  /** Current fall time at turn-off (s). */
+  fallTime: number;
+  /** Total gate charge (C). */
+  gateCharge: number;
+  /** V. */
+  gateVoltage: number;
+  /**
+   * Reverse-recovery charge (C). For a diode it is its own; for a switch,
+   * that of the diode it commutates against, which it absorbs at turn-on.
+   */
+  recoveryCharge: number;
+}
+
+/** W. */
+export interface PowerLoss {
+  conduction: number;
+  switching: number;
+  reverseRecovery: number;
+  /**
+   * Charging the gate. Most of it heats the gate resistor and driver rather
+   * than the die, so counting it errs on the safe side.
+   */
+  gateDrive: number;
+  total: number;
+  /** Fraction of each period the controlled switch is on. */
+  dutyCycle: number;
+}
+
+export function validateLossInput(input: LossInput): void {
+  const { inputVoltage, outputVoltage, current, frequency } = input;
+  if (!(inputVoltage > 0 && current >= 0 && frequency > 0)) {
+    throw new RangeError(
+      "Voltage and frequency must be positive and current not negative"
+    );
+  }
+  if (
+    input.topology === "buck" &&
+    !(outputVoltage > 0 && outputVoltage < inputVoltage)
+  ) {
+    throw new RangeError("A buck converter needs 0 < Vout < Vin");
+  }
+  if (input.topology === "boost" && !(outputVoltage > inputVoltage)) {
+    throw new RangeError("A boost converter needs Vout > Vin");
+  }
+  const parameters = [
+    input.onResistance,
+    input.forwardVoltage,
+    input.riseTime,
+    input.fallTime,
+    input.gateCharge,
+    input.gateVoltage,
+    input.recoveryCharge,
+  ];
+  if (parameters.some((v) => !(v >= 0))) {
+    throw new RangeError("Device parameters cannot be negative");
+  }
+}
+
+/** Duty cycle of the controlled switch in continuous conduction. */
+export function dutyCycle(
+  topology: ConverterTopology,
+  inputVoltage: number,
+  outputVoltage: number
+): number {
+  switch (topology) {
+    case "buck":
+      return outputVoltage / inputVoltage;
+    case "boost":
+      return 1 - inputVoltage / outputVoltage;
+    case "half-bridge":
+      return 0.5;
+  }
+}
+
+/** Voltage the devices block and switch against (V). */
+function switchedVoltage(input: LossInput): number {
+  return input.topology === "boost" ? input.outputVoltage : input.inputVoltage;
+}
+
+/** Temperature the on-resistance and forward voltage are given at (°C). */
+export const LOSS_REFERENCE_TEMPERATURE = 25;
+
+/**
+ * Losses of one device at a junction temperature. Switches conduct for the
+ * duty cycle; a diode freewheels for the rest of the period. Only the
+ * conduction loss follows the temperature.
+ */
+export function powerLoss(
+  input: LossInput,
+  junctionTemperature = LOSS_REFERENCE_TEMPERATURE
+): PowerLoss {
+  validateLossInput(input);
+  const rise = junctionTemperature - LOSS_REFERENCE_TEMPERATURE;
+  const onResistance =
+    input.onResistance * (1 + input.onResistanceCoefficient) ** rise;
+  const forwardVoltage = Math.max(
+    0,
+    input.forwardVoltage + input.forwardVoltageCoefficient * rise
+  );
+  const { kind, current: i, frequency: f } = input;
+  const duty = dutyCycle(
+    input.topology,
+    input.inputVoltage,
+    input.outputVoltage
+  );
+  const v = switchedVoltage(input);
+  const on = kind === "diode" ? 1 - duty : duty;
+
+  const conduction =
+    kind === "mosfet"
+      ? i * i * onResistance * on
+      : forwardVoltage * i * on;
+  const switching =
+    kind === "diode" ? 0 : 0.5 * v * i * (input.riseTime + input.fallTime) * f;
+  const reverseRecovery = input.recoveryCharge * v * f;
+  const gateDrive =
+    kind === "diode" ? 0 : input.gateCharge * input.gateVoltage * f;
+
+  return {
+    conduction,
+    switching,
+    reverseRecovery,
+    gateDrive,
+    total: conduction + switching + reverseRecovery + gateDrive,
+    dutyCycle: duty,
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { STEFAN_BOLTZMANN } from "./constants";
+import { wettedArea } from "./geometry";
+import {
+  channelRadiation,
+  channelViewFactors,
+  surfaceEmissivity,
+} from "./radiation";
+import type { PlateFinGeometry } from "./types";
+import {
+  parallelRectanglesViewFactor,
+  perpendicularRectanglesViewFactor,
+} from "./view-factors";
+
+const PLATE: PlateFinGeometry = {
+  kind: "plate-fin",
+  baseWidth: 0.1,
+  baseLength: 0.1,
+  baseThickness: 0.005,
+  finHeight: 0.03,
+  finThickness: 0.0015,
+  finCount: 10,
+};
+
+describe("parallelRectanglesViewFactor", () => {
+  it("is 0.1998 for squares one side apart", () => {
+    expect(parallelRectanglesViewFactor(1, 1, 1)).toBeCloseTo(0.1998, 4);
+  });
+
+  it("tends to one as the plates close up and to zero as they part", () => {
+    expect(parallelRectanglesViewFactor(1, 1, 1e-3)).toBeCloseTo(1, 2);
+    expect(parallelRectanglesViewFactor(1, 1, 100)).toBeLessThan(1e-4);
+  });
+});
+
+describe("perpendicularRectanglesViewFactor", () => {
+  it("is 0.2000 between squares sharing an edge", () => {
+    expect(perpendicularRectanglesViewFactor(1, 1, 1)).toBeCloseTo(0.2, 3);
+  });
+
+  it("obeys reciprocity", () => {
+    const fromNarrow = perpendicularRectanglesViewFactor(0.5, 2, 1);
+    const fromWide = perpendicularRectanglesViewFactor(2, 0.5, 1);
+    expect(0.5 * fromNarrow).toBeCloseTo(2 * fromWide, 12);
+  });
+});
+
+describe("channelViewFactors", () => {
+  it("sum to one from each surface and obey reciprocity", () => {
+    const f = channelViewFactors(PLATE);
+    const spacing = (0.1 - 10 * 0.0015) / 9;
+    expect(f.finToFin + f.finToBase + f.finToAmbient).toBeCloseTo(1, 12);
+    expect(2 * f.baseToFin + f.baseToAmbient).toBeCloseTo(1, 12);
+    expect(f.finToBase * PLATE.finHeight).toBeCloseTo(
+      f.baseToFin * spacing,
+      12
+    );
+  });
+});
+
+describe("channelViewFactors with shaped fins", () => {
+  it("let tapered and flared fins see less of each other across the wider gap", () => {
+    const straight = channelViewFactors(PLATE).finToFin;
+    const tapered = channelViewFactors({
+      ...PLATE,
+      profile: { kind: "tapered", tipThickness: 0.0005 },
+    });
+    const flared = channelViewFactors({
+      ...PLATE,
+      profile: { kind: "flared", flareAngle: 10 },
+    });
+    expect(tapered.finToFin).toBeLessThan(straight);
+    expect(flared.finToFin).toBeLessThan(straight);
+    expect(
+      tapered.finToFin + tapered.finToBase + tapered.finToAmbient
+    ).toBeCloseTo(1, 12);
+  });
+});
+
+describe("channelRadiation", () => {
+  it("is zero without emissivity or a temperature rise", () => {
+    expect(channelRadiation(PLATE, 0, 80, 25).heatFlow).toBe(0);
+    expect(channelRadiation(PLATE, 0.9, 25, 25).heatFlow).toBe(0);
+  });
+
+  it("rises with emissivity but stays below every surface seeing ambient", () => {
+    const dull = channelRadiation(PLATE, 0.1, 80, 25).heatFlow;
+    const black = channelRadiation(PLATE, 1, 80, 25).heatFlow;
+    const exposed =
+      STEFAN_BOLTZMANN * (353.15 ** 4 - 298.15 ** 4) * wettedArea(PLATE);
+    expect(dull).toBeGreaterThan(0);
+    expect(black).toBeGreaterThan(dull);
+    expect(black).toBeLessThan(exposed);
+  });
+});
+
+describe("surfaceEmissivity", () => {
+  const copper = { name: "Copper", conductivity: 390, emissivity: 0.03 };
+
+  it("takes a bare surface's emissivity from the material", () => {
+    expect(surfaceEmissivity("machined-aluminium", copper)).toBe(0.03);
+    expect(
+      surfaceEmissivity("machined-aluminium", {
+        ...copper,
+        emissivity: undefined,
+      })
+    ).toBe(0.09);
+  });
+
+  it("keeps a coating's own emissivity", () => {
+    expect(surfaceEmissivity("black-anodized", copper)).toBe(0.86);
+  });
+});
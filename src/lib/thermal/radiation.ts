@@ -0,0 +1,202 @@
+import { KELVIN_OFFSET, STEFAN_BOLTZMANN } from "./constants";
+import { wettedArea } from "./geometry";
+import { channelSpacing, meanChannelSpacing } from "./plate-fin";
+import type {
+  HeatsinkGeometry,
+  HeatsinkMaterial,
+  PlateArrayGeometry,
+} from "./types";
+import {
+  parallelRectanglesViewFactor,
+  perpendicularRectanglesViewFactor,
+} from "./view-factors";
+
+export type SurfaceFinishId =
+  | "machined-aluminium"
+  | "black-anodized"
+  | "clear-anodized"
+  | "painted"
+  | "oxidized-copper";
+
+export interface SurfaceFinish {
+  id: SurfaceFinishId;
+  label: string;
+  /** Total hemispherical emissivity near room temperature. */
+  emissivity: number;
+  /** Leaves the metal bare, so the material's own emissivity applies. */
+  bare?: boolean;
+}
+
+export const SURFACE_FINISHES: SurfaceFinish[] = [
+  { id: "machined-aluminium", label: "Bare machined metal", emissivity: 0.09, bare: true },
+  { id: "black-anodized", label: "Black anodized", emissivity: 0.86 },
+  { id: "clear-anodized", label: "Clear anodized", emissivity: 0.77 },
+  { id: "painted", label: "Painted", emissivity: 0.9 },
+  { id: "oxidized-copper", label: "Copper, oxidized", emissivity: 0.65 },
+];
+
+export function getSurfaceFinish(id: SurfaceFinishId): SurfaceFinish {
+  const finish = SURFACE_FINISHES.find((f) => f.id === id);
+  if (!finish) throw new Error(`Unknown surface finish: ${id}`);
+  return finish;
+}
+
+/**
+ * Emissivity of the finished surface: the finish's own, or for bare metal the
+ * material's where the library gives one.
+ */
+export function surfaceEmissivity(
+  finish: SurfaceFinishId,
+  material: HeatsinkMaterial
+): number {
+  const { emissivity, bare } = getSurfaceFinish(finish);
+  return bare ? (material.emissivity ?? emissivity) : emissivity;
+}
+
+/**
+ * View factors inside one channel formed by two fins and the base between
+ * them. Tapered and flared fins face each other across their mean gap; the
+ * base strip is the gap at the roots.
+ */
+export interface ChannelViewFactors {
+  finToFin: number;
+  finToBase: number;
+  finToAmbient: number;
+  baseToFin: number;
+  baseToAmbient: number;
+}
+
+export function channelViewFactors(
+  geometry: PlateArrayGeometry
+): ChannelViewFactors {
+  const { baseLength, finHeight } = geometry;
+  const spacing = channelSpacing(geometry);
+  const finToFin = parallelRectanglesViewFactor(
+    finHeight,
+    baseLength,
+    meanChannelSpacing(geometry)
+  );
+  const baseToFin = perpendicularRectanglesViewFactor(
+    spacing,
+    finHeight,
+    baseLength
+  );
+  const finToBase = (baseToFin * spacing) / finHeight;
+  return {
+    finToFin,
+    finToBase,
+    finToAmbient: Math.max(0, 1 - finToFin - finToBase),
+    baseToFin,
+    baseToAmbient: Math.max(0, 1 - 2 * baseToFin),
+  };
+}
+
+export interface RadiationResult {
+  /** Plate and cross-cut fins only. */
+  viewFactors?: ChannelViewFactors;
+  /** Net radiation from the whole heatsink to ambient (W). */
+  heatFlow: number;
+  /** Radiation coefficient referred to the fin plus exposed base area (W/(m²·K)). */
+  coefficient: number;
+}
+
+/**
+ * Radiation from an isothermal plate-fin array to black surroundings at the
+ * ambient temperature.
+ *
+ * Each channel is a gray, diffuse enclosure of two fin faces, the base strip
+ * and the black ambient seen through its openings; the radiosities of the fin
+ * faces and the base are solved directly. The outer faces of the end fins and
+ * the fin tips see only ambient. Cross cuts are too narrow to change the
+ * channel view factors and are ignored.
+ */
+export function channelRadiation(
+  geometry: PlateArrayGeometry,
+  emissivity: number,
+  surfaceTemperature: number,
+  ambientTemperature: number
+): RadiationResult {
+  const viewFactors = channelViewFactors(geometry);
+  const { baseLength, finHeight, finThickness, finCount } = geometry;
+  const spacing = channelSpacing(geometry);
+  const temperatureRise = surfaceTemperature - ambientTemperature;
+
+  if (emissivity <= 0 || temperatureRise <= 0) {
+    return { viewFactors, heatFlow: 0, coefficient: 0 };
+  }
+
+  const ebSurface = STEFAN_BOLTZMANN * (surfaceTemperature + KELVIN_OFFSET) ** 4;
+  const ebAmbient = STEFAN_BOLTZMANN * (ambientTemperature + KELVIN_OFFSET) ** 4;
+  const rho = 1 - emissivity;
+  const { finToFin, finToBase, finToAmbient, baseToFin, baseToAmbient } =
+    viewFactors;
+
+  // J_f = ε·Eb + ρ·(F_ff·J_f + F_fb·J_b + F_fa·Eb_a)
+  // J_b = ε·Eb + ρ·(2·F_bf·J_f + F_ba·Eb_a)
+  const a11 = 1 - rho * finToFin;
+  const a12 = -rho * finToBase;
+  const a21 = -rho * 2 * baseToFin;
+  const a22 = 1;
+  const b1 = emissivity * ebSurface + rho * finToAmbient * ebAmbient;
+  const b2 = emissivity * ebSurface + rho * baseToAmbient * ebAmbient;
+  const det = a11 * a22 - a12 * a21;
+  const jFin = (b1 * a22 - a12 * b2) / det;
+  const jBase = (a11 * b2 - a21 * b1) / det;
+
+  const qFin = jFin - (finToFin * jFin + finToBase * jBase + finToAmbient * ebAmbient);
+  const qBase = jBase - (2 * baseToFin * jFin + baseToAmbient * ebAmbient);
+  const channelHeatFlow =
+    2 * qFin * finHeight * baseLength + qBase * spacing * baseLength;
+
+  const exposedArea = (2 * finHeight + finCount * finThickness) * baseLength;
+  const heatFlow =
+    (finCount - 1) * channelHeatFlow +
+    emissivity * (ebSurface - ebAmbient) * exposedArea;
+
+  return {
+    viewFactors,
+    heatFlow,
+    coefficient: heatFlow / (wettedArea(geometry) * temperatureRise),
+  };
+}
+
+/**
+ * Radiation from a pin array approximated by its isothermal bounding
+ * envelope: the top face and the four sides, each seeing only ambient.
+ */
+export function envelopeRadiation(
+  geometry: HeatsinkGeometry,
+  emissivity: number,
+  surfaceTemperature: number,
+  ambientTemperature: number
+): RadiationResult {
+  const temperatureRise = surfaceTemperature - ambientTemperature;
+  if (emissivity <= 0 || temperatureRise <= 0) {
+    return { heatFlow: 0, coefficient: 0 };
+  }
+  const { baseWidth, baseLength, finHeight } = geometry;
+  const envelope =
+    baseWidth * baseLength + 2 * (baseWidth + baseLength) * finHeight;
+  const heatFlow =
+    emissivity *
+    STEFAN_BOLTZMANN *
+    ((surfaceTemperature + KELVIN_OFFSET) ** 4 -
+      (ambientTemperature + KELVIN_OFFSET) ** 4) *
+    envelope;
+  return {
+    heatFlow,
+    coefficient: heatFlow / (wettedArea(geometry) * temperatureRise),
+  };
+}
+
+/** Radiation to ambient for any heatsink geometry. */
+export function radiationHeatTransfer(
+  geometry: HeatsinkGeometry,
+  emissivity: number,
+  surfaceTemperature: number,
+  ambientTemperature: number
+): RadiationResult {
+  return geometry.kind === "pin-fin"
+    ? envelopeRadiation(geometry, emissivity, surfaceTemperature, ambientTemperature)
+    : channelRadiation(geometry, emissivity, surfaceTemperature, ambientTemperature);
+}
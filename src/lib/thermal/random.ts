@@ -0,0 +1,20 @@
+/** Uniform numbers in [0, 1) from a seed, so studies can be repeated. */
+export type RandomSource = () => number;
+
+/** Mulberry32: a small, fast generator that is good enough for sampling. */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal deviate by the Box–Muller transform. */
+export function standardNormal(random: RandomSource): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { sensitivityAnalysis, type SensitivityParameter } from "./sensitivity";
+
+interface Point {
+  x: number;
+  t: number;
+}
+
+const parameters: SensitivityParameter<Point>[] = [
+  {
+    id: "x",
+    name: "x",
+    value: (p) => p.x,
+    apply: (p, x) => ({ ...p, x }),
+  },
+  {
+    id: "t",
+    name: "t",
+    step: 5,
+    value: (p) => p.t,
+    apply: (p, t) => ({ ...p, t }),
+  },
+];
+
+const evaluate = (p: Point) => ({
+  junctionTemperature: p.x + p.t,
+  resistance: p.x,
+});
+
+describe("sensitivityAnalysis", () => {
+  it("moves inputs by a fraction of their value, or by a fixed step", () => {
+    const result = sensitivityAnalysis(
+      { x: 2, t: 0 },
+      parameters,
+      0.1,
+      evaluate
+    );
+    const x = result.entries.find((e) => e.id === "x")!;
+    const t = result.entries.find((e) => e.id === "t")!;
+    expect(x.lowValue).toBeCloseTo(1.8, 12);
+    expect(x.highValue).toBeCloseTo(2.2, 12);
+    // A zero nominal still moves when the input has a step.
+    expect(t.lowValue).toBe(-5);
+    expect(t.highValue).toBe(5);
+    expect(result.entries[0].id).toBe("t");
+  });
+
+  it("moves a negative input symmetrically about its value", () => {
+    const result = sensitivityAnalysis(
+      { x: -2, t: 0 },
+      parameters,
+      0.1,
+      evaluate
+    );
+    const x = result.entries.find((e) => e.id === "x")!;
+    expect(x.lowValue).toBeCloseTo(-2.2, 12);
+    expect(x.highValue).toBeCloseTo(-1.8, 12);
+  });
+
+  it("rejects a perturbation outside 0 to 100%", () => {
+    expect(() =>
+      sensitivityAnalysis({ x: 1, t: 0 }, parameters, 1, evaluate)
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,270 @@
+import type { Quantity } from "../units";
+import type { HeatsinkAssembly } from "./assembly";
+import type {
+  HeatsinkGeometry,
+  MountedDevice,
+  PinFinGeometry,
+  PlateArrayGeometry,
+} from "./types";
+
+/** A model input that can be read from and written back to a design. */
+export interface SensitivityParameter<T> {
+  id: string;
+  name: string;
+  /** Physical quantity of the value, which is in SI; none for counts. */
+  quantity?: Quantity;
+  /**
+   * Fixed change either way, in SI, for an input whose zero is arbitrary
+   * (a temperature in °C, an altitude) so a percentage of it means nothing.
+   */
+  step?: number;
+  value: (design: T) => number;
+  /** A copy of the design with this input set to `value`. */
+  apply: (design: T, value: number) => T;
+}
+
+export interface SensitivityOutputs {
+  /** Hottest junction (°C). */
+  junctionTemperature: number;
+  /** Heatsink base to ambient (K/W). */
+  resistance: number;
+}
+
+export interface SensitivityEntry {
+  id: string;
+  name: string;
+  quantity?: Quantity;
+  /** The input's fixed change either way (SI), where it ignores `fraction`. */
+  step?: number;
+  baseValue: number;
+  lowValue: number;
+  highValue: number;
+  /** Outputs with the input lowered and raised; NaN where the model failed. */
+  low: SensitivityOutputs;
+  high: SensitivityOutputs;
+}
+
+export interface SensitivityResult {
+  base: SensitivityOutputs;
+  /** Largest junction temperature swing first. */
+  entries: SensitivityEntry[];
+}
+
+const FAILED: SensitivityOutputs = {
+  junctionTemperature: NaN,
+  resistance: NaN,
+};
+
+/** Ambient temperature change either way (K). */
+export const AMBIENT_STEP = 5;
+
+/** Altitude change either way (m). */
+export const ALTITUDE_STEP = 500;
+
+/** Largest change of an output either way from the base design. */
+export function sensitivitySwing(
+  entry: SensitivityEntry,
+  base: SensitivityOutputs,
+  output: keyof SensitivityOutputs
+): number {
+  const swing = Math.max(
+    Math.abs(entry.low[output] - base[output]),
+    Math.abs(entry.high[output] - base[output])
+  );
+  return Number.isNaN(swing) ? -Infinity : swing;
+}
+
+/**
+ * One-at-a-time sensitivity: every parameter in turn is lowered and raised by
+ * `fraction` of its base value, or by its fixed `step` where it has one, with
+ * all others held. A perturbed design the
+ * model rejects records NaN outputs rather than failing the whole study.
+ */
+export function sensitivityAnalysis<T>(
+  design: T,
+  parameters: SensitivityParameter<T>[],
+  fraction: number,
+  evaluate: (design: T) => SensitivityOutputs
+): SensitivityResult {
+  if (!(fraction > 0 && fraction < 1)) {
+    throw new RangeError("Perturbation must be between 0 and 100%");
+  }
+  const base = evaluate(design);
+  const attempt = (parameter: SensitivityParameter<T>, value: number) => {
+    try {
+      return evaluate(parameter.apply(design, value));
+    } catch {
+      return FAILED;
+    }
+  };
+
+  const entries = parameters.map((parameter) => {
+    const baseValue = parameter.value(design);
+    const change = parameter.step ?? Math.abs(baseValue) * fraction;
+    // Whole-number inputs round to the setting the model actually sees.
+    const lowValue = parameter.value(
+      parameter.apply(design, baseValue - change)
+    );
+    const highValue = parameter.value(
+      parameter.apply(design, baseValue + change)
+    );
+    return {
+      id: parameter.id,
+      name: parameter.name,
+      quantity: parameter.quantity,
+      step: parameter.step,
+      baseValue,
+      lowValue,
+      highValue,
+      low: attempt(parameter, lowValue),
+      high: attempt(parameter, highValue),
+    };
+  });
+  entries.sort(
+    (a, b) =>
+      sensitivitySwing(b, base, "junctionTemperature") -
+      sensitivitySwing(a, base, "junctionTemperature")
+  );
+  return { base, entries };
+}
+
+/** A geometry dimension, or a whole count of fins or pins. */
+function geometryParameter<
+  T extends HeatsinkAssembly,
+  G extends HeatsinkGeometry = HeatsinkGeometry,
+>(key: keyof G & string, name: string, count = false): SensitivityParameter<T> {
+  return {
+    id: key,
+    name,
+    quantity: count ? undefined : "length",
+    value: (design) => (design.geometry as G)[key] as number,
+    apply: (design, value) => ({
+      ...design,
+      geometry: {
+        ...design.geometry,
+        [key]: count ? Math.max(1, Math.round(value)) : value,
+      },
+    }),
+  };
+}
+
+/**
+ * A device input scaled by the same factor on every device, reported as the
+ * mean (or total, for power) over the devices.
+ */
+function deviceParameter<T extends HeatsinkAssembly>(
+  key: "power" | "junctionToCase" | "caseToSink",
+  name: string,
+  quantity: Quantity,
+  total = false
+): SensitivityParameter<T> {
+  const value = (design: T) => {
+    const sum = design.devices.reduce((s, d) => s + d[key], 0);
+    return total ? sum : sum / design.devices.length;
+  };
+  return {
+    id: key,
+    name,
+    quantity,
+    value,
+    apply: (design, next) => {
+      const ratio = next / value(design);
+      return {
+        ...design,
+        devices: design.devices.map((d): MountedDevice => ({
+          ...d,
+          [key]: d[key] * ratio,
+        })),
+      };
+    },
+  };
+}
+
+/** Every numeric input the heatsink and junction results depend on. */
+export function sensitivityParameters<T extends HeatsinkAssembly>(
+  design: T
+): SensitivityParameter<T>[] {
+  const { geometry } = design;
+  const fins =
+    geometry.kind === "pin-fin"
+      ? [
+          geometryParameter<T, PinFinGeometry>("pinSize", "Pin size"),
+          geometryParameter<T, PinFinGeometry>("rows", "Pin rows", true),
+          geometryParameter<T, PinFinGeometry>("columns", "Pins across", true),
+        ]
+      : [
+          geometryParameter<T, PlateArrayGeometry>(
+            "finThickness",
+            "Fin thickness"
+          ),
+          geometryParameter<T, PlateArrayGeometry>(
+            "finCount",
+            "Fin count",
+            true
+          ),
+        ];
+  const parameters: SensitivityParameter<T>[] = [
+    geometryParameter("baseWidth", "Base width"),
+    geometryParameter("baseLength", "Base length"),
+    geometryParameter("baseThickness", "Base thickness"),
+    geometryParameter("finHeight", "Fin height"),
+    ...fins,
+    {
+      id: "conductivity",
+      name: "Conductivity",
+      quantity: "conductivity",
+      value: (d) => d.material.conductivity,
+      apply: (d, conductivity) => {
+        // A tabulated conductivity moves by the same factor throughout.
+        const ratio = conductivity / d.material.conductivity;
+        const table = d.material.conductivityTable;
+        return {
+          ...d,
+          material: {
+            ...d.material,
+            conductivity,
+            conductivityTable: table && {
+              ...table,
+              conductivities: table.conductivities.map((k) => k * ratio),
+            },
+          },
+        };
+      },
+    },
+    {
+      id: "ambientTemperature",
+      name: "Ambient",
+      quantity: "temperature",
+      step: AMBIENT_STEP,
+      value: (d) => d.ambientTemperature,
+      apply: (d, ambientTemperature) => ({ ...d, ambientTemperature }),
+    },
+    {
+      id: "altitude",
+      name: "Altitude",
+      quantity: "altitude",
+      step: ALTITUDE_STEP,
+      value: (d) => d.altitude,
+      apply: (d, altitude) => ({ ...d, altitude }),
+    },
+    deviceParameter("power", "Total power", "power", true),
+    deviceParameter("junctionToCase", "Rth(j-c)", "thermalResistance"),
+    deviceParameter("caseToSink", "Rth(c-s)", "thermalResistance"),
+  ];
+  if (design.mode === "forced") {
+    parameters.push({
+      id: "fanFlow",
+      name: "Fan free flow",
+      quantity: "flow",
+      value: (d) => Math.max(...d.fanCurve.map((p) => p.flow)),
+      apply: (d, flow) => {
+        const ratio = flow / Math.max(...d.fanCurve.map((p) => p.flow));
+        return {
+          ...d,
+          fanCurve: d.fanCurve.map((p) => ({ ...p, flow: p.flow * ratio })),
+        };
+      },
+    });
+  }
+  return parameters;
+}
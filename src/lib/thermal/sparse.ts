@@ -0,0 +1,146 @@
+/** Square sparse matrix in compressed sparse row form. */
+export interface CsrMatrix {
+  size: number;
+  rowPointers: Int32Array;
+  columns: Int32Array;
+  values: Float64Array;
+}
+
+/** One matrix entry as [row, column, value]. */
+export type MatrixEntry = [number, number, number];
+
+/**
+ * Packs matrix entries given in any order into CSR form, summing entries
+ * that share a position.
+ */
+export function buildCsrMatrix(
+  size: number,
+  entries: MatrixEntry[]
+): CsrMatrix {
+  const rows: Map<number, number>[] = Array.from(
+    { length: size },
+    () => new Map()
+  );
+  for (const [row, column, value] of entries) {
+    rows[row].set(column, (rows[row].get(column) ?? 0) + value);
+  }
+
+  const rowPointers = new Int32Array(size + 1);
+  rows.forEach((row, i) => {
+    rowPointers[i + 1] = rowPointers[i] + row.size;
+  });
+  const columns = new Int32Array(rowPointers[size]);
+  const values = new Float64Array(rowPointers[size]);
+  rows.forEach((row, i) => {
+    let k = rowPointers[i];
+    for (const [column, value] of [...row].sort((x, y) => x[0] - y[0])) {
+      columns[k] = column;
+      values[k] = value;
+      k++;
+    }
+  });
+  return { size, rowPointers, columns, values };
+}
+
+export function multiply(
+  matrix: CsrMatrix,
+  x: Float64Array,
+  out = new Float64Array(matrix.size)
+): Float64Array {
+  const { size, rowPointers, columns, values } = matrix;
+  for (let i = 0; i < size; i++) {
+    let sum = 0;
+    for (let k = rowPointers[i]; k < rowPointers[i + 1]; k++) {
+      sum += values[k] * x[columns[k]];
+    }
+    out[i] = sum;
+  }
+  return out;
+}
+
+export interface SolverOptions {
+  /** Stop when ‖b − Ax‖ ≤ tolerance · ‖b‖. */
+  tolerance?: number;
+  maxIterations?: number;
+  initialGuess?: Float64Array;
+  /** Called after every iteration, e.g. to report progress. */
+  onIteration?: (iteration: number, residual: number) => void;
+}
+
+export interface SolverResult {
+  solution: Float64Array;
+  iterations: number;
+  /** Relative residual ‖b − Ax‖ / ‖b‖ at exit. */
+  residual: number;
+  converged: boolean;
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Jacobi-preconditioned conjugate gradient for symmetric positive-definite
+ * systems, such as the conductance matrix of a grounded thermal network.
+ */
+export function conjugateGradient(
+  matrix: CsrMatrix,
+  rhs: Float64Array,
+  options: SolverOptions = {}
+): SolverResult {
+  const { size, rowPointers, columns, values } = matrix;
+  const tolerance = options.tolerance ?? 1e-10;
+  const maxIterations = options.maxIterations ?? Math.max(100, 10 * size);
+
+  const inverseDiagonal = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    for (let k = rowPointers[i]; k < rowPointers[i + 1]; k++) {
+      if (columns[k] === i) inverseDiagonal[i] = 1 / values[k];
+    }
+    if (!Number.isFinite(inverseDiagonal[i]) || inverseDiagonal[i] === 0) {
+      throw new RangeError(`Matrix row ${i} has no usable diagonal`);
+    }
+  }
+
+  const x = options.initialGuess
+    ? Float64Array.from(options.initialGuess)
+    : new Float64Array(size);
+  const r = Float64Array.from(rhs);
+  const ax = multiply(matrix, x);
+  for (let i = 0; i < size; i++) r[i] -= ax[i];
+
+  const rhsNorm = Math.sqrt(dot(rhs, rhs)) || 1;
+  const z = new Float64Array(size);
+  for (let i = 0; i < size; i++) z[i] = r[i] * inverseDiagonal[i];
+  const p = Float64Array.from(z);
+  const ap = new Float64Array(size);
+  let rz = dot(r, z);
+  let residual = Math.sqrt(dot(r, r)) / rhsNorm;
+  let iterations = 0;
+
+  while (residual > tolerance && iterations < maxIterations) {
+    multiply(matrix, p, ap);
+    const alpha = rz / dot(p, ap);
+    for (let i = 0; i < size; i++) {
+      x[i] += alpha * p[i];
+      r[i] -= alpha * ap[i];
+      z[i] = r[i] * inverseDiagonal[i];
+    }
+    const rzNext = dot(r, z);
+    const beta = rzNext / rz;
+    rz = rzNext;
+    for (let i = 0; i < size; i++) p[i] = z[i] + beta * p[i];
+    residual = Math.sqrt(dot(r, r)) / rhsNorm;
+    iterations++;
+    options.onIteration?.(iterations, residual);
+  }
+
+  return {
+    solution: x,
+    iterations,
+    residual,
+    converged: residual <= tolerance,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  centredSpreadingResistance,
+  eccentricSpreadingResistance,
+  spreadingCoupling,
+  spreadingResistance,
+  uniformSinkCoefficient,
+} from "./spreading";
+
+const BASE = { baseWidth: 0.1, baseLength: 0.1, baseThickness: 0.005 };
+const CONDUCTIVITY = 200;
+const SINK_RESISTANCE = 1;
+const sinkCoefficient = uniformSinkCoefficient(BASE, SINK_RESISTANCE);
+
+const source = (size: number, x = 0.05, y = 0.05) => ({
+  width: size,
+  length: size,
+  x,
+  y,
+});
+
+describe("spreading resistance", () => {
+  it("agrees between the closed form and the series for a centred source", () => {
+    for (const size of [0.01, 0.02, 0.05]) {
+      const closed = centredSpreadingResistance(
+        BASE,
+        CONDUCTIVITY,
+        source(size),
+        sinkCoefficient
+      );
+      const series = eccentricSpreadingResistance(
+        BASE,
+        CONDUCTIVITY,
+        source(size),
+        sinkCoefficient
+      );
+      // The closed form replaces squares by circles of equal area.
+      expect(Math.abs(closed / series - 1)).toBeLessThan(0.1);
+    }
+  });
+
+  it("vanishes for a source covering the whole base", () => {
+    expect(
+      spreadingResistance(BASE, CONDUCTIVITY, source(0.1), SINK_RESISTANCE)
+    ).toBeCloseTo(0, 6);
+  });
+
+  it("is continuous as the source moves onto the centre", () => {
+    const centred = spreadingResistance(
+      BASE,
+      CONDUCTIVITY,
+      source(0.02),
+      SINK_RESISTANCE
+    );
+    const nudged = spreadingResistance(
+      BASE,
+      CONDUCTIVITY,
+      source(0.02, 0.05 + 1e-5),
+      SINK_RESISTANCE
+    );
+    expect(nudged / centred).toBeCloseTo(1, 6);
+  });
+
+  it("grows as the source moves towards an edge", () => {
+    const centred = spreadingResistance(
+      BASE,
+      CONDUCTIVITY,
+      source(0.02),
+      SINK_RESISTANCE
+    );
+    const offset = spreadingResistance(
+      BASE,
+      CONDUCTIVITY,
+      source(0.02, 0.02),
+      SINK_RESISTANCE
+    );
+    const corner = spreadingResistance(
+      BASE,
+      CONDUCTIVITY,
+      source(0.02, 0.01, 0.01),
+      SINK_RESISTANCE
+    );
+    expect(offset).toBeGreaterThan(centred);
+    expect(corner).toBeGreaterThan(offset);
+  });
+
+  it("is reciprocal between two sources", () => {
+    const a = source(0.02, 0.02, 0.03);
+    const b = source(0.01, 0.07, 0.06);
+    expect(
+      spreadingCoupling(BASE, CONDUCTIVITY, a, b, sinkCoefficient)
+    ).toBeCloseTo(
+      spreadingCoupling(BASE, CONDUCTIVITY, b, a, sinkCoefficient),
+      12
+    );
+  });
+
+  it("rejects a source off the base", () => {
+    expect(() =>
+      spreadingResistance(
+        BASE,
+        CONDUCTIVITY,
+        source(0.02, 0.095),
+        SINK_RESISTANCE
+      )
+    ).toThrow(RangeError);
+  });
+});
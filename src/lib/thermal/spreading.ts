@@ -0,0 +1,161 @@
+import type { BaseplateDimensions, HeatSource } from "./types";
+
+const SERIES_TERMS = 150;
+const DOUBLE_SERIES_TERMS = 80;
+const CENTRE_TOLERANCE = 1e-6;
+
+export function validateHeatSource(
+  base: BaseplateDimensions,
+  source: HeatSource
+): void {
+  const { width, length, x, y } = source;
+  if (!(width > 0 && length > 0)) {
+    throw new RangeError("Heat source footprint must be positive");
+  }
+  if (
+    x - width / 2 < -CENTRE_TOLERANCE ||
+    x + width / 2 > base.baseWidth + CENTRE_TOLERANCE ||
+    y - length / 2 < -CENTRE_TOLERANCE ||
+    y + length / 2 > base.baseLength + CENTRE_TOLERANCE
+  ) {
+    throw new RangeError("Heat source must lie on the baseplate");
+  }
+}
+
+/**
+ * Spreading function φ(ζ) of one Fourier harmonic in a plate of the given
+ * thickness, cooled on its far side with h/k = `biotRatio` (1/m).
+ */
+function spreadingFunction(
+  zeta: number,
+  thickness: number,
+  biotRatio: number
+): number {
+  const t = zeta * thickness;
+  // (ζ·cosh + h/k·sinh) / (ζ·sinh + h/k·cosh), divided through by cosh so
+  // that large ζt does not overflow.
+  const th = Math.tanh(t);
+  return (zeta + biotRatio * th) / (zeta * th + biotRatio);
+}
+
+/**
+ * Closed-form spreading resistance of a source centred on a plate (Song, Lee
+ * & Yovanovich), with source and plate replaced by circles of equal area.
+ * `sinkCoefficient` is the uniform film coefficient on the finned side
+ * (W/(m²·K)).
+ */
+export function centredSpreadingResistance(
+  base: BaseplateDimensions,
+  conductivity: number,
+  source: HeatSource,
+  sinkCoefficient: number
+): number {
+  const a = Math.sqrt((source.width * source.length) / Math.PI);
+  const b = Math.sqrt((base.baseWidth * base.baseLength) / Math.PI);
+  const epsilon = a / b;
+  const tau = base.baseThickness / b;
+  const biot = (sinkCoefficient * b) / conductivity;
+  const lambda = Math.PI + 1 / (Math.sqrt(Math.PI) * epsilon);
+  const th = Math.tanh(lambda * tau);
+  const phi = (th + lambda / biot) / (1 + (lambda / biot) * th);
+  const psi = 0.5 * (1 - epsilon) ** 1.5 * phi;
+  return psi / (Math.sqrt(Math.PI) * conductivity * a);
+}
+
+/**
+ * Mean temperature rise over the footprint of `target` per watt dissipated
+ * in `source`, above the one-dimensional base and sink rise (K/W), from the
+ * Fourier series solution for rectangular sources on a rectangular plate
+ * with adiabatic edges (Muzychka, Culham & Yovanovich).
+ */
+export function spreadingCoupling(
+  base: BaseplateDimensions,
+  conductivity: number,
+  source: HeatSource,
+  target: HeatSource,
+  sinkCoefficient: number
+): number {
+  const { baseWidth: a, baseLength: b, baseThickness: t } = base;
+  const hk = sinkCoefficient / conductivity;
+
+  const sx = (s: HeatSource, lambda: number) =>
+    Math.sin(lambda * (s.x + s.width / 2)) -
+    Math.sin(lambda * (s.x - s.width / 2));
+  const sy = (s: HeatSource, delta: number) =>
+    Math.sin(delta * (s.y + s.length / 2)) -
+    Math.sin(delta * (s.y - s.length / 2));
+  const cc = source.width * target.width;
+  const dd = source.length * target.length;
+
+  let sum = 0;
+  for (let m = 1; m <= SERIES_TERMS; m++) {
+    const lambda = (m * Math.PI) / a;
+    sum +=
+      (2 * sx(source, lambda) * sx(target, lambda) *
+        spreadingFunction(lambda, t, hk)) /
+      (a * b * cc * lambda ** 3);
+  }
+  for (let n = 1; n <= SERIES_TERMS; n++) {
+    const delta = (n * Math.PI) / b;
+    sum +=
+      (2 * sy(source, delta) * sy(target, delta) *
+        spreadingFunction(delta, t, hk)) /
+      (a * b * dd * delta ** 3);
+  }
+  for (let m = 1; m <= DOUBLE_SERIES_TERMS; m++) {
+    const lambda = (m * Math.PI) / a;
+    const xx = sx(source, lambda) * sx(target, lambda);
+    if (xx === 0) continue;
+    for (let n = 1; n <= DOUBLE_SERIES_TERMS; n++) {
+      const delta = (n * Math.PI) / b;
+      const beta = Math.hypot(lambda, delta);
+      sum +=
+        (4 * xx * sy(source, delta) * sy(target, delta) *
+          spreadingFunction(beta, t, hk)) /
+        (a * b * cc * dd * lambda ** 2 * delta ** 2 * beta);
+    }
+  }
+  return sum / conductivity;
+}
+
+/**
+ * Spreading resistance of a rectangular source anywhere on a rectangular
+ * plate: its own coupling coefficient.
+ */
+export function eccentricSpreadingResistance(
+  base: BaseplateDimensions,
+  conductivity: number,
+  source: HeatSource,
+  sinkCoefficient: number
+): number {
+  return spreadingCoupling(base, conductivity, source, source, sinkCoefficient);
+}
+
+/** Film coefficient that spreads the sink resistance evenly over the base. */
+export function uniformSinkCoefficient(
+  base: BaseplateDimensions,
+  sinkResistance: number
+): number {
+  return 1 / (sinkResistance * base.baseWidth * base.baseLength);
+}
+
+/**
+ * Spreading and constriction resistance from a source into the baseplate
+ * (K/W), added in series to the one-dimensional base and sink resistances.
+ * Every source uses the series solution, so the result stays continuous as
+ * a source moves onto the centre; the closed form above is only a check.
+ */
+export function spreadingResistance(
+  base: BaseplateDimensions,
+  conductivity: number,
+  source: HeatSource,
+  sinkResistance: number
+): number {
+  validateHeatSource(base, source);
+  return eccentricSpreadingResistance(
+    base,
+    conductivity,
+    source,
+    uniformSinkCoefficient(base, sinkResistance)
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Properties tabulated against temperature, one column per property, for
+ * linear interpolation.
+ */
+export interface PropertyTable<K extends string> {
+  /** Ascending temperatures (°C). */
+  temperatures: readonly number[];
+  columns: Readonly<Record<K, readonly number[]>>;
+}
+
+/**
+ * Linear interpolation in ascending `xs`, held at the end values outside
+ * the tabulated range.
+ */
+export function interpolate(
+  xs: readonly number[],
+  ys: readonly number[],
+  x: number
+): number {
+  if (x <= xs[0]) return ys[0];
+  const last = xs.length - 1;
+  if (x >= xs[last]) return ys[last];
+  let hi = 1;
+  while (xs[hi] < x) hi++;
+  const t = (x - xs[hi - 1]) / (xs[hi] - xs[hi - 1]);
+  return ys[hi - 1] + t * (ys[hi] - ys[hi - 1]);
+}
+
+/** Every column of the table at one temperature. */
+export function lookupProperties<K extends string>(
+  table: PropertyTable<K>,
+  temperature: number
+): Record<K, number> {
+  const row = {} as Record<K, number>;
+  for (const key of Object.keys(table.columns) as K[]) {
+    row[key] = interpolate(table.temperatures, table.columns[key], temperature);
+  }
+  return row;
+}
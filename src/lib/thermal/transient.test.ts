@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  cauerToFoster,
+  energyUntil,
+  fosterImpedance,
+  fosterToCauer,
+  simulateTransient,
+  type RcStage,
+} from "./transient";
+
+const byTimeConstant = (stages: RcStage[]) =>
+  [...stages].sort(
+    (a, b) => a.resistance * a.capacitance - b.resistance * b.capacitance
+  );
+
+// A two-node ladder of unit R and C has Z(s) = (s + 2)/(s² + 3s + 1), whose
+// partial fractions give the Foster stages: τ = (3 ± √5)/2 with
+// R = 0.1056 and 1.8944 K/W.
+const CAUER: RcStage[] = [
+  { resistance: 1, capacitance: 1 },
+  { resistance: 1, capacitance: 1 },
+];
+const ROOT5 = Math.sqrt(5);
+const FOSTER: RcStage[] = [
+  { resistance: (ROOT5 - 1) / (ROOT5 * (3 + ROOT5)), tau: (3 - ROOT5) / 2 },
+  { resistance: (ROOT5 + 1) / (ROOT5 * (3 - ROOT5)), tau: (3 + ROOT5) / 2 },
+].map(({ resistance, tau }) => ({ resistance, capacitance: tau / resistance }));
+
+describe("Foster and Cauer conversion", () => {
+  it("converts the unit ladder to its analytic Foster stages", () => {
+    const foster = cauerToFoster(CAUER);
+    expect(foster).toHaveLength(2);
+    foster.forEach((stage, i) => {
+      expect(stage.resistance).toBeCloseTo(FOSTER[i].resistance, 9);
+      expect(stage.capacitance).toBeCloseTo(FOSTER[i].capacitance, 9);
+    });
+  });
+
+  it("converts the analytic Foster stages back to the unit ladder", () => {
+    fosterToCauer(FOSTER).forEach((stage) => {
+      expect(stage.resistance).toBeCloseTo(1, 9);
+      expect(stage.capacitance).toBeCloseTo(1, 9);
+    });
+  });
+
+  it("round-trips a datasheet Foster fit", () => {
+    const fit: RcStage[] = [
+      { resistance: 0.05, capacitance: 0.001 },
+      { resistance: 0.2, capacitance: 0.01 },
+      { resistance: 0.45, capacitance: 0.1 },
+      { resistance: 0.3, capacitance: 0.6 },
+    ];
+    const back = byTimeConstant(cauerToFoster(fosterToCauer(fit)));
+    back.forEach((stage, i) => {
+      expect(stage.resistance / fit[i].resistance).toBeCloseTo(1, 6);
+      expect(stage.capacitance / fit[i].capacitance).toBeCloseTo(1, 6);
+    });
+  });
+});
+
+describe("fosterImpedance", () => {
+  it("reaches 1 − 1/e of R after one time constant", () => {
+    const stage = { resistance: 2, capacitance: 0.5 };
+    expect(fosterImpedance([stage], 1)).toBeCloseTo(2 * (1 - Math.exp(-1)), 12);
+  });
+});
+
+describe("simulateTransient", () => {
+  it("follows the exact step response of a single stage", () => {
+    const result = simulateTransient({
+      network: {
+        kind: "foster",
+        stages: [{ resistance: 2, capacitance: 0.5 }],
+      },
+      profile: { kind: "step", power: 10 },
+      ambientTemperature: 25,
+      duration: 5,
+      samples: 50,
+    });
+    for (const { time, temperature } of result.points) {
+      expect(temperature).toBeCloseTo(25 + 20 * (1 - Math.exp(-time)), 9);
+    }
+    expect(result.steadyStateRise).toBeCloseTo(20, 12);
+  });
+
+  it("gives the same junction response for a ladder and its Foster form", () => {
+    const profile = { kind: "pulse" as const, power: 5, width: 0.7 };
+    const run = (network: { kind: "foster" | "cauer"; stages: RcStage[] }) =>
+      simulateTransient({
+        network,
+        profile,
+        ambientTemperature: 0,
+        duration: 4,
+      });
+    const cauer = run({ kind: "cauer", stages: CAUER });
+    const foster = run({ kind: "foster", stages: FOSTER });
+    cauer.points.forEach((point, i) => {
+      expect(point.temperature).toBeCloseTo(foster.points[i].temperature, 9);
+    });
+  });
+});
+
+describe("energyUntil", () => {
+  it("counts whole and partial pulses of a train", () => {
+    const train = {
+      kind: "pulse-train" as const,
+      power: 10,
+      width: 0.2,
+      period: 1,
+    };
+    expect(energyUntil(train, 2.1)).toBeCloseTo(5, 12);
+    expect(energyUntil(train, 2.5)).toBeCloseTo(6, 12);
+  });
+
+  it("holds each breakpoint's power until the next", () => {
+    const profile = {
+      kind: "piecewise" as const,
+      points: [
+        { time: 1, power: 4 },
+        { time: 3, power: 1 },
+      ],
+    };
+    expect(energyUntil(profile, 1)).toBe(0);
+    expect(energyUntil(profile, 5)).toBeCloseTo(10, 12);
+  });
+});
+
+describe("a pulse train faster than the samples", () => {
+  const result = simulateTransient({
+    network: { kind: "foster", stages: [{ resistance: 1, capacitance: 10 }] },
+    profile: { kind: "pulse-train", power: 100, width: 2e-4, period: 1e-3 },
+    ambientTemperature: 0,
+    duration: 20,
+    samples: 50,
+  });
+
+  it("heats the junction at its duty-cycle average", () => {
+    const last = result.points[result.points.length - 1];
+    expect(last.temperature).toBeCloseTo(20 * (1 - Math.exp(-2)), 1);
+  });
+
+  it("is reported as truncated", () => {
+    expect(result.truncated).toBe(true);
+  });
+});
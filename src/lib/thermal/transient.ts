@@ -0,0 +1,472 @@
+/** One resistor-capacitor pair of a thermal impedance model. */
+export interface RcStage {
+  /** K/W */
+  resistance: number;
+  /** J/K */
+  capacitance: number;
+}
+
+/**
+ * Foster stages are parallel RC pairs in series, as fitted to datasheet Zth
+ * curves; their internal nodes have no physical meaning. Cauer stages form a
+ * ladder, each capacitance to ambient at a node and each resistance on to the
+ * next node, so networks can be chained, e.g. device then heatsink.
+ */
+export type RcNetworkKind = "foster" | "cauer";
+
+export interface RcNetwork {
+  kind: RcNetworkKind;
+  stages: RcStage[];
+}
+
+export interface PowerStep {
+  kind: "step";
+  /** W, from time zero onward. */
+  power: number;
+}
+
+export interface SinglePulse {
+  kind: "pulse";
+  power: number;
+  /** s */
+  width: number;
+}
+
+export interface PulseTrain {
+  kind: "pulse-train";
+  power: number;
+  width: number;
+  /** s; must exceed the pulse width. */
+  period: number;
+}
+
+export interface PowerBreakpoint {
+  time: number;
+  power: number;
+}
+
+/** Power held at each breakpoint's value until the next breakpoint. */
+export interface PiecewiseProfile {
+  kind: "piecewise";
+  points: PowerBreakpoint[];
+}
+
+export type PowerProfile =
+  PowerStep | SinglePulse | PulseTrain | PiecewiseProfile;
+
+export interface TransientPoint {
+  time: number;
+  power: number;
+  /** °C */
+  temperature: number;
+}
+
+export interface TransientInput {
+  network: RcNetwork;
+  profile: PowerProfile;
+  ambientTemperature: number;
+  /** Simulated time span (s). */
+  duration: number;
+  /** Number of evenly spaced output samples; profile edges are added. */
+  samples?: number;
+}
+
+export interface TransientResult {
+  points: TransientPoint[];
+  peakTemperature: number;
+  peakTime: number;
+  /** Junction rise once the profile's average power has settled (K). */
+  steadyStateRise: number;
+  /**
+   * The pulse train has more edges than are made sample points, so past the
+   * last one its ripple is averaged out over each interval.
+   */
+  truncated: boolean;
+}
+
+const MAX_EDGES = 2000;
+const JACOBI_SWEEPS = 100;
+const LANCZOS_TOLERANCE = 1e-12;
+
+export function validateRcNetwork(network: RcNetwork): void {
+  if (network.stages.length === 0) {
+    throw new RangeError("An RC network needs at least one stage");
+  }
+  for (const { resistance, capacitance } of network.stages) {
+    if (!(resistance > 0 && capacitance > 0)) {
+      throw new RangeError("RC stages need positive R and C");
+    }
+  }
+}
+
+export function validatePowerProfile(profile: PowerProfile): void {
+  switch (profile.kind) {
+    case "step":
+      return;
+    case "pulse":
+      if (!(profile.width > 0)) {
+        throw new RangeError("Pulse width must be positive");
+      }
+      return;
+    case "pulse-train":
+      if (!(profile.width > 0 && profile.period > profile.width)) {
+        throw new RangeError("Pulse period must exceed a positive pulse width");
+      }
+      return;
+    case "piecewise":
+      if (profile.points.length === 0) {
+        throw new RangeError("A piecewise profile needs at least one point");
+      }
+      if (
+        profile.points.some((p, i, all) => i > 0 && p.time <= all[i - 1].time)
+      ) {
+        throw new RangeError("Profile times must increase");
+      }
+  }
+}
+
+export function powerAt(profile: PowerProfile, time: number): number {
+  if (time < 0) return 0;
+  switch (profile.kind) {
+    case "step":
+      return profile.power;
+    case "pulse":
+      return time < profile.width ? profile.power : 0;
+    case "pulse-train":
+      return time % profile.period < profile.width ? profile.power : 0;
+    case "piecewise": {
+      let power = 0;
+      for (const point of profile.points) {
+        if (point.time > time) break;
+        power = point.power;
+      }
+      return power;
+    }
+  }
+}
+
+/** Energy the profile delivers from time zero to `time` (J). */
+export function energyUntil(profile: PowerProfile, time: number): number {
+  if (time <= 0) return 0;
+  switch (profile.kind) {
+    case "step":
+      return profile.power * time;
+    case "pulse":
+      return profile.power * Math.min(time, profile.width);
+    case "pulse-train": {
+      const periods = Math.floor(time / profile.period);
+      const within = time - periods * profile.period;
+      return (
+        profile.power *
+        (periods * profile.width + Math.min(within, profile.width))
+      );
+    }
+    case "piecewise": {
+      const { points } = profile;
+      let energy = 0;
+      points.forEach((point, i) => {
+        const start = Math.max(0, point.time);
+        const end = Math.min(time, points[i + 1]?.time ?? Infinity);
+        if (end > start) energy += point.power * (end - start);
+      });
+      return energy;
+    }
+  }
+}
+
+/** Mean power of the profile between two times (W). */
+export function meanPower(
+  profile: PowerProfile,
+  from: number,
+  to: number
+): number {
+  return (energyUntil(profile, to) - energyUntil(profile, from)) / (to - from);
+}
+
+/**
+ * Times within (0, duration) at which the profile changes level, up to
+ * `MAX_EDGES` of them; `truncated` when a pulse train has more.
+ */
+export function profileEdges(
+  profile: PowerProfile,
+  duration: number
+): { edges: number[]; truncated: boolean } {
+  switch (profile.kind) {
+    case "step":
+      return { edges: [], truncated: false };
+    case "pulse":
+      return { edges: [profile.width], truncated: false };
+    case "pulse-train": {
+      const edges: number[] = [];
+      for (let start = 0; start < duration; start += profile.period) {
+        if (edges.length >= MAX_EDGES) return { edges, truncated: true };
+        if (start > 0) edges.push(start);
+        edges.push(start + profile.width);
+      }
+      return { edges, truncated: false };
+    }
+    case "piecewise":
+      return { edges: profile.points.map((p) => p.time), truncated: false };
+  }
+}
+
+/** Long-run mean power of the profile (W). */
+export function averagePower(profile: PowerProfile): number {
+  switch (profile.kind) {
+    case "step":
+      return profile.power;
+    case "pulse":
+      return 0;
+    case "pulse-train":
+      return (profile.power * profile.width) / profile.period;
+    case "piecewise":
+      return profile.points[profile.points.length - 1].power;
+  }
+}
+
+export function totalResistance(network: RcNetwork): number {
+  return network.stages.reduce((sum, s) => sum + s.resistance, 0);
+}
+
+/** Step-response thermal impedance Zth(t) of a Foster network (K/W). */
+export function fosterImpedance(stages: RcStage[], time: number): number {
+  return stages.reduce(
+    (sum, { resistance, capacitance }) =>
+      sum + resistance * (1 - Math.exp(-time / (resistance * capacitance))),
+    0
+  );
+}
+
+/**
+ * Eigenvalues and eigenvectors of a small symmetric matrix by cyclic Jacobi
+ * rotations. Column j of `vectors` belongs to `values[j]`.
+ */
+function symmetricEigen(matrix: number[][]): {
+  values: number[];
+  vectors: number[][];
+} {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v: number[][] = a.map((_, i) => a.map((_, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < JACOBI_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] ** 2;
+    }
+    if (offDiagonal < 1e-30) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t =
+          Math.sign(theta || 1) /
+          (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: a.map((row, i) => row[i]), vectors: v };
+}
+
+/**
+ * Foster equivalent of a Cauer ladder with the same junction impedance. The
+ * symmetrised ladder matrix C^-½·G·C^-½ has the Foster time constants as its
+ * inverse eigenvalues, and the first eigenvector components set each stage's
+ * capacitance.
+ */
+export function cauerToFoster(stages: RcStage[]): RcStage[] {
+  validateRcNetwork({ kind: "cauer", stages });
+  const g = stages.map((s) => 1 / s.resistance);
+  const matrix = stages.map((_, i) =>
+    stages.map((_, j) => {
+      const scale = Math.sqrt(stages[i].capacitance * stages[j].capacitance);
+      if (i === j) return ((i > 0 ? g[i - 1] : 0) + g[i]) / scale;
+      if (Math.abs(i - j) === 1) return -g[Math.min(i, j)] / scale;
+      return 0;
+    })
+  );
+  const { values, vectors } = symmetricEigen(matrix);
+  return values
+    .map((lambda, k) => {
+      const capacitance = stages[0].capacitance / vectors[0][k] ** 2;
+      return { resistance: 1 / (lambda * capacitance), capacitance };
+    })
+    .sort(
+      (x, y) => x.resistance * x.capacitance - y.resistance * y.capacitance
+    );
+}
+
+/**
+ * Cauer ladder with the same junction impedance as a Foster network, by the
+ * Lanczos tridiagonalisation of diag(1/τᵢ) started from √(1/Cᵢ); the
+ * tridiagonal entries are then read back as ladder conductances.
+ */
+export function fosterToCauer(stages: RcStage[]): RcStage[] {
+  validateRcNetwork({ kind: "foster", stages });
+  const n = stages.length;
+  const lambda = stages.map((s) => 1 / (s.resistance * s.capacitance));
+  const weight = stages.map((s) => 1 / s.capacitance);
+  const norm = Math.sqrt(weight.reduce((sum, w) => sum + w, 0));
+
+  const basis: number[][] = [weight.map((w) => Math.sqrt(w) / norm)];
+  const alpha: number[] = [];
+  const beta: number[] = [];
+  for (let k = 0; k < n; k++) {
+    const q = basis[k];
+    const w = q.map((x, i) => lambda[i] * x);
+    alpha.push(w.reduce((sum, x, i) => sum + x * q[i], 0));
+    if (k === n - 1) break;
+    // Full reorthogonalisation keeps the short recurrence honest when the
+    // time constants span many decades.
+    for (const b of basis) {
+      const projection = w.reduce((sum, x, i) => sum + x * b[i], 0);
+      for (let i = 0; i < n; i++) w[i] -= projection * b[i];
+    }
+    const size = Math.sqrt(w.reduce((sum, x) => sum + x * x, 0));
+    if (size < LANCZOS_TOLERANCE * Math.max(...lambda)) {
+      throw new RangeError("Foster stages must have distinct time constants");
+    }
+    beta.push(size);
+    basis.push(w.map((x) => x / size));
+  }
+
+  // Diagonal: (g[i-1] + g[i]) / C[i]; off-diagonal: g[i] / √(C[i]·C[i+1]).
+  const capacitance = [1 / norm ** 2];
+  const g: number[] = [];
+  for (let i = 0; i < n; i++) {
+    g.push(alpha[i] * capacitance[i] - (i > 0 ? g[i - 1] : 0));
+    if (i < n - 1) {
+      capacitance.push(g[i] ** 2 / (beta[i] ** 2 * capacitance[i]));
+    }
+  }
+  return g.map((gi, i) => ({
+    resistance: 1 / gi,
+    capacitance: capacitance[i],
+  }));
+}
+
+export function toFoster(network: RcNetwork): RcStage[] {
+  return network.kind === "foster"
+    ? network.stages
+    : cauerToFoster(network.stages);
+}
+
+export function toCauer(network: RcNetwork): RcStage[] {
+  return network.kind === "cauer"
+    ? network.stages
+    : fosterToCauer(network.stages);
+}
+
+/**
+ * Device Cauer ladder followed by the interface and a lumped heatsink: the
+ * case-to-sink resistance joins the device's last resistance, and the
+ * heatsink adds its thermal mass and sink-to-ambient resistance.
+ */
+export function appendHeatsink(
+  device: RcNetwork,
+  caseToSink: number,
+  heatsink: RcStage
+): RcNetwork {
+  const stages = toCauer(device).map((s) => ({ ...s }));
+  stages[stages.length - 1].resistance += caseToSink;
+  return { kind: "cauer", stages: [...stages, heatsink] };
+}
+
+/** Heatsink thermal mass from its metal volume (J/K). */
+export function thermalCapacitance(
+  volume: number,
+  density: number,
+  specificHeat: number
+): number {
+  return volume * density * specificHeat;
+}
+
+function sampleTimes(
+  profile: PowerProfile,
+  duration: number,
+  samples: number
+): { times: number[]; truncated: boolean } {
+  const times = new Set<number>();
+  for (let i = 0; i <= samples; i++) times.add((duration * i) / samples);
+  const { edges, truncated } = profileEdges(profile, duration);
+  for (const edge of edges) {
+    if (edge > 0 && edge < duration) times.add(edge);
+  }
+  return { times: [...times].sort((a, b) => a - b), truncated };
+}
+
+/**
+ * Junction temperature under a power profile. The network is reduced to
+ * Foster form, whose stages decay independently, and each interval between
+ * samples is advanced exactly with its mean power held constant. Profile
+ * edges are sample points so pulses are not smeared; a pulse train too fast
+ * for them still heats the junction at its duty-cycle average.
+ */
+export function simulateTransient(input: TransientInput): TransientResult {
+  const { network, profile, ambientTemperature, duration } = input;
+  validateRcNetwork(network);
+  validatePowerProfile(profile);
+  if (!(duration > 0)) throw new RangeError("Duration must be positive");
+
+  const stages = toFoster(network);
+  const { times, truncated } = sampleTimes(
+    profile,
+    duration,
+    input.samples ?? 400
+  );
+  const rise = new Float64Array(stages.length);
+  const points: TransientPoint[] = [
+    {
+      time: 0,
+      power: powerAt(profile, 0),
+      temperature: ambientTemperature,
+    },
+  ];
+  for (let k = 1; k < times.length; k++) {
+    const dt = times[k] - times[k - 1];
+    const power = meanPower(profile, times[k - 1], times[k]);
+    let total = 0;
+    stages.forEach(({ resistance, capacitance }, i) => {
+      const decay = Math.exp(-dt / (resistance * capacitance));
+      rise[i] = rise[i] * decay + power * resistance * (1 - decay);
+      total += rise[i];
+    });
+    points.push({
+      time: times[k],
+      power: powerAt(profile, times[k]),
+      temperature: ambientTemperature + total,
+    });
+  }
+
+  const peak = points.reduce((max, p) =>
+    p.temperature > max.temperature ? p : max
+  );
+  return {
+    points,
+    peakTemperature: peak.temperature,
+    peakTime: peak.time,
+    steadyStateRise: averagePower(profile) * totalResistance(network),
+    truncated,
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Shared input and result types for the thermal engine.
+ *
+ * All quantities are SI: lengths in metres, power in watts, conductivity in
+ * W/(m·K). Temperatures are in degrees Celsius unless the name says Kelvin.
+ */
+
+import type { ChannelViewFactors } from "./radiation";
+
+export interface BaseplateDimensions {
+  /** Base dimension across the fins (m). */
+  baseWidth: number;
+  /** Base dimension along the fin channels, i.e. the flow length (m). */
+  baseLength: number;
+  baseThickness: number;
+}
+
+/**
+ * Cross-section of a plate fin. `tapered` narrows linearly to the tip and
+ * `triangular` to a point; `flared` fins stay rectangular but fan out so
+ * that neighbouring fins open up by `flareAngle` degrees.
+ */
+export type FinProfile =
+  | { kind: "rectangular" }
+  | { kind: "tapered"; tipThickness: number }
+  | { kind: "triangular" }
+  | { kind: "flared"; flareAngle: number };
+
+/** Straight plate fins standing on a rectangular baseplate. */
+export interface PlateFinGeometry extends BaseplateDimensions {
+  kind: "plate-fin";
+  finHeight: number;
+  /** Thickness at the fin root (m). */
+  finThickness: number;
+  finCount: number;
+  /** Rectangular when omitted. */
+  profile?: FinProfile;
+}
+
+/**
+ * Plate fins interrupted by evenly spaced saw cuts across the flow, which
+ * restart the boundary layers on every fin segment.
+ */
+export interface CrossCutGeometry extends Omit<PlateFinGeometry, "kind"> {
+  kind: "cross-cut";
+  cutCount: number;
+  /** Width of each cut along the flow (m). */
+  cutWidth: number;
+}
+
+export type PinShape = "round" | "square";
+
+export type PinLayout = "inline" | "staggered";
+
+/**
+ * A regular array of pins. Pitches follow from the base size: `columns` pins
+ * across the width and `rows` along the flow, staggered rows shifted by half
+ * a transverse pitch.
+ */
+export interface PinFinGeometry extends BaseplateDimensions {
+  kind: "pin-fin";
+  shape: PinShape;
+  layout: PinLayout;
+  /** Pin diameter, or side length for square pins (m). */
+  pinSize: number;
+  finHeight: number;
+  rows: number;
+  columns: number;
+}
+
+export type HeatsinkGeometry =
+  | PlateFinGeometry
+  | CrossCutGeometry
+  | PinFinGeometry;
+
+export type PlateArrayGeometry = PlateFinGeometry | CrossCutGeometry;
+
+/** Rectangular footprint of a device on the baseplate. */
+export interface HeatSource {
+  /** Footprint along the base width (m). */
+  width: number;
+  /** Footprint along the base length (m). */
+  length: number;
+  /** Centre of the footprint from the base corner, along the width (m). */
+  x: number;
+  /** Centre of the footprint from the base corner, along the length (m). */
+  y: number;
+}
+
+/** Datasheet resistances between a device's junction and the heatsink. */
+export interface DeviceResistances {
+  /** Junction to case, Rth(j-c) (K/W). */
+  junctionToCase: number;
+  /** Case to heatsink through the interface material, Rth(c-s) (K/W). */
+  caseToSink: number;
+}
+
+/** A power device mounted on the baseplate. */
+export interface MountedDevice extends HeatSource, DeviceResistances {
+  id: string;
+  name: string;
+  /** Dissipation (W). */
+  power: number;
+  /** Maximum rated junction temperature (°C). */
+  maxJunctionTemperature: number;
+}
+
+export interface HeatsinkMaterial {
+  name: string;
+  /** Thermal conductivity near room temperature (W/(m·K)). */
+  conductivity: number;
+  /**
+   * Conductivity against temperature where it is known, used in place of
+   * `conductivity` at the heatsink's own temperature.
+   */
+  conductivityTable?: ConductivityTable;
+  /** kg/m³; needed only for transient analysis. */
+  density?: number;
+  /** J/(kg·K); needed only for transient analysis. */
+  specificHeat?: number;
+  /** Raw material price (USD/kg); needed only for cost estimates. */
+  costPerKg?: number;
+  /** Total hemispherical emissivity of the bare surface, where known. */
+  emissivity?: number;
+}
+
+export interface ConductivityTable {
+  /** Ascending temperatures (°C). */
+  temperatures: readonly number[];
+  /** W/(m·K) at each temperature. */
+  conductivities: readonly number[];
+}
+
+export interface AmbientConditions {
+  temperature: number;
+  /** Static air pressure (Pa); one standard atmosphere when omitted. */
+  pressure?: number;
+}
+
+export type NaturalConvectionCorrelation = "elenbaas" | "bar-cohen-rohsenow";
+
+/**
+ * How the heatsink hangs in natural convection. `vertical` has a vertical
+ * base with the fins running up it; the horizontal modes have the fins
+ * pointing straight up or down; `tilted` takes an angle in between.
+ */
+export type HeatsinkOrientation =
+  | "vertical"
+  | "horizontal-up"
+  | "horizontal-down"
+  | "tilted";
+
+export interface NaturalConvectionInput {
+  geometry: HeatsinkGeometry;
+  material: HeatsinkMaterial;
+  ambient: AmbientConditions;
+  /** Heat dissipated into the baseplate (W). */
+  power: number;
+  correlation?: NaturalConvectionCorrelation;
+  /** Surface emissivity; radiation is ignored when omitted or zero. */
+  emissivity?: number;
+  /** Vertical when omitted. */
+  orientation?: HeatsinkOrientation;
+  /**
+   * Tilt of the base from vertical for `tilted` (degrees): positive turns the
+   * fins upward, up to 90 for horizontal-up, negative turns them downward.
+   */
+  tiltAngle?: number;
+}
+
+/** Convergence of the film-temperature iteration. */
+export interface FilmIteration {
+  /** Temperature the air properties were taken at (°C). */
+  filmTemperature: number;
+  iterations: number;
+  /** Change in surface temperature over the last iteration (K). */
+  residual: number;
+}
+
+export interface NaturalConvectionResult extends FilmIteration {
+  /**
+   * Clear gap between adjacent fins, averaged over their height, or between
+   * pin columns (m).
+   */
+  channelSpacing: number;
+  /** Elenbaas channel Rayleigh number, Ra_s · s/L. */
+  channelRayleigh: number;
+  /** Rayleigh number based on the flow length. */
+  lengthRayleigh: number;
+  /** Nusselt number on the fin spacing, or on the pin size for pin fins. */
+  nusselt: number;
+  /** Convective heat transfer coefficient (W/(m²·K)). */
+  heatTransferCoefficient: number;
+  /** Linearised radiation coefficient on the same area (W/(m²·K)). */
+  radiationCoefficient: number;
+  /** Convection plus radiation, used for fin efficiency and resistance. */
+  effectiveHeatTransferCoefficient: number;
+  /** Share of the heat leaving by radiation. */
+  radiationFraction: number;
+  /** Plate and cross-cut fins only. */
+  viewFactors?: ChannelViewFactors;
+  finEfficiency: number;
+  /** Area-weighted efficiency of fins plus exposed base. */
+  surfaceEfficiency: number;
+  finArea: number;
+  baseArea: number;
+  /** Surface-to-ambient resistance by convection and radiation (K/W). */
+  convectiveResistance: number;
+  /** One-dimensional conduction resistance through the baseplate (K/W). */
+  baseResistance: number;
+  totalResistance: number;
+  temperatureRise: number;
+  baseTemperature: number;
+  /**
+   * Bar-Cohen–Rohsenow spacing that maximises heat flow per volume (m).
+   * Plate and cross-cut fins only.
+   */
+  optimumSpacing?: number;
+  /** Largest fin count that keeps the spacing at or above the optimum. */
+  optimumFinCount?: number;
+}
+
+/** One point of a fan's static pressure versus volume flow curve. */
+export interface FanCurvePoint {
+  /** Volume flow (m³/s). */
+  flow: number;
+  /** Static pressure (Pa). */
+  pressure: number;
+}
+
+/**
+ * `ducted`: a shroud closes the fin tips and all fan flow passes the fins.
+ * `unducted`: part of the flow bypasses the heatsink through the rest of
+ * `ductArea`.
+ */
+export type FlowArrangement = "ducted" | "unducted";
+
+export interface ForcedConvectionInput {
+  geometry: HeatsinkGeometry;
+  material: HeatsinkMaterial;
+  ambient: AmbientConditions;
+  power: number;
+  arrangement: FlowArrangement;
+  /** Cross-section of the enclosure the fan blows through (m²); unducted only. */
+  ductArea?: number;
+  fanCurve: FanCurvePoint[];
+  emissivity?: number;
+}
+
+export interface OperatingPoint {
+  flow: number;
+  pressure: number;
+}
+
+export interface ForcedConvectionResult extends FilmIteration {
+  operatingPoint: OperatingPoint;
+  /** Part of the fan flow that passes through the fin channels (m³/s). */
+  heatsinkFlow: number;
+  /**
+   * Clear gap between adjacent fins, averaged over their height, or between
+   * pin columns (m).
+   */
+  channelSpacing: number;
+  /** Mean air velocity inside the channels, or the maximum between pins (m/s). */
+  channelVelocity: number;
+  /**
+   * Reynolds number on the channel hydraulic diameter, or on the pin size at
+   * the minimum free area for pin fins.
+   */
+  reynolds: number;
+  /** Nusselt number on the fin spacing, or on the pin size for pin fins. */
+  nusselt: number;
+  heatTransferCoefficient: number;
+  radiationCoefficient: number;
+  effectiveHeatTransferCoefficient: number;
+  finEfficiency: number;
+  surfaceEfficiency: number;
+  /** Base-to-inlet-air resistance, including the air's own temperature rise (K/W). */
+  convectiveResistance: number;
+  baseResistance: number;
+  totalResistance: number;
+  /** Mean temperature rise of the air leaving the channels (K). */
+  airTemperatureRise: number;
+  temperatureRise: number;
+  baseTemperature: number;
+}
+
+/** Fan and heatsink pressure at one flow rate, for plotting. */
+export interface ImpedanceCurvePoint {
+  flow: number;
+  fanPressure: number;
+  systemPressure: number;
+}
@@ -0,0 +1,52 @@
+/**
+ * Closed-form diffuse view factors between rectangles (Incropera, Table 13.2).
+ */
+
+/**
+ * Two directly opposed, equal parallel rectangles of sides `a` × `b`
+ * separated by `distance`.
+ */
+export function parallelRectanglesViewFactor(
+  a: number,
+  b: number,
+  distance: number
+): number {
+  const x = a / distance;
+  const y = b / distance;
+  const x2 = x * x;
+  const y2 = y * y;
+  const sx = Math.sqrt(1 + x2);
+  const sy = Math.sqrt(1 + y2);
+  return (
+    (2 / (Math.PI * x * y)) *
+    (0.5 * Math.log(((1 + x2) * (1 + y2)) / (1 + x2 + y2)) +
+      x * sy * Math.atan(x / sy) +
+      y * sx * Math.atan(y / sx) -
+      x * Math.atan(x) -
+      y * Math.atan(y))
+  );
+}
+
+/**
+ * From rectangle i (width `widthFrom`) to rectangle j (width `widthTo`) at
+ * right angles, sharing an edge of length `commonEdge`.
+ */
+export function perpendicularRectanglesViewFactor(
+  widthFrom: number,
+  widthTo: number,
+  commonEdge: number
+): number {
+  const w = widthFrom / commonEdge;
+  const h = widthTo / commonEdge;
+  const w2 = w * w;
+  const h2 = h * h;
+  const r = Math.sqrt(w2 + h2);
+  const log =
+    Math.log(((1 + w2) * (1 + h2)) / (1 + w2 + h2)) +
+    w2 * Math.log((w2 * (1 + w2 + h2)) / ((1 + w2) * (w2 + h2))) +
+    h2 * Math.log((h2 * (1 + h2 + w2)) / ((1 + h2) * (h2 + w2)));
+  return (
+    (1 / (Math.PI * w)) *
+    (w * Math.atan(1 / w) + h * Math.atan(1 / h) - r * Math.atan(1 / r) + log / 4)
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  SYSTEM_UNITS,
+  UNITS,
+  findUnit,
+  formatQuantity,
+  fromSI,
+  toSI,
+} from "./units";
+
+describe("unit conversion", () => {
+  it("round-trips every unit of every quantity", () => {
+    for (const [quantity, units] of Object.entries(UNITS)) {
+      for (const unit of units) {
+        for (const value of [-40, 0, 1, 123.456]) {
+          expect(
+            fromSI(toSI(value, unit), unit),
+            `${quantity} ${unit.id}`
+          ).toBeCloseTo(value, 9);
+        }
+      }
+    }
+  });
+
+  it("offsets temperature scales but not temperature differences", () => {
+    const kelvin = findUnit("temperature", "K");
+    const fahrenheit = findUnit("temperature", "F");
+    expect(fromSI(0, kelvin)).toBeCloseTo(273.15, 12);
+    expect(fromSI(100, fahrenheit)).toBeCloseTo(212, 12);
+    expect(toSI(32, fahrenheit)).toBeCloseTo(0, 12);
+    expect(toSI(-40, fahrenheit)).toBeCloseTo(-40, 12);
+    expect(fromSI(10, findUnit("temperatureDifference", "F"))).toBeCloseTo(
+      18,
+      12
+    );
+  });
+
+  it("uses the exact imperial definitions", () => {
+    expect(fromSI(0.0254, findUnit("length", "in"))).toBeCloseTo(1, 12);
+    expect(fromSI(0.3048, findUnit("altitude", "ft"))).toBeCloseTo(1, 12);
+    expect(fromSI(1, findUnit("power", "BTUh"))).toBeCloseTo(3.412142, 6);
+    expect(fromSI(1, findUnit("thermalResistance", "FW"))).toBeCloseTo(1.8, 12);
+  });
+});
+
+describe("findUnit", () => {
+  it("falls back to the first unit for an unknown id", () => {
+    expect(findUnit("length", "furlong")).toBe(UNITS.length[0]);
+  });
+
+  it("knows every unit the systems default to", () => {
+    const ids = new Map(
+      Object.entries(UNITS).map(([quantity, units]) => [
+        quantity,
+        units.map((u) => u.id),
+      ])
+    );
+    for (const system of Object.values(SYSTEM_UNITS)) {
+      for (const [quantity, id] of Object.entries(system)) {
+        expect(ids.get(quantity)).toContain(id);
+      }
+    }
+  });
+});
+
+describe("formatQuantity", () => {
+  it("shows the value in the unit to its digits", () => {
+    expect(formatQuantity(0.0125, findUnit("length", "mm"))).toBe("12.50");
+    expect(formatQuantity(25, findUnit("temperature", "F"), 0)).toBe("77");
+  });
+
+  it("shows a dash without a finite value", () => {
+    expect(formatQuantity(NaN, findUnit("power", "W"))).toBe("—");
+    expect(formatQuantity(Infinity, findUnit("power", "W"))).toBe("—");
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Units for display and entry. Values are always stored in SI, with
+ * temperatures in °C, and converted only on the way to and from the screen.
+ */
+
+export type Quantity =
+  | "length"
+  | "altitude"
+  | "area"
+  | "volume"
+  | "mass"
+  | "time"
+  | "temperature"
+  | "temperatureDifference"
+  | "power"
+  | "flow"
+  | "pressure"
+  | "velocity"
+  | "conductivity"
+  | "thermalResistance"
+  | "heatTransferCoefficient"
+  | "density"
+  | "specificHeat"
+  | "heatCapacity";
+
+export type UnitSystem = "si" | "imperial";
+
+export interface Unit {
+  id: string;
+  label: string;
+  /** Size of one of this unit in the stored SI unit. */
+  factor: number;
+  /** Stored value at this unit's zero, for temperature scales. */
+  zero?: number;
+  /** Decimal places shown by default. */
+  digits: number;
+}
+
+// Exact by definition: inch, pound, IT British thermal unit and hour.
+const INCH = 0.0254;
+const FOOT = 12 * INCH;
+const POUND = 0.45359237;
+const BTU = 1055.05585262;
+const HOUR = 3600;
+const RANKINE = 5 / 9;
+
+export const UNITS: Record<Quantity, Unit[]> = {
+  length: [
+    { id: "mm", label: "mm", factor: 1e-3, digits: 2 },
+    { id: "cm", label: "cm", factor: 1e-2, digits: 3 },
+    { id: "m", label: "m", factor: 1, digits: 4 },
+    { id: "in", label: "in", factor: INCH, digits: 3 },
+    { id: "mil", label: "mil", factor: INCH / 1000, digits: 1 },
+  ],
+  altitude: [
+    { id: "m", label: "m", factor: 1, digits: 0 },
+    { id: "ft", label: "ft", factor: FOOT, digits: 0 },
+  ],
+  area: [
+    { id: "cm2", label: "cm²", factor: 1e-4, digits: 1 },
+    { id: "m2", label: "m²", factor: 1, digits: 5 },
+    { id: "in2", label: "in²", factor: INCH ** 2, digits: 2 },
+  ],
+  volume: [
+    { id: "cm3", label: "cm³", factor: 1e-6, digits: 0 },
+    { id: "l", label: "L", factor: 1e-3, digits: 3 },
+    { id: "in3", label: "in³", factor: INCH ** 3, digits: 1 },
+  ],
+  mass: [
+    { id: "g", label: "g", factor: 1e-3, digits: 0 },
+    { id: "kg", label: "kg", factor: 1, digits: 3 },
+    { id: "lb", label: "lb", factor: POUND, digits: 3 },
+    { id: "oz", label: "oz", factor: POUND / 16, digits: 2 },
+  ],
+  time: [
+    { id: "s", label: "s", factor: 1, digits: 3 },
+    { id: "ms", label: "ms", factor: 1e-3, digits: 1 },
+    { id: "min", label: "min", factor: 60, digits: 2 },
+  ],
+  temperature: [
+    { id: "C", label: "°C", factor: 1, digits: 1 },
+    { id: "K", label: "K", factor: 1, zero: -273.15, digits: 1 },
+    { id: "F", label: "°F", factor: RANKINE, zero: -160 / 9, digits: 1 },
+  ],
+  temperatureDifference: [
+    { id: "K", label: "K", factor: 1, digits: 1 },
+    { id: "F", label: "°F", factor: RANKINE, digits: 1 },
+  ],
+  power: [
+    { id: "W", label: "W", factor: 1, digits: 1 },
+    { id: "BTUh", label: "BTU/h", factor: BTU / HOUR, digits: 0 },
+  ],
+  flow: [
+    { id: "m3h", label: "m³/h", factor: 1 / HOUR, digits: 1 },
+    { id: "m3s", label: "m³/s", factor: 1, digits: 5 },
+    { id: "ls", label: "L/s", factor: 1e-3, digits: 2 },
+    { id: "cfm", label: "CFM", factor: FOOT ** 3 / 60, digits: 1 },
+  ],
+  pressure: [
+    { id: "Pa", label: "Pa", factor: 1, digits: 1 },
+    // Conventional inch of water, 249.08891 Pa.
+    { id: "inH2O", label: "inH₂O", factor: 249.08891, digits: 3 },
+  ],
+  velocity: [
+    { id: "ms", label: "m/s", factor: 1, digits: 2 },
+    { id: "fpm", label: "ft/min", factor: FOOT / 60, digits: 0 },
+  ],
+  conductivity: [
+    { id: "WmK", label: "W/m·K", factor: 1, digits: 1 },
+    {
+      id: "BTUhftF",
+      label: "BTU/h·ft·°F",
+      factor: BTU / HOUR / FOOT / RANKINE,
+      digits: 1,
+    },
+  ],
+  thermalResistance: [
+    { id: "KW", label: "K/W", factor: 1, digits: 3 },
+    { id: "FW", label: "°F/W", factor: RANKINE, digits: 3 },
+  ],
+  heatTransferCoefficient: [
+    { id: "Wm2K", label: "W/m²K", factor: 1, digits: 2 },
+    {
+      id: "BTUhft2F",
+      label: "BTU/h·ft²·°F",
+      factor: BTU / HOUR / FOOT ** 2 / RANKINE,
+      digits: 3,
+    },
+  ],
+  density: [
+    { id: "kgm3", label: "kg/m³", factor: 1, digits: 0 },
+    { id: "lbft3", label: "lb/ft³", factor: POUND / FOOT ** 3, digits: 1 },
+  ],
+  specificHeat: [
+    { id: "JkgK", label: "J/(kg·K)", factor: 1, digits: 0 },
+    {
+      id: "BTUlbF",
+      label: "BTU/(lb·°F)",
+      factor: BTU / POUND / RANKINE,
+      digits: 3,
+    },
+  ],
+  heatCapacity: [
+    { id: "JK", label: "J/K", factor: 1, digits: 3 },
+    { id: "BTUF", label: "BTU/°F", factor: BTU / RANKINE, digits: 5 },
+  ],
+};
+
+/** Unit shown for each quantity until a field overrides it. */
+export const SYSTEM_UNITS: Record<UnitSystem, Record<Quantity, string>> = {
+  si: {
+    length: "mm",
+    altitude: "m",
+    area: "cm2",
+    volume: "cm3",
+    mass: "g",
+    time: "s",
+    temperature: "C",
+    temperatureDifference: "K",
+    power: "W",
+    flow: "m3h",
+    pressure: "Pa",
+    velocity: "ms",
+    conductivity: "WmK",
+    thermalResistance: "KW",
+    heatTransferCoefficient: "Wm2K",
+    density: "kgm3",
+    specificHeat: "JkgK",
+    heatCapacity: "JK",
+  },
+  imperial: {
+    length: "in",
+    altitude: "ft",
+    area: "in2",
+    volume: "in3",
+    mass: "lb",
+    time: "s",
+    temperature: "F",
+    temperatureDifference: "F",
+    power: "BTUh",
+    flow: "cfm",
+    pressure: "inH2O",
+    velocity: "fpm",
+    conductivity: "BTUhftF",
+    thermalResistance: "FW",
+    heatTransferCoefficient: "BTUhft2F",
+    density: "lbft3",
+    specificHeat: "BTUlbF",
+    heatCapacity: "BTUF",
+  },
+};
+
+export function findUnit(quantity: Quantity, id: string): Unit {
+  const units = UNITS[quantity];
+  return units.find((u) => u.id === id) ?? units[0];
+}
+
+/** Stored SI value expressed in `unit`. */
+export function fromSI(value: number, unit: Unit): number {
+  return (value - (unit.zero ?? 0)) / unit.factor;
+}
+
+/** Value entered in `unit` converted for storage. */
+export function toSI(value: number, unit: Unit): number {
+  return value * unit.factor + (unit.zero ?? 0);
+}
+
+/** Stored SI value as text in `unit`, or a dash when there is no value. */
+export function formatQuantity(
+  value: number,
+  unit: Unit,
+  digits = unit.digits
+): string {
+  return Number.isFinite(value) ? fromSI(value, unit).toFixed(digits) : "—";
+}
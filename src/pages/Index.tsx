@@ -0,0 +1,266 @@
+import { Link } from "react-router-dom";
+import { AlertTriangle, Library, RotateCcw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import AirflowForm from "@/components/heatsink/AirflowForm";
+import ConductionPanel from "@/components/heatsink/ConductionPanel";
+import CostPanel from "@/components/heatsink/CostPanel";
+import DeratingChart from "@/components/heatsink/DeratingChart";
+import FanCurveChart from "@/components/heatsink/FanCurveChart";
+import FinProfileTable from "@/components/heatsink/FinProfileTable";
+import ForcedResultsPanel from "@/components/heatsink/ForcedResultsPanel";
+import DesignRulesPanel from "@/components/heatsink/DesignRulesPanel";
+import DeviceTable from "@/components/heatsink/DeviceTable";
+import DevicesForm from "@/components/heatsink/DevicesForm";
+import ExtrusionCatalog from "@/components/heatsink/ExtrusionCatalog";
+import HeatsinkForm from "@/components/heatsink/HeatsinkForm";
+import HeatsinkPreview from "@/components/heatsink/HeatsinkPreview";
+import JunctionPanel from "@/components/heatsink/JunctionPanel";
+import LedForm from "@/components/heatsink/LedForm";
+import LedResultsPanel from "@/components/heatsink/LedResultsPanel";
+import MonteCarloPanel from "@/components/heatsink/MonteCarloPanel";
+import NetworkTable from "@/components/heatsink/NetworkTable";
+import OptimizerPanel from "@/components/heatsink/OptimizerPanel";
+import PowerLossPanel from "@/components/heatsink/PowerLossPanel";
+import ResultsPanel from "@/components/heatsink/ResultsPanel";
+import SensitivityPanel from "@/components/heatsink/SensitivityPanel";
+import StackEditor from "@/components/heatsink/StackEditor";
+import TransientChart from "@/components/heatsink/TransientChart";
+import TransientForm from "@/components/heatsink/TransientForm";
+import { LED_DEVICE_ID } from "@/components/heatsink/defaults";
+import type { CoolingMode } from "@/components/heatsink/types";
+import { useDeratingCurve } from "@/hooks/use-derating";
+import { resetDesign, updateDesign, useDesign } from "@/hooks/use-design";
+import {
+  useFinProfileComparison,
+  useHeatsinkAnalysis,
+} from "@/hooks/use-heatsink-analysis";
+import { useLedHeat } from "@/hooks/use-led-heat";
+import { setUnitSystem, useUnits } from "@/hooks/use-units";
+import {
+  envelopeVolume,
+  solidVolume,
+  totalDevicePower,
+} from "@/lib/thermal";
+import type { UnitSystem } from "@/lib/units";
+
+const Index = () => {
+  const design = useDesign();
+  // Panels that solve take the design as the engine sees it, settled once
+  // here; forms keep the design as entered, so the LED board is never saved.
+  const led = useLedHeat(design);
+  const solved = led.design;
+  const { devices } = solved;
+  const analysis = useHeatsinkAnalysis(solved);
+  const derating = useDeratingCurve(solved);
+  const profiles = useFinProfileComparison(solved);
+  const { system } = useUnits();
+  const heatsink = analysis.forced ?? analysis.natural;
+  const hottest = (analysis.sources?.devices ?? []).reduce(
+    (worst, result, i, all) => (result.margin < all[worst].margin ? i : worst),
+    0
+  );
+  const ledResult =
+    design.led.enabled &&
+    analysis.sources?.devices.find((r) => r.device.id === LED_DEVICE_ID);
+
+  return (
+    <div className="container mx-auto space-y-6 py-8">
+      <header className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Heat Sink Calculator</h1>
+          <p className="text-muted-foreground">
+            Natural convection, forced convection and radiation from plate-fin
+            heatsinks.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={resetDesign}>
+            <RotateCcw className="mr-1 h-4 w-4" />
+            Reset
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/materials">
+              <Library className="mr-1 h-4 w-4" />
+              Materials
+            </Link>
+          </Button>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            aria-label="Unit system"
+            value={system}
+            onValueChange={(v) => v && setUnitSystem(v as UnitSystem)}
+          >
+            <ToggleGroupItem value="si">SI</ToggleGroupItem>
+            <ToggleGroupItem value="imperial">Imperial</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </header>
+      <Tabs
+        value={design.mode}
+        onValueChange={(mode) =>
+          updateDesign({ ...design, mode: mode as CoolingMode })
+        }
+      >
+        <TabsList>
+          <TabsTrigger value="natural">Natural convection</TabsTrigger>
+          <TabsTrigger value="forced">Forced convection</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      <div className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-6">
+          <HeatsinkForm design={design} onChange={updateDesign} />
+          <HeatsinkPreview geometry={design.geometry} devices={devices} />
+          <LedForm design={design} onChange={updateDesign} />
+          {!design.led.enabled && (
+            <>
+              <DevicesForm design={design} onChange={updateDesign} />
+              <PowerLossPanel design={design} onChange={updateDesign} />
+            </>
+          )}
+          {design.mode === "forced" && (
+            <AirflowForm design={design} onChange={updateDesign} />
+          )}
+          <StackEditor
+            design={design}
+            onChange={updateDesign}
+            heatsinkResistance={
+              heatsink &&
+              heatsink.baseResistance + heatsink.convectiveResistance
+            }
+          />
+          <TransientForm design={design} onChange={updateDesign} />
+        </div>
+        <div className="space-y-6">
+          {analysis.error && (
+            <Alert variant="destructive">
+              <AlertTitle>Invalid design</AlertTitle>
+              <AlertDescription>{analysis.error}</AlertDescription>
+            </Alert>
+          )}
+          {led.error && (
+            <Alert variant="destructive">
+              <AlertTitle>LED heat</AlertTitle>
+              <AlertDescription>{led.error}</AlertDescription>
+            </Alert>
+          )}
+          {led.result && !led.result.converged && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>
+                {led.result.runaway
+                  ? "LED thermal runaway"
+                  : "LED heat unsettled"}
+              </AlertTitle>
+              <AlertDescription>
+                {led.result.runaway
+                  ? "The board's heat grows faster with junction temperature than the heatsink can remove it."
+                  : `The junction temperature had not settled after ${led.result.iterations} evaluations.`}{" "}
+                The results take the board's heat at 25 °C.
+              </AlertDescription>
+            </Alert>
+          )}
+          {analysis.orientationLoss > design.orientationWarning && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Orientation penalty</AlertTitle>
+              <AlertDescription>
+                This orientation loses{" "}
+                {(100 * analysis.orientationLoss).toFixed(0)}% of the
+                heatsink's conductance compared with vertical fins.
+              </AlertDescription>
+            </Alert>
+          )}
+          <DesignRulesPanel design={design} />
+          {ledResult && (
+            <LedResultsPanel led={design.led} result={ledResult} />
+          )}
+          {analysis.sources && (
+            <>
+              <DeviceTable results={analysis.sources.devices} />
+              <JunctionPanel
+                result={analysis.sources.devices[hottest]}
+                spreading={analysis.sources.spreading[hottest]}
+                includeSpreading={design.includeSpreading}
+              />
+            </>
+          )}
+          {analysis.natural && (
+            <ResultsPanel geometry={design.geometry} result={analysis.natural} />
+          )}
+          {analysis.forced && (
+            <>
+              <ForcedResultsPanel
+                geometry={design.geometry}
+                result={analysis.forced}
+              />
+              <FanCurveChart
+                curve={analysis.impedance}
+                operatingPoint={analysis.forced.operatingPoint}
+              />
+            </>
+          )}
+          <CostPanel design={design} onChange={updateDesign} />
+          {profiles && design.geometry.kind !== "pin-fin" && (
+            <FinProfileTable
+              comparisons={profiles}
+              geometry={design.geometry}
+              onChange={(geometry) => updateDesign({ ...design, geometry })}
+            />
+          )}
+          <ExtrusionCatalog
+            design={solved}
+            onChange={(geometry) => updateDesign({ ...design, geometry })}
+          />
+          {!analysis.error && <SensitivityPanel design={solved} />}
+          {!analysis.error && <MonteCarloPanel design={solved} />}
+          {design.geometry.kind !== "pin-fin" && (
+            <OptimizerPanel
+              design={solved}
+              geometry={design.geometry}
+              current={
+                heatsink && {
+                  mass:
+                    solidVolume(design.geometry) *
+                    (design.material.density ?? NaN),
+                  resistance:
+                    heatsink.baseResistance + heatsink.convectiveResistance,
+                  volume: envelopeVolume(design.geometry),
+                }
+              }
+              onChange={(geometry) => updateDesign({ ...design, geometry })}
+            />
+          )}
+          {derating && (
+            <DeratingChart
+              curve={derating}
+              power={totalDevicePower(devices)}
+              altitude={design.altitude}
+            />
+          )}
+          {heatsink && <ConductionPanel design={solved} heatsink={heatsink} />}
+          {analysis.stack && (
+            <NetworkTable
+              network={analysis.stack.network}
+              solution={analysis.stack.solution}
+            />
+          )}
+          {analysis.transient && (
+            <TransientChart
+              result={analysis.transient}
+              maxJunctionTemperature={
+                devices[hottest]?.maxJunctionTemperature ?? NaN
+              }
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Index;
@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import NumberField from "@/components/heatsink/NumberField";
+import {
+  addCustomMaterial,
+  isCustomMaterial,
+  removeCustomMaterial,
+  useMaterials,
+} from "@/hooks/use-materials";
+import { useUnits } from "@/hooks/use-units";
+import type { MaterialGrade, MaterialUse } from "@/lib/thermal";
+import { formatQuantity } from "@/lib/units";
+
+const USES: { use: MaterialUse; label: string }[] = [
+  { use: "heatsink", label: "Heatsink" },
+  { use: "spreader", label: "Spreader" },
+  { use: "interface", label: "Interface" },
+];
+
+const NEW_MATERIAL: Omit<MaterialGrade, "id"> = {
+  name: "",
+  uses: ["heatsink"],
+  conductivity: 200,
+  density: 2700,
+  specificHeat: 900,
+  costPerKg: 3,
+  emissivity: 0.1,
+};
+
+const Materials = () => {
+  const materials = useMaterials();
+  const units = useUnits();
+  const [filter, setFilter] = useState<MaterialUse | "all">("all");
+  const [draft, setDraft] = useState(NEW_MATERIAL);
+  const [error, setError] = useState<string>();
+  const conductivity = units.unit("conductivity");
+  const density = units.unit("density");
+  const specificHeat = units.unit("specificHeat");
+  const shown = materials.filter(
+    (m) => filter === "all" || m.uses.includes(filter)
+  );
+
+  const toggleUse = (use: MaterialUse, on: boolean) =>
+    setDraft({
+      ...draft,
+      uses: on ? [...draft.uses, use] : draft.uses.filter((u) => u !== use),
+    });
+  const add = () => {
+    try {
+      addCustomMaterial({ ...draft, name: draft.name.trim() });
+      setDraft(NEW_MATERIAL);
+      setError(undefined);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="container mx-auto space-y-6 py-8">
+      <header className="space-y-2">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Calculator
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold">Material library</h1>
+        <p className="text-muted-foreground">
+          Heatsink, spreader and interface materials. Where conductivity is
+          tabulated against temperature, the range is shown and the calculator
+          uses the value at the heatsink's temperature.
+        </p>
+      </header>
+      <Card>
+        <CardHeader>
+          <CardTitle>Materials</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            className="justify-start"
+            value={filter}
+            onValueChange={(v) => v && setFilter(v as MaterialUse | "all")}
+          >
+            <ToggleGroupItem value="all">All</ToggleGroupItem>
+            {USES.map(({ use, label }) => (
+              <ToggleGroupItem key={use} value={use}>
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Material</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead className="text-right">
+                  k ({conductivity.label})
+                </TableHead>
+                <TableHead className="text-right">
+                  ρ ({density.label})
+                </TableHead>
+                <TableHead className="text-right">
+                  cp ({specificHeat.label})
+                </TableHead>
+                <TableHead className="text-right">ε</TableHead>
+                <TableHead className="text-right">Cost ($/kg)</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((m) => {
+                const table = m.conductivityTable?.conductivities;
+                return (
+                  <TableRow key={m.id}>
+                    <TableCell className="font-medium">{m.name}</TableCell>
+                    <TableCell className="space-x-1">
+                      {m.uses.map((use) => (
+                        <Badge key={use} variant="secondary">
+                          {use}
+                        </Badge>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatQuantity(m.conductivity, conductivity)}
+                      {table && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatQuantity(Math.min(...table), conductivity, 0)}–
+                          {formatQuantity(Math.max(...table), conductivity, 0)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatQuantity(m.density, density)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatQuantity(m.specificHeat, specificHeat)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {m.emissivity.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {m.costPerKg.toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      {isCustomMaterial(m.id) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Remove ${m.name}`}
+                          onClick={() => removeCustomMaterial(m.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a custom material</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="material-name">Name</Label>
+              <Input
+                id="material-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Uses</Label>
+              <div className="flex h-10 items-center gap-4">
+                {USES.map(({ use, label }) => (
+                  <div key={use} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`material-use-${use}`}
+                      checked={draft.uses.includes(use)}
+                      onCheckedChange={(on) => toggleUse(use, on === true)}
+                    />
+                    <Label htmlFor={`material-use-${use}`}>{label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <NumberField
+              id="material-conductivity"
+              label="Conductivity"
+              quantity="conductivity"
+              value={draft.conductivity}
+              onChange={(v) => setDraft({ ...draft, conductivity: v })}
+            />
+            <NumberField
+              id="material-density"
+              label="Density"
+              quantity="density"
+              value={draft.density}
+              onChange={(v) => setDraft({ ...draft, density: v })}
+            />
+            <NumberField
+              id="material-specific-heat"
+              label="Specific heat"
+              quantity="specificHeat"
+              value={draft.specificHeat}
+              onChange={(v) => setDraft({ ...draft, specificHeat: v })}
+            />
+            <NumberField
+              id="material-emissivity"
+              label="Emissivity"
+              step={0.05}
+              value={draft.emissivity}
+              onChange={(emissivity) => setDraft({ ...draft, emissivity })}
+            />
+            <NumberField
+              id="material-cost"
+              label="Cost"
+              unit="$/kg"
+              step={0.1}
+              value={draft.costPerKg}
+              onChange={(costPerKg) => setDraft({ ...draft, costPerKg })}
+            />
+          </div>
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          <Button size="sm" onClick={add}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add material
+          </Button>
+          <p className="text-sm text-muted-foreground">
+            Custom materials are saved in this browser.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Materials;
@@ -0,0 +1,40 @@
+import {
+  solveConduction,
+  type ConductionInput,
+  type ConductionResult,
+} from "@/lib/thermal";
+
+export interface ConductionRequest {
+  input: ConductionInput;
+}
+
+export type ConductionMessage =
+  | { type: "progress"; fraction: number; residual: number }
+  | { type: "done"; result: ConductionResult }
+  | { type: "error"; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: ConductionMessage, transfer: Transferable[] = []) =>
+  self.postMessage(message, { transfer });
+
+self.onmessage = ({ data }: MessageEvent<ConductionRequest>) => {
+  let lastReport = 0;
+  try {
+    const result = solveConduction(data.input, (fraction, residual) => {
+      const now = performance.now();
+      if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+      lastReport = now;
+      post({ type: "progress", fraction, residual });
+    });
+    const { field } = result;
+    post({ type: "done", result }, [
+      field.x.buffer,
+      field.y.buffer,
+      field.z.buffer,
+      field.temperatures.buffer,
+    ]);
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};
@@ -0,0 +1,22 @@
+import {
+  assemblyDerating,
+  type DeratingPoint,
+  type HeatsinkAssembly,
+} from "@/lib/thermal";
+
+export interface DeratingRequest {
+  assembly: HeatsinkAssembly;
+}
+
+export type DeratingMessage =
+  { type: "done"; curve: DeratingPoint[] } | { type: "error"; message: string };
+
+const post = (message: DeratingMessage) => self.postMessage(message);
+
+self.onmessage = ({ data }: MessageEvent<DeratingRequest>) => {
+  try {
+    post({ type: "done", curve: assemblyDerating(data.assembly) });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};
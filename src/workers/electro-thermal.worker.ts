@@ -0,0 +1,46 @@
+import {
+  deviceElectroThermal,
+  ledPower,
+  powerLoss,
+  type DeviceElectroThermal,
+  type HeatsinkAssembly,
+  type LedArray,
+  type LossInput,
+  type TemperatureLoss,
+} from "@/lib/thermal";
+
+/** What sets the device's heat at a junction temperature. */
+export type DeviceHeat =
+  { kind: "loss"; input: LossInput } | { kind: "led"; led: LedArray };
+
+export interface ElectroThermalRequest {
+  assembly: HeatsinkAssembly;
+  /** Device whose power follows the heat model. */
+  deviceIndex: number;
+  heat: DeviceHeat;
+}
+
+export type ElectroThermalMessage =
+  | ({ type: "done" } & DeviceElectroThermal)
+  | { type: "error"; message: string };
+
+const post = (message: ElectroThermalMessage) => self.postMessage(message);
+
+function heatAt(heat: DeviceHeat): TemperatureLoss {
+  return heat.kind === "led"
+    ? (temperature) => ledPower(heat.led, temperature).heat
+    : (temperature) => powerLoss(heat.input, temperature).total;
+}
+
+self.onmessage = ({ data }: MessageEvent<ElectroThermalRequest>) => {
+  try {
+    const { result, curve } = deviceElectroThermal(
+      data.assembly,
+      data.deviceIndex,
+      heatAt(data.heat)
+    );
+    post({ type: "done", result, curve });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};
@@ -0,0 +1,50 @@
+import {
+  EXTRUSIONS,
+  convectionInput,
+  findExtrusions,
+  pressureAtAltitude,
+  solveHeatsink,
+  type ExtrusionMatch,
+  type HeatsinkAssembly,
+} from "@/lib/thermal";
+
+export interface ExtrusionRequest {
+  /** Material, finish, cooling mode and orientation to search with. */
+  assembly: HeatsinkAssembly;
+  /** Largest acceptable heatsink resistance, base to ambient (K/W). */
+  required: number;
+  /** W. */
+  power: number;
+  /** °C. */
+  ambientTemperature: number;
+}
+
+export type ExtrusionMessage =
+  | { type: "progress"; fraction: number }
+  | { type: "done"; matches: ExtrusionMatch[] }
+  | { type: "error"; message: string };
+
+const post = (message: ExtrusionMessage) => self.postMessage(message);
+
+self.onmessage = ({ data }: MessageEvent<ExtrusionRequest>) => {
+  const at = { ...data.assembly, ambientTemperature: data.ambientTemperature };
+  try {
+    const input = {
+      ...convectionInput(at, pressureAtAltitude(at.altitude)),
+      power: data.power,
+    };
+    const matches = findExtrusions(
+      EXTRUSIONS,
+      data.required,
+      at.material.density ?? NaN,
+      (geometry) => {
+        const heatsink = solveHeatsink(at, { ...input, geometry });
+        return heatsink.baseResistance + heatsink.convectiveResistance;
+      },
+      (fraction) => post({ type: "progress", fraction })
+    );
+    post({ type: "done", matches });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};
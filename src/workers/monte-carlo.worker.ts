@@ -0,0 +1,101 @@
+import {
+  CORRELATION_INPUT,
+  convectionInput,
+  deviceResults,
+  monteCarlo,
+  pressureAtAltitude,
+  sampleDistribution,
+  sensitivityParameters,
+  solveHeatsink,
+  type HeatsinkAssembly,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+  type MonteCarloTrial,
+  type RandomSource,
+  type SensitivityParameter,
+  type UncertainInput,
+} from "@/lib/thermal";
+
+export interface MonteCarloRequest {
+  design: HeatsinkAssembly;
+  inputs: UncertainInput[];
+  options?: MonteCarloOptions;
+}
+
+export type MonteCarloMessage =
+  | { type: "progress"; fraction: number }
+  | { type: "done"; result: MonteCarloResult }
+  | { type: "error"; message: string };
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: MonteCarloMessage) => self.postMessage(message);
+
+/**
+ * Draws every enabled input and solves the design. The correlation factor
+ * divides the convective resistance, as if it scaled h on every surface.
+ */
+function trial(
+  design: HeatsinkAssembly,
+  parameters: SensitivityParameter<HeatsinkAssembly>[],
+  inputs: UncertainInput[],
+  random: RandomSource
+): MonteCarloTrial {
+  let at = design;
+  let factor = 1;
+  for (const { id, kind, tolerance, enabled } of inputs) {
+    if (!enabled) continue;
+    if (id === CORRELATION_INPUT) {
+      factor = sampleDistribution(
+        { kind, nominal: 1, spread: tolerance },
+        random
+      );
+      continue;
+    }
+    const parameter = parameters.find((p) => p.id === id);
+    if (!parameter) continue;
+    const nominal = parameter.value(design);
+    const spread =
+      parameter.step === undefined ? Math.abs(nominal) * tolerance : tolerance;
+    at = parameter.apply(
+      at,
+      sampleDistribution({ kind, nominal, spread }, random)
+    );
+  }
+  if (!(factor > 0)) throw new RangeError("Convection factor must be positive");
+
+  const heatsink = solveHeatsink(
+    at,
+    convectionInput(at, pressureAtAltitude(at.altitude))
+  );
+  const { devices } = deviceResults(at, {
+    ...heatsink,
+    convectiveResistance: heatsink.convectiveResistance / factor,
+  });
+  return {
+    junctionTemperature: Math.max(
+      ...devices.map((d) => d.stack.junctionTemperature)
+    ),
+    margin: Math.min(...devices.map((d) => d.margin)),
+  };
+}
+
+self.onmessage = ({ data }: MessageEvent<MonteCarloRequest>) => {
+  let lastReport = 0;
+  try {
+    const parameters = sensitivityParameters(data.design);
+    const result = monteCarlo(
+      (random) => trial(data.design, parameters, data.inputs, random),
+      data.options,
+      (fraction) => {
+        const now = performance.now();
+        if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+        lastReport = now;
+        post({ type: "progress", fraction });
+      }
+    );
+    post({ type: "done", result });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};
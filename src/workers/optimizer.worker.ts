@@ -0,0 +1,55 @@
+import {
+  optimizeHeatsink,
+  solveForcedConvection,
+  solveNaturalConvection,
+  type ForcedConvectionInput,
+  type NaturalConvectionInput,
+  type OptimizerBounds,
+  type OptimizerConstraints,
+  type OptimizerOptions,
+  type OptimizerResult,
+  type PlateArrayGeometry,
+} from "@/lib/thermal";
+
+export interface OptimizerRequest {
+  /** Convection input for the current design; its geometry is the template. */
+  input: Omit<NaturalConvectionInput & ForcedConvectionInput, "geometry"> & {
+    geometry: PlateArrayGeometry;
+  };
+  forced: boolean;
+  density: number;
+  bounds: OptimizerBounds;
+  constraints: OptimizerConstraints;
+  options?: OptimizerOptions;
+}
+
+export type OptimizerMessage =
+  | { type: "progress"; fraction: number }
+  | { type: "done"; result: OptimizerResult }
+  | { type: "error"; message: string };
+
+const post = (message: OptimizerMessage) => self.postMessage(message);
+
+self.onmessage = ({ data }: MessageEvent<OptimizerRequest>) => {
+  const { input, forced } = data;
+  try {
+    const result = optimizeHeatsink(
+      input.geometry,
+      data.density,
+      data.bounds,
+      data.constraints,
+      (geometry) => {
+        const at = { ...input, geometry };
+        const heatsink = forced
+          ? solveForcedConvection(at)
+          : solveNaturalConvection(at);
+        return heatsink.baseResistance + heatsink.convectiveResistance;
+      },
+      data.options,
+      (fraction) => post({ type: "progress", fraction })
+    );
+    post({ type: "done", result });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};
@@ -0,0 +1,28 @@
+import {
+  assemblySensitivity,
+  type HeatsinkAssembly,
+  type SensitivityResult,
+} from "@/lib/thermal";
+
+export interface SensitivityRequest {
+  assembly: HeatsinkAssembly;
+  /** Change of each input either way, as a fraction of its value. */
+  fraction: number;
+}
+
+export type SensitivityMessage =
+  | { type: "done"; result: SensitivityResult }
+  | { type: "error"; message: string };
+
+const post = (message: SensitivityMessage) => self.postMessage(message);
+
+self.onmessage = ({ data }: MessageEvent<SensitivityRequest>) => {
+  try {
+    post({
+      type: "done",
+      result: assemblySensitivity(data.assembly, data.fraction),
+    });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+};